@@ -3,8 +3,9 @@ import { InputPanel } from './components/InputPanel';
 import { ResultViewer } from './components/ResultViewer';
 import { ApiDocsModal } from './components/ApiDocsModal';
 import { Accordion } from './components/Accordion';
-import { ProcessingResult, ProcessStatus } from './types';
-import { splitImage } from './services/imageProcessor';
+import { QuotaMeter } from './components/QuotaMeter';
+import { BatchItem, ImageSource, ProcessingResult, ProcessStatus, QuotaStatus, SplitHandlers, SplitOptions, SplitProgress } from './types';
+import { fetchQuota, splitImage, splitImageBatch, splitImageFile } from './services/imageProcessor';
 import { Scissors, Github, Terminal } from 'lucide-react';
 import { useTheme, ThemeColor } from './contexts/ThemeContext';
 
@@ -12,6 +13,12 @@ const App: React.FC = () => {
   const [status, setStatus] = useState<ProcessStatus>(ProcessStatus.IDLE);
   const [result, setResult] = useState<ProcessingResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<SplitProgress | null>(null);
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
+  const [batch, setBatch] = useState<BatchItem[] | null>(null);
+  const [selectedBatchIndex, setSelectedBatchIndex] = useState<number | null>(null);
+  // The last single split, so it can be run again with edited cuts
+  const [lastRequest, setLastRequest] = useState<{ source: ImageSource; chunkHeight: number | null; resizeWidth: number | null; options: SplitOptions } | null>(null);
   const [showDocs, setShowDocs] = useState(false);
   const { themeColor, setThemeColor } = useTheme();
   const [backendStatus, setBackendStatus] = useState<'checking' | 'online' | 'offline'>('checking');
@@ -50,27 +57,110 @@ const App: React.FC = () => {
     checkBackendStatus();
   }, []);
 
-  const handleProcess = useCallback(async (url: string, chunkHeight: number, resizeWidth: number | null) => {
+  const refreshQuota = useCallback(() => {
+    fetchQuota().then((latest) => latest && setQuota(latest));
+  }, []);
+
+  // Load the quota once; after that every split reports it in its response headers
+  useEffect(() => {
+    refreshQuota();
+  }, [refreshQuota]);
+
+  const handleProcess = useCallback(async (source: ImageSource, chunkHeight: number | null, resizeWidth: number | null, options: SplitOptions) => {
     try {
       setStatus(ProcessStatus.LOADING_IMAGE);
       setError(null);
       setResult(null);
+      setProgress(null);
+      setBatch(null);
+      setSelectedBatchIndex(null);
+      setLastRequest({ source, chunkHeight, resizeWidth, options });
 
-      // Slight delay to allow UI to update status
-      await new Promise(resolve => setTimeout(resolve, 100));
-      
-      setStatus(ProcessStatus.PROCESSING);
-      const data = await splitImage(url, chunkHeight, resizeWidth);
+      // The server streams its progress; once the cuts are planned, chunks fill in live
+      const handlers: SplitHandlers = {
+        onProgress: (update) => {
+          setProgress(update);
+          if (update.stage === 'plan' || update.stage === 'chunk') {
+            setStatus(ProcessStatus.PROCESSING);
+          }
+        },
+        onPartialResult: setResult,
+        onQuota: setQuota
+      };
+
+      const data = typeof source === 'string'
+        ? await splitImage(source, chunkHeight, resizeWidth, options, handlers)
+        : await splitImageFile(source, chunkHeight, resizeWidth, options, handlers);
       
       setResult(data);
+      setProgress(null);
       setStatus(ProcessStatus.COMPLETED);
     } catch (err: any) {
       console.error(err);
+      // Don't leave a half-finished set of chunks looking like a result
+      setResult(null);
+      setProgress(null);
       setError(err.message || 'An unexpected error occurred while processing the image.');
       setStatus(ProcessStatus.ERROR);
     }
   }, []);
 
+  // Same image and parameters, cut exactly where the editor says
+  const handleApplyCuts = useCallback((cuts: number[]) => {
+    if (lastRequest) {
+      // An empty list is sent as is: with every cut removed, the image comes back as one chunk
+      handleProcess(lastRequest.source, lastRequest.chunkHeight, lastRequest.resizeWidth, { ...lastRequest.options, cuts });
+    }
+  }, [lastRequest, handleProcess]);
+
+  const handleProcessBatch = useCallback(async (urls: string[], chunkHeight: number | null, resizeWidth: number | null, options: SplitOptions) => {
+    setStatus(ProcessStatus.PROCESSING);
+    setError(null);
+    setResult(null);
+    setProgress(null);
+    setSelectedBatchIndex(null);
+    setLastRequest(null);
+    setBatch(urls.map((url, index) => ({ index, url, status: 'queued' })));
+
+    // Rows update as each image starts and finishes; the first one done is shown straight away
+    let shown = false;
+    const onItem = (item: BatchItem) => {
+      setBatch((rows) => rows && rows.map((row) => (row.index === item.index ? item : row)));
+      if (item.result && !shown) {
+        shown = true;
+        setSelectedBatchIndex(item.index);
+        setResult(item.result);
+      }
+    };
+
+    try {
+      const items = await splitImageBatch(urls, chunkHeight, resizeWidth, options, { onItem, onQuota: setQuota });
+      setBatch(items);
+      const failed = items.filter((item) => item.status === 'failed').length;
+      if (failed === items.length) {
+        setError(`None of the ${items.length} images could be split.`);
+        setStatus(ProcessStatus.ERROR);
+      } else {
+        setError(failed ? `${failed} of ${items.length} images could not be split.` : null);
+        setStatus(ProcessStatus.COMPLETED);
+      }
+    } catch (err: any) {
+      console.error(err);
+      setBatch(null);
+      setResult(null);
+      setError(err.message || 'An unexpected error occurred while processing the batch.');
+      setStatus(ProcessStatus.ERROR);
+    }
+  }, []);
+
+  const handleSelectBatchItem = useCallback((index: number) => {
+    const item = batch?.find((row) => row.index === index);
+    if (item?.result) {
+      setSelectedBatchIndex(index);
+      setResult(item.result);
+    }
+  }, [batch]);
+
   const themeOptions: { id: ThemeColor; color: string }[] = [
     { id: 'indigo', color: 'bg-indigo-500' },
     { id: 'emerald', color: 'bg-emerald-500' },
@@ -95,7 +185,19 @@ const App: React.FC = () => {
 
         <div className="flex-1 overflow-hidden">
           <div className="p-6">
-            <InputPanel onProcess={handleProcess} status={status} error={error} />
+            <InputPanel
+              onProcess={handleProcess}
+              onProcessBatch={handleProcessBatch}
+              status={status}
+              error={error}
+              batch={batch}
+              selectedBatchIndex={selectedBatchIndex}
+              onSelectBatchItem={handleSelectBatchItem}
+            />
+
+            <div className="mt-6">
+              <QuotaMeter quota={quota} onReset={refreshQuota} />
+            </div>
             
             <div className="mt-8">
               <Accordion title="How it works">
@@ -103,7 +205,7 @@ const App: React.FC = () => {
                     This tool processes images server-side to handle any image URL, including those without CORS support.
                   </p>
                   <p className="mt-2">
-                    Simply enter your image URL, set the chunk height, and optionally resize. The server will fetch, process, and split the image into chunks.
+                    Simply enter your image URL (or drop, pick or paste a local file), set the chunk height, and optionally resize. The server will fetch, process, and split the image into chunks.
                   </p>
                   <p className="mt-2">
                     The output is generated as binary and ready for instant download.
@@ -186,20 +288,43 @@ const App: React.FC = () => {
             </div>
           )}
 
-          {(status === ProcessStatus.LOADING_IMAGE || status === ProcessStatus.PROCESSING) && (
+          {/* A batch reports its progress in the sidebar rows, so it doesn't cover the page */}
+          {batch && status === ProcessStatus.PROCESSING && !result && (
+            <div className="absolute inset-0 flex items-center justify-center text-zinc-500 dark:text-zinc-400 pointer-events-none">
+              <div className="flex flex-col items-center gap-4">
+                <div className={`w-12 h-12 border-4 border-${themeColor}-500/30 border-t-${themeColor}-500 rounded-full animate-spin`}></div>
+                <p className="font-medium">Splitting {batch.length} images...</p>
+              </div>
+            </div>
+          )}
+
+          {(status === ProcessStatus.LOADING_IMAGE || status === ProcessStatus.PROCESSING) && !result && !batch && (
             <div className="fixed inset-0 flex items-center justify-center z-50 bg-white/80 dark:bg-zinc-950/80 backdrop-blur-sm transition-colors duration-300 pointer-events-auto">
               <div className="flex flex-col items-center gap-4">
                 <div className={`w-12 h-12 border-4 border-${themeColor}-500/30 border-t-${themeColor}-500 rounded-full animate-spin`}></div>
                 <p className={`text-${themeColor}-600 dark:text-${themeColor}-200 font-medium animate-pulse`}>
-                  {status === ProcessStatus.LOADING_IMAGE ? 'Fetching Source Image...' : 'Slicing Image Chunks...'}
+                  {progress?.stage === 'decode' ? 'Decoding Image...' :
+                   progress?.stage === 'resize' ? 'Resizing Image...' :
+                   status === ProcessStatus.LOADING_IMAGE ? 'Fetching Source Image...' : 'Slicing Image Chunks...'}
                 </p>
+                <div className="w-48 h-1.5 bg-zinc-200 dark:bg-zinc-800 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full bg-${themeColor}-500 transition-all duration-300`}
+                    style={{ width: `${progress?.percent ?? 0}%` }}
+                  />
+                </div>
               </div>
             </div>
           )}
 
           {result && (
             <div className="flex-1 flex flex-col w-full h-full p-6 overflow-hidden">
-              <ResultViewer result={result} />
+              <ResultViewer
+                result={result}
+                progress={status === ProcessStatus.PROCESSING ? progress : null}
+                batch={batch}
+                onApplyCuts={lastRequest ? handleApplyCuts : undefined}
+              />
             </div>
           )}
         </section>
@@ -0,0 +1,296 @@
+/**
+ * API keys for the v1 endpoints
+ *
+ * Each caller gets a named key of the form `ss_<id>_<secret>`. Only a SHA-256 hash
+ * of the key is stored, together with:
+ * - quotaPerHour: the key's own hourly request limit (replaces the per-IP limit)
+ * - enabled: revoked keys stay listed but are refused
+ * - lastUsedAt: updated at most once a minute
+ *
+ * Keys live behind a store with two implementations:
+ * 1. Redis-backed (Upstash) - for deployments
+ * 2. JSON file (API_KEYS_FILE, default .api-keys.json) - for local development
+ *
+ * The single API_KEY from the environment keeps working and is rate limited per IP
+ * as before. An IP that sends too many wrong keys is refused for the rest of the hour
+ * (AUTH_FAILURES_PER_HOUR, see rateLimiter.js). Keys are managed with `npm run keys` (scripts/api-keys.js).
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const { ApiError, sendError } = require('./errors.js');
+const { checkAuthFailures, recordAuthFailure } = require('./rateLimiter.js');
+
+const KEY_PREFIX = 'ss_';
+const KEY_FORMAT = /^ss_([0-9a-f]{12})_([A-Za-z0-9_-]{32})$/;
+const DEFAULT_QUOTA_PER_HOUR = 100;
+
+// lastUsedAt is only rewritten when it is older than this
+const LAST_USED_WRITE_INTERVAL_MS = 60 * 1000;
+
+const unauthorized = () => new ApiError('Unauthorized', { code: 'UNAUTHORIZED', statusCode: 401 });
+
+function hashKey(key) {
+  return crypto.createHash('sha256').update(key).digest();
+}
+
+/**
+ * Compare a presented key against a stored hash in constant time
+ */
+function matchesHash(key, hash) {
+  return crypto.timingSafeEqual(hashKey(key), Buffer.from(hash, 'hex'));
+}
+
+/**
+ * The key record as shown to admins; the hash never leaves the store
+ */
+function publicKey(record) {
+  const { hash, ...rest } = record;
+  return rest;
+}
+
+/**
+ * JSON file key store, read on every call so CLI changes apply without a restart
+ */
+function createFileKeyStore(filePath = process.env.API_KEYS_FILE || path.join(process.cwd(), '.api-keys.json')) {
+  const load = () => {
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf8')).keys || {};
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+  };
+
+  return {
+    mode: 'file',
+    async getKey(id) {
+      return load()[id] || null;
+    },
+    async saveKey(record) {
+      // Synchronous read-modify-write, so saves from this process never interleave
+      const keys = load();
+      keys[record.id] = record;
+      // Write then rename so a crash never leaves half a file
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify({ keys }, null, 2), { mode: 0o600 });
+      fs.renameSync(tmpPath, filePath);
+    },
+    async listKeys() {
+      return Object.values(load());
+    },
+  };
+}
+
+/**
+ * Redis key store: one entry per key plus a set of their ids
+ */
+function createRedisKeyStore(client) {
+  // Upstash deserializes JSON on read, other clients hand back the raw string
+  const parse = (value) => (typeof value === 'string' ? JSON.parse(value) : value || null);
+
+  return {
+    mode: 'redis',
+    async getKey(id) {
+      return parse(await client.get(`apikey:${id}`));
+    },
+    async saveKey(record) {
+      await client.set(`apikey:${record.id}`, JSON.stringify(record));
+      // A set, so keys created at the same time can't drop each other from the index
+      await client.sadd('apikeys', record.id);
+    },
+    async listKeys() {
+      const ids = await client.smembers('apikeys');
+      const records = await Promise.all(ids.map(async (id) => parse(await client.get(`apikey:${id}`))));
+      return records.filter(Boolean);
+    },
+  };
+}
+
+let keyStore = null;
+
+/**
+ * The key store for this process: Redis when configured and reachable, the JSON file otherwise
+ */
+async function getKeyStore() {
+  if (keyStore) {
+    return keyStore;
+  }
+
+  if (process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN) {
+    try {
+      const { Redis } = await import('@upstash/redis');
+      const client = new Redis({
+        url: process.env.UPSTASH_REDIS_REST_URL,
+        token: process.env.UPSTASH_REDIS_REST_TOKEN,
+      });
+      await client.ping();
+      keyStore = createRedisKeyStore(client);
+      console.log('[API Keys] Using Upstash Redis for API keys');
+      return keyStore;
+    } catch (error) {
+      console.warn('[API Keys] Failed to connect to Redis, falling back to the key file:', error.message);
+    }
+  }
+
+  keyStore = createFileKeyStore();
+  return keyStore;
+}
+
+/**
+ * Replace the key store (used by tests and the CLI)
+ */
+function setKeyStore(store) {
+  keyStore = store;
+}
+
+/**
+ * Create a key. Resolves with the plaintext key, which is not stored and cannot be shown again.
+ */
+async function createApiKey(store, { name, quotaPerHour = DEFAULT_QUOTA_PER_HOUR }) {
+  if (!name || typeof name !== 'string') {
+    throw new Error('A key needs a name');
+  }
+  if (!Number.isInteger(quotaPerHour) || quotaPerHour <= 0) {
+    throw new Error('quotaPerHour must be a positive integer');
+  }
+
+  const id = crypto.randomBytes(6).toString('hex');
+  const key = `${KEY_PREFIX}${id}_${crypto.randomBytes(24).toString('base64url')}`;
+  const record = {
+    id,
+    name,
+    hash: hashKey(key).toString('hex'),
+    quotaPerHour,
+    enabled: true,
+    createdAt: new Date().toISOString(),
+    lastUsedAt: null,
+  };
+
+  await store.saveKey(record);
+  return { key, record: publicKey(record) };
+}
+
+async function listApiKeys(store) {
+  const records = await store.listKeys();
+  return records.map(publicKey).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Enable or disable (revoke) a key. Resolves with the updated key, or null when the id is unknown.
+ */
+async function setApiKeyEnabled(store, id, enabled) {
+  const record = await store.getKey(id);
+  if (!record) {
+    return null;
+  }
+  const updated = { ...record, enabled, revokedAt: enabled ? null : new Date().toISOString() };
+  await store.saveKey(updated);
+  return publicKey(updated);
+}
+
+/**
+ * Look up the enabled key matching a presented key, or null
+ */
+async function verifyApiKey(store, presented) {
+  const match = typeof presented === 'string' && presented.match(KEY_FORMAT);
+  if (!match) {
+    return null;
+  }
+  const record = await store.getKey(match[1]);
+  if (!record || !matchesHash(presented, record.hash) || !record.enabled) {
+    return null;
+  }
+  return record;
+}
+
+/**
+ * Record when a key was last used, without writing on every request
+ */
+async function touchApiKey(store, record) {
+  const now = Date.now();
+  if (record.lastUsedAt && now - Date.parse(record.lastUsedAt) < LAST_USED_WRITE_INTERVAL_MS) {
+    return;
+  }
+  // Re-read so a revocation made since the key was verified is not overwritten
+  const current = await store.getKey(record.id);
+  if (current) {
+    await store.saveKey({ ...current, lastUsedAt: new Date(now).toISOString() });
+  }
+}
+
+/**
+ * Middleware: accept the environment API_KEY or an enabled managed key from the API_KEY header.
+ * Sets req.apiKey to `{ id, name, quotaPerHour }`; quotaPerHour is null for the environment key.
+ */
+async function apiKeyAuth(req, res, next) {
+  const presented = req.header('API_KEY');
+  if (!presented) {
+    return sendError(res, unauthorized());
+  }
+
+  try {
+    // Checked before the key itself, so an IP that keeps sending wrong keys can't keep guessing
+    const blocked = await checkAuthFailures(req);
+    if (blocked) {
+      res.setHeader('Retry-After', blocked.retryAfter);
+      return sendError(res, new ApiError('Too many wrong API keys. Please try again later.', {
+        code: 'RATE_LIMITED',
+        statusCode: 429,
+        details: blocked,
+      }));
+    }
+
+    // Hashing both sides first makes the comparison constant-time whatever their lengths
+    if (process.env.API_KEY && crypto.timingSafeEqual(hashKey(presented), hashKey(process.env.API_KEY))) {
+      req.apiKey = { id: 'env', name: 'API_KEY', quotaPerHour: null };
+      return next();
+    }
+
+    const store = await getKeyStore();
+    const record = await verifyApiKey(store, presented);
+    if (!record) {
+      await recordAuthFailure(req);
+      // Don't reveal whether the key exists, is wrong or was revoked
+      return sendError(res, unauthorized());
+    }
+
+    req.apiKey = { id: record.id, name: record.name, quotaPerHour: record.quotaPerHour };
+    touchApiKey(store, record).catch((error) => console.error(`[API Keys] Failed to record use of ${record.id}:`, error.message));
+    next();
+  } catch (error) {
+    console.error('[API Keys] Key lookup failed:', error.message);
+    sendError(res, error, 'Server error: could not verify the API key.');
+  }
+}
+
+/**
+ * Middleware: apiKeyAuth when an API_KEY header is sent, nothing otherwise
+ */
+function optionalApiKeyAuth(req, res, next) {
+  if (!req.header('API_KEY')) {
+    return next();
+  }
+  return apiKeyAuth(req, res, next);
+}
+
+module.exports = {
+  DEFAULT_QUOTA_PER_HOUR,
+  apiKeyAuth,
+  optionalApiKeyAuth,
+  createApiKey,
+  listApiKeys,
+  setApiKeyEnabled,
+  verifyApiKey,
+  getKeyStore,
+  setKeyStore,
+  createFileKeyStore,
+  createRedisKeyStore,
+  // Exported for testing
+  __internal: {
+    touchApiKey,
+  },
+};
@@ -0,0 +1,120 @@
+/**
+ * Batch processing for SplitStream
+ *
+ * POST /api/v1/batch (and /api/ui/batch for the web UI) splits up to MAX_BATCH_ITEMS
+ * image URLs in one request, counted once per item by the rate limiter. Items are validated and
+ * split independently: a bad URL or a failed download is reported for that item and the
+ * rest carry on. At most BATCH_CONCURRENCY images are processed at the same time
+ * (default: 3), which bounds memory as much as it bounds the load on the image hosts.
+ *
+ * Items reuse cached results like /api/v1/process does (see resultCache.js).
+ */
+
+const { cachedSplit } = require('./resultCache.js');
+const { toApiError, ValidationError } = require('./errors.js');
+
+const BATCH_CONCURRENCY = parseInt(process.env.BATCH_CONCURRENCY, 10) || 3;
+
+// A batch answers with all of its results in one body, or streams them item by item
+const BATCH_RESPONSE_FORMATS = ['json', 'ndjson'];
+
+/**
+ * Reject response formats a batch can't be sent in
+ */
+function assertBatchResponseFormat(format) {
+  if (!BATCH_RESPONSE_FORMATS.includes(format)) {
+    throw new ValidationError(`Invalid responseFormat for a batch: must be one of ${BATCH_RESPONSE_FORMATS.join(', ')}.`, {
+      field: 'responseFormat',
+      details: { allowed: BATCH_RESPONSE_FORMATS },
+    });
+  }
+}
+
+/**
+ * Call fn for every item with at most `limit` calls pending, resolving with the
+ * results in the order of the items
+ */
+async function mapWithConcurrency(items, limit, fn) {
+  const results = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Split one validated batch item. Never throws: failures become a 'failed' outcome.
+ * Items that failed validation already carry their ApiError.
+ */
+async function runItem({ index, url, request, error }, { chunkEncoding, onItem, onCacheHit }) {
+  if (error) {
+    const outcome = { index, url, status: 'failed', error: error.toJSON() };
+    onItem(outcome);
+    return outcome;
+  }
+
+  onItem({ index, url, status: 'processing' });
+  let outcome;
+  try {
+    const { source, height, width, options, noCache } = request;
+    const split = await cachedSplit(source, height, width, options, { noCache });
+    if (split.cacheStatus === 'HIT') {
+      await onCacheHit();
+    }
+    const result = await split.run({ chunkEncoding });
+    outcome = { index, url, status: 'completed', cacheStatus: split.cacheStatus, result };
+  } catch (failure) {
+    console.error(`[Batch] Item ${index} failed:`, failure.message);
+    outcome = { index, url, status: 'failed', error: toApiError(failure).toJSON() };
+  }
+  onItem(outcome);
+  return outcome;
+}
+
+/**
+ * Split every item of a batch (as resolved by validateBatchRequest), calling onItem
+ * when an item starts processing and when it completes or fails.
+ * Resolves with a summary and the outcome of every item, in request order. With
+ * keepResults false (when onItem already sends the outcomes on) only the summary is
+ * kept, so the chunks of finished items don't pile up until the end of the batch.
+ * onCacheHit is awaited for every item answered from the result cache.
+ * @param {Array<Object>} items - Validated items: `{ index, url, request }` or `{ index, url, error }`
+ * @param {{ chunkEncoding?: string, onItem?: (outcome: Object) => void, onCacheHit?: () => Promise<void>, keepResults?: boolean }} [options]
+ */
+async function runBatch(items, { chunkEncoding, onItem = () => {}, onCacheHit = async () => {}, keepResults = true } = {}) {
+  const startTime = Date.now();
+  let completed = 0;
+  const outcomes = await mapWithConcurrency(items, BATCH_CONCURRENCY, async (item) => {
+    const outcome = await runItem(item, { chunkEncoding, onItem, onCacheHit });
+    if (outcome.status === 'completed') {
+      completed++;
+    }
+    return keepResults ? outcome : null;
+  });
+
+  const summary = {
+    itemCount: items.length,
+    completed,
+    failed: items.length - completed,
+    processingTimeMs: Date.now() - startTime,
+  };
+  return keepResults ? { ...summary, items: outcomes } : summary;
+}
+
+module.exports = {
+  BATCH_CONCURRENCY,
+  BATCH_RESPONSE_FORMATS,
+  assertBatchResponseFormat,
+  runBatch,
+  // Exported for testing
+  __internal: {
+    mapWithConcurrency,
+  },
+};
@@ -0,0 +1,111 @@
+/**
+ * Errors with a stable machine-readable code, so routes can answer with the right
+ * status instead of matching on message text.
+ *
+ * Every failure reaches the client as `{ error: { code, message, field, details } }`:
+ * - code: one of the codes below, for clients to branch on
+ * - message: safe to show to a person
+ * - field: the request parameter at fault, or null
+ * - details: extra machine-readable context (such as an upstream HTTP status), or null
+ */
+
+class ApiError extends Error {
+  constructor(message, { code, statusCode, field = null, details = null }) {
+    super(message);
+    this.name = this.constructor.name;
+    this.code = code;
+    this.statusCode = statusCode;
+    this.field = field;
+    this.details = details;
+  }
+
+  toJSON() {
+    return { code: this.code, message: this.message, field: this.field, details: this.details };
+  }
+}
+
+// A request parameter is missing or out of range
+class ValidationError extends ApiError {
+  /**
+   * @param {string} message
+   * @param {{ field?: string, code?: string, details?: Object }} [options]
+   */
+  constructor(message, { field, code = 'INVALID_PARAMETER', details } = {}) {
+    super(message, { code, statusCode: 400, field, details });
+  }
+}
+
+// The URL (or a redirect) points somewhere the server must not fetch from
+class UrlBlockedError extends ApiError {
+  constructor(message, { field } = {}) {
+    super(message, { code: 'URL_BLOCKED', statusCode: 400, field });
+  }
+}
+
+// More bytes than the download limit
+class ImageTooLargeError extends ApiError {
+  constructor(message) {
+    super(message, { code: 'IMAGE_TOO_LARGE', statusCode: 413 });
+  }
+}
+
+// A decodable image, but with more pixels than the server will hold in memory
+class ImageDimensionsError extends ApiError {
+  constructor(message) {
+    super(message, { code: 'IMAGE_DIMENSIONS_EXCEEDED', statusCode: 422 });
+  }
+}
+
+// The bytes (uploaded or downloaded) are not an image the decoder understands
+class ImageDecodeError extends ApiError {
+  constructor(message) {
+    super(message, { code: 'IMAGE_DECODE_FAILED', statusCode: 400 });
+  }
+}
+
+// The image URL could not be downloaded; details.status holds the upstream HTTP status
+// and details.reason the network error code, when known
+class FetchError extends ApiError {
+  constructor(message, details = null) {
+    super(message, { code: 'FETCH_FAILED', statusCode: 502, field: 'url', details });
+  }
+}
+
+// The image URL did not answer in time
+class FetchTimeoutError extends ApiError {
+  constructor(message) {
+    super(message, { code: 'FETCH_TIMEOUT', statusCode: 504, field: 'url' });
+  }
+}
+
+/**
+ * The ApiError to report for any failure; unexpected errors become a generic 500
+ * so internal messages never reach the client
+ */
+function toApiError(error, fallbackMessage = 'Failed to process image. Please try again later.') {
+  if (error instanceof ApiError) {
+    return error;
+  }
+  return new ApiError(fallbackMessage, { code: 'INTERNAL_ERROR', statusCode: 500 });
+}
+
+/**
+ * Answer with the error's status and the structured error body
+ */
+function sendError(res, error, fallbackMessage) {
+  const apiError = toApiError(error, fallbackMessage);
+  return res.status(apiError.statusCode).json({ error: apiError.toJSON() });
+}
+
+module.exports = {
+  ApiError,
+  ValidationError,
+  UrlBlockedError,
+  ImageTooLargeError,
+  ImageDimensionsError,
+  ImageDecodeError,
+  FetchError,
+  FetchTimeoutError,
+  toApiError,
+  sendError,
+};
@@ -0,0 +1,153 @@
+/**
+ * Read image dimensions from the file header without decoding any pixels.
+ *
+ * Used to refuse decompression bombs before Jimp allocates width x height x 4 bytes.
+ * Covers the formats Jimp decodes (PNG, JPEG, GIF, BMP, TIFF) plus WebP.
+ */
+
+/**
+ * PNG: the IHDR chunk always comes first
+ */
+function readPng(buffer) {
+  if (buffer.length < 24 || buffer.toString('ascii', 12, 16) !== 'IHDR') {
+    return null;
+  }
+  return { format: 'png', width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+}
+
+/**
+ * JPEG: walk the marker segments until the first start-of-frame
+ */
+function readJpeg(buffer) {
+  // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC) which share the range
+  const isStartOfFrame = (marker) => marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker);
+  let offset = 2;
+
+  while (offset + 9 <= buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      return null;
+    }
+    const marker = buffer[offset + 1];
+    // Fill bytes before a marker
+    if (marker === 0xff) {
+      offset += 1;
+      continue;
+    }
+    // Markers without a length field
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += 2;
+      continue;
+    }
+    if (isStartOfFrame(marker)) {
+      return { format: 'jpeg', width: buffer.readUInt16BE(offset + 7), height: buffer.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+  return null;
+}
+
+function readGif(buffer) {
+  if (buffer.length < 10) {
+    return null;
+  }
+  return { format: 'gif', width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+}
+
+function readBmp(buffer) {
+  if (buffer.length < 26) {
+    return null;
+  }
+  // Negative heights mark top-down bitmaps
+  return { format: 'bmp', width: Math.abs(buffer.readInt32LE(18)), height: Math.abs(buffer.readInt32LE(22)) };
+}
+
+/**
+ * TIFF: width and height tags of the first image file directory
+ */
+function readTiff(buffer) {
+  const littleEndian = buffer.toString('ascii', 0, 2) === 'II';
+  const read16 = (at) => (littleEndian ? buffer.readUInt16LE(at) : buffer.readUInt16BE(at));
+  const read32 = (at) => (littleEndian ? buffer.readUInt32LE(at) : buffer.readUInt32BE(at));
+
+  const directory = read32(4);
+  if (directory + 2 > buffer.length) {
+    return null;
+  }
+
+  const dimensions = {};
+  const entries = read16(directory);
+  for (let i = 0; i < entries; i++) {
+    const entry = directory + 2 + i * 12;
+    if (entry + 12 > buffer.length) {
+      break;
+    }
+    const tag = read16(entry);
+    if (tag === 256 || tag === 257) {
+      // SHORT (3) values sit in the first two bytes of the value field, LONG (4) fill it
+      const value = read16(entry + 2) === 3 ? read16(entry + 8) : read32(entry + 8);
+      dimensions[tag === 256 ? 'width' : 'height'] = value;
+    }
+  }
+
+  if (dimensions.width === undefined || dimensions.height === undefined) {
+    return null;
+  }
+  return { format: 'tiff', ...dimensions };
+}
+
+function readWebp(buffer) {
+  if (buffer.length < 30) {
+    return null;
+  }
+  const chunk = buffer.toString('ascii', 12, 16);
+
+  if (chunk === 'VP8X') {
+    return { format: 'webp', width: 1 + buffer.readUIntLE(24, 3), height: 1 + buffer.readUIntLE(27, 3) };
+  }
+  if (chunk === 'VP8L') {
+    const bits = buffer.readUInt32LE(21);
+    return { format: 'webp', width: 1 + (bits & 0x3fff), height: 1 + ((bits >> 14) & 0x3fff) };
+  }
+  if (chunk === 'VP8 ') {
+    return { format: 'webp', width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff };
+  }
+  return null;
+}
+
+/**
+ * Width and height from an image's header, or null for unknown or truncated files
+ */
+function readImageDimensions(buffer) {
+  if (!Buffer.isBuffer(buffer) || buffer.length < 10) {
+    return null;
+  }
+
+  try {
+    if (buffer.readUInt32BE(0) === 0x89504e47) {
+      return readPng(buffer);
+    }
+    if (buffer[0] === 0xff && buffer[1] === 0xd8) {
+      return readJpeg(buffer);
+    }
+    if (buffer.toString('ascii', 0, 4) === 'GIF8') {
+      return readGif(buffer);
+    }
+    if (buffer.toString('ascii', 0, 2) === 'BM') {
+      return readBmp(buffer);
+    }
+    if (['II*\0', 'MM\0*'].includes(buffer.toString('latin1', 0, 4))) {
+      return readTiff(buffer);
+    }
+    if (buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+      return readWebp(buffer);
+    }
+  } catch (error) {
+    // A header that points past the end of the buffer is just as unknown
+    return null;
+  }
+  return null;
+}
+
+module.exports = {
+  readImageDimensions,
+};
@@ -1,7 +1,102 @@
 const Jimp = require('jimp');
-const fetch = require('node-fetch');
+const { safeFetch } = require('./urlGuard.js');
+const { readImageDimensions } = require('./imageHeader.js');
+const { MAX_DOWNLOAD_BYTES, MAX_IMAGE_PIXELS, formatLimit } = require('./limits.js');
+const { pageLayout } = require('./pageLayout.js');
+const { MAX_CHUNK_COUNT } = require('./validation.js');
+const {
+  ApiError,
+  ImageTooLargeError,
+  ImageDimensionsError,
+  ImageDecodeError,
+  ValidationError,
+  FetchError,
+  FetchTimeoutError,
+} = require('./errors.js');
 
-// Helper function to fetch image with multiple retry strategies
+// Supported chunk encodings and their MIME types
+const OUTPUT_FORMATS = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+};
+
+// Quality used for lossy formats when the caller doesn't pick one
+const DEFAULT_QUALITY = 85;
+
+/**
+ * Read a response body, refusing anything over maxBytes.
+ * Content-Length is checked up front and the byte count again while streaming,
+ * since the header can be missing or wrong (and counts compressed bytes).
+ */
+async function readLimitedBody(response, maxBytes = MAX_DOWNLOAD_BYTES) {
+  const tooLarge = () => new ImageTooLargeError(`The image is larger than the ${formatLimit(maxBytes)} download limit.`);
+
+  const declaredLength = parseInt(response.headers.get('content-length'), 10);
+  if (declaredLength > maxBytes) {
+    response.body.destroy();
+    throw tooLarge();
+  }
+
+  const parts = [];
+  let received = 0;
+  for await (const part of response.body) {
+    received += part.length;
+    if (received > maxBytes) {
+      response.body.destroy();
+      throw tooLarge();
+    }
+    parts.push(part);
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * Refuse images whose header claims more pixels than MAX_IMAGE_PIXELS, before decoding them
+ */
+function assertPixelLimit(buffer, maxPixels = MAX_IMAGE_PIXELS) {
+  const dimensions = readImageDimensions(buffer);
+  if (dimensions && dimensions.width * dimensions.height > maxPixels) {
+    throw new ImageDimensionsError(
+      `The image is ${dimensions.width}x${dimensions.height} pixels, more than the limit of ${maxPixels} pixels.`
+    );
+  }
+}
+
+/**
+ * The typed error for a download that failed after every retry
+ */
+function toFetchError(error) {
+  // node-fetch marks both connect and body timeouts with a type
+  if (error.type === 'request-timeout' || error.type === 'body-timeout') {
+    return new FetchTimeoutError('The image took too long to download. Please try a smaller image or different URL.');
+  }
+  if (error.status) {
+    return new FetchError(
+      `The image URL answered HTTP ${error.status}. Check that it is publicly accessible.`,
+      { status: error.status }
+    );
+  }
+  if (error.code === 'ENOTFOUND' || error.code === 'EAI_AGAIN') {
+    return new FetchError('Could not resolve the domain. Please check the URL.', { reason: error.code });
+  }
+  if (error.code === 'ECONNREFUSED') {
+    return new FetchError('Connection refused by the server. The URL may be temporarily unavailable.', { reason: error.code });
+  }
+  return new FetchError('Could not download the image. Please try again later.', error.code ? { reason: error.code } : null);
+}
+
+/**
+ * Error for a non-2xx answer, retried like network errors and typed by toFetchError
+ */
+function httpError(response) {
+  const error = new Error(`HTTP ${response.status}: ${response.statusText}`);
+  error.status = response.status;
+  return error;
+}
+
+// Helper function to fetch image with multiple retry strategies.
+// Failures are thrown as FetchError or FetchTimeoutError once every strategy has been tried.
 async function fetchImageBuffer(imageUrl) {
   const maxRetries = 2;
   let lastError;
@@ -10,7 +105,7 @@ async function fetchImageBuffer(imageUrl) {
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
       console.log(`[ImageProcessor] Attempt ${attempt}: Direct fetch with browser headers...`);
-      const response = await fetch(imageUrl, {
+      const response = await safeFetch(imageUrl, {
         headers: {
           'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
           'Accept': 'image/webp,image/apng,image/svg+xml,image/*,*/*;q=0.8',
@@ -22,8 +117,7 @@ async function fetchImageBuffer(imageUrl) {
           'Cache-Control': 'no-cache',
           'Pragma': 'no-cache'
         },
-        timeout: 15000,
-        redirect: 'follow'
+        timeout: 15000
       });
 
       console.log(`[ImageProcessor] Response status: ${response.status} ${response.statusText}`);
@@ -31,7 +125,7 @@ async function fetchImageBuffer(imageUrl) {
       if (response.ok) {
         const contentType = response.headers.get('content-type') || '';
         if (contentType.startsWith('image/') || contentType === '') {
-          const buffer = await response.buffer();
+          const buffer = await readLimitedBody(response);
           console.log(`[ImageProcessor] Successfully fetched ${buffer.length} bytes (attempt ${attempt})`);
           return buffer;
         }
@@ -44,9 +138,13 @@ async function fetchImageBuffer(imageUrl) {
       }
 
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        throw httpError(response);
       }
     } catch (error) {
+      // Blocked URLs and oversized images won't change on a retry
+      if (error instanceof ApiError) {
+        throw error;
+      }
       lastError = error;
       if (attempt < maxRetries) {
         console.warn(`[ImageProcessor] Attempt ${attempt} failed: ${error.message}, retrying...`);
@@ -59,49 +157,408 @@ async function fetchImageBuffer(imageUrl) {
   // If direct fetch failed with 403, try without strict Sec-Fetch headers
   try {
     console.log(`[ImageProcessor] Strategy 2: Fetch with minimal headers...`);
-    const response = await fetch(imageUrl, {
+    const response = await safeFetch(imageUrl, {
       headers: {
         'User-Agent': 'Mozilla/5.0 (compatible; Node.js)'
       },
-      timeout: 15000,
-      redirect: 'follow'
+      timeout: 15000
     });
 
     console.log(`[ImageProcessor] Response status: ${response.status} ${response.statusText}`);
 
     if (response.ok) {
-      const buffer = await response.buffer();
+      const buffer = await readLimitedBody(response);
       console.log(`[ImageProcessor] Successfully fetched ${buffer.length} bytes (strategy 2)`);
       return buffer;
     }
 
     if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      throw httpError(response);
     }
   } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
     lastError = error;
     console.error(`[ImageProcessor] Strategy 2 failed: ${error.message}`);
   }
 
-  throw lastError || new Error('Failed to fetch image with all strategies');
+  throw lastError ? toFetchError(lastError) : new FetchError('Could not download the image. Please try again later.');
 }
 
+// Height (in rows) of the band scored around each candidate cut in smart mode
+const SMART_SPLIT_BAND_ROWS = 8;
+
 /**
- * The main backend logic run in Node.js.
- * Splits the source image into chunks of specific height and returns them as base64 data URIs.
+ * Measure how much visual detail a single pixel row carries.
+ * Sums luminance changes to the left neighbour and to the row below, so uniform
+ * background rows score close to zero while text and UI edges score high.
  */
-const splitImageApi = async (imageUrl, targetChunkHeight, resizeWidth) => {
-  const startTime = Date.now();
+function rowDetail(bitmap, y) {
+  const { width, height, data } = bitmap;
+  // Sample at most ~400 columns per row to keep wide images fast
+  const step = Math.max(1, Math.floor(width / 400));
+  const nextRow = Math.min(y + 1, height - 1);
+  let detail = 0;
+  let previous = null;
+
+  for (let x = 0; x < width; x += step) {
+    const idx = (y * width + x) * 4;
+    const below = (nextRow * width + x) * 4;
+    const luma = data[idx] * 0.299 + data[idx + 1] * 0.587 + data[idx + 2] * 0.114;
+    const lumaBelow = data[below] * 0.299 + data[below + 1] * 0.587 + data[below + 2] * 0.114;
+
+    if (previous !== null) {
+      detail += Math.abs(luma - previous);
+    }
+    detail += Math.abs(luma - lumaBelow);
+    previous = luma;
+  }
+
+  return detail;
+}
+
+/**
+ * Find the lowest-detail cut position within `tolerance` rows of `targetY`.
+ * A cut at position y separates rows [.., y - 1] from rows [y, ..].
+ * Ties are resolved in favour of the position closest to the target.
+ */
+function findSmartCut(bitmap, targetY, tolerance, minY, maxY) {
+  const from = Math.max(minY, targetY - tolerance);
+  const to = Math.min(maxY, targetY + tolerance);
+  if (from >= to) {
+    return Math.min(Math.max(targetY, minY), maxY);
+  }
+
+  const halfBand = Math.floor(SMART_SPLIT_BAND_ROWS / 2);
+  const firstRow = Math.max(0, from - halfBand);
+  const lastRow = Math.min(bitmap.height - 1, to + halfBand);
+
+  // Prefix sums of row detail so every candidate band is scored in O(1)
+  const prefix = [0];
+  for (let y = firstRow; y <= lastRow; y++) {
+    prefix.push(prefix[prefix.length - 1] + rowDetail(bitmap, y));
+  }
+
+  let bestY = targetY;
+  let bestScore = Infinity;
+  for (let y = from; y <= to; y++) {
+    const bandStart = Math.max(firstRow, y - halfBand);
+    const bandEnd = Math.min(lastRow + 1, y + halfBand);
+    const rows = Math.max(1, bandEnd - bandStart);
+    const score = (prefix[bandEnd - firstRow] - prefix[bandStart - firstRow]) / rows;
+
+    if (score < bestScore || (score === bestScore && Math.abs(y - targetY) < Math.abs(bestY - targetY))) {
+      bestScore = score;
+      bestY = y;
+    }
+  }
+
+  return bestY;
+}
+
+/**
+ * Resolve how many chunks (rows) the image is split into when the caller asks for a
+ * chunk count, an aspect ratio or a number of grid rows instead of a pixel height.
+ * Returns null when a pixel height (chunkHeight or tileHeight) drives the split.
+ */
+function resolveChunkCount(width, height, options = {}) {
+  const splitBy = options.splitBy || 'height';
+
+  if (splitBy === 'count') {
+    return Math.min(options.count, height);
+  }
+
+  if (splitBy === 'grid') {
+    // Grid rows are either an explicit count or derived from tileHeight
+    return options.rows ? Math.min(options.rows, height) : null;
+  }
+
+  if (splitBy === 'aspectRatio') {
+    // aspectRatio is width / height, so a 4:5 portrait slide is 0.8
+    const idealHeight = width / options.aspectRatio;
+    return Math.min(Math.max(1, Math.round(height / idealHeight)), height);
+  }
+
+  return null;
+}
+
+/**
+ * Work out where the image is cut, as a list of boundaries from 0 to height.
+ * In 'fixed' mode cuts fall on exact multiples of the chunk height (or are spread
+ * evenly when splitting by count or aspect ratio); in 'smart' mode each cut is
+ * moved to the calmest row band within the tolerance window. Page splits only move
+ * cuts upwards, since a taller chunk would no longer fit on its page.
+ */
+function planCuts(bitmap, targetChunkHeight, options = {}) {
+  const { width, height } = bitmap;
+  const splitMode = options.splitMode || 'fixed';
+  const count = resolveChunkCount(width, height, options);
+  const nominalHeight = count ? Math.ceil(height / count) : targetChunkHeight;
+  // Never search further than half a chunk, otherwise cuts could cross each other
+  const tolerance = Math.min(options.smartTolerance ?? 0, Math.floor(nominalHeight / 2));
+  const boundaries = [0];
+  let currentY = 0;
+
+  for (let index = 1; currentY < height; index++) {
+    // Spreading the targets evenly shares the remainder between all chunks,
+    // so the last one isn't left as a thin sliver
+    let nextY = count ? Math.round((index * height) / count) : currentY + targetChunkHeight;
+
+    if (nextY >= height) {
+      nextY = height;
+    } else if (splitMode === 'smart' && tolerance > 0) {
+      const maxY = options.splitBy === 'page' ? nextY : height - 1;
+      nextY = findSmartCut(bitmap, nextY, tolerance, currentY + 1, maxY);
+    }
+
+    boundaries.push(nextY);
+    currentY = nextY;
+  }
+
+  return boundaries;
+}
+
+/**
+ * Row boundaries from explicit cut positions, used exactly as given.
+ * Cuts outside the image are dropped.
+ */
+function cutBoundaries(cuts, height) {
+  const inside = [...new Set(cuts)].filter((cut) => cut > 0 && cut < height).sort((a, b) => a - b);
+  return [0, ...inside, height];
+}
+
+/**
+ * Work out the column boundaries from 0 to width. Only grid tiling splits
+ * horizontally, by a fixed tileWidth or into `columns` equal parts.
+ */
+function planColumns(width, options = {}) {
+  if (options.splitBy !== 'grid') {
+    return [0, width];
+  }
+
+  const count = options.columns ? Math.min(options.columns, width) : null;
+  const boundaries = [0];
+  let currentX = 0;
+
+  for (let index = 1; currentX < width; index++) {
+    const nextX = Math.min(width, count ? Math.round((index * width) / count) : currentX + options.tileWidth);
+    boundaries.push(nextX);
+    currentX = nextX;
+  }
+
+  return boundaries;
+}
+
+/**
+ * Reject a grid that would make more than MAX_CHUNK_COUNT tiles. Tile sizes and counts are
+ * each bounded on their own, so the total is only known once the image size is.
+ */
+function assertGridTileCount(width, height, options, explicitBoundaries) {
+  const columns = options.columns ? Math.min(options.columns, width) : Math.ceil(width / options.tileWidth);
+  const rows = explicitBoundaries
+    ? explicitBoundaries.length - 1
+    : options.rows ? Math.min(options.rows, height) : Math.ceil(height / options.tileHeight);
+  if (rows * columns > MAX_CHUNK_COUNT) {
+    throw new ValidationError(
+      `Grid tiling would make ${rows * columns} tiles (${rows} rows of ${columns}) from this ${width}x${height} image, more than the limit of ${MAX_CHUNK_COUNT}. Use larger tiles or fewer rows and columns.`,
+      { field: options.columns ? 'columns' : 'tileWidth', details: { tiles: rows * columns, rows, columns, max: MAX_CHUNK_COUNT } }
+    );
+  }
+}
+
+// The parameter that sets the number of chunks of each strip split
+const CHUNK_COUNT_FIELDS = { height: 'chunkHeight', count: 'count', aspectRatio: 'aspectRatio', page: 'paperSize' };
+
+/**
+ * Reject a strip split that would make more than MAX_CHUNK_COUNT chunks. A chunk height,
+ * aspect ratio or page size only turns into a number of chunks once the image size is known.
+ */
+function assertChunkCount(width, height, splitBy, count, rowTarget) {
+  const chunks = count || Math.ceil(height / rowTarget);
+  if (chunks > MAX_CHUNK_COUNT) {
+    throw new ValidationError(
+      `Splitting this ${width}x${height} image would make ${chunks} chunks, more than the limit of ${MAX_CHUNK_COUNT}. Use taller chunks.`,
+      { field: CHUNK_COUNT_FIELDS[splitBy], details: { chunks, max: MAX_CHUNK_COUNT } }
+    );
+  }
+}
+
+/**
+ * Start of segment `index` once overlap is applied: it repeats the tail of the
+ * previous segment, but never reaches back past that segment's start
+ */
+function overlappedStart(boundaries, index, overlap) {
+  return index === 0 ? 0 : Math.max(boundaries[index - 1], boundaries[index] - overlap);
+}
+
+/**
+ * Whether every pixel of a run along the bitmap is within `tolerance` of `color` on each
+ * channel (alpha included). The run starts at (x, y) and takes `length` steps of (dx, dy).
+ */
+function isUniformRun(bitmap, x, y, dx, dy, length, color, tolerance) {
+  const { data, width } = bitmap;
+  for (let step = 0; step < length; step++) {
+    const index = ((y + step * dy) * width + (x + step * dx)) * 4;
+    for (let channel = 0; channel < 4; channel++) {
+      if (Math.abs(data[index + channel] - color[channel]) > tolerance) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
+/**
+ * Uniform borders of a bitmap: how many whole rows (or columns) on each side match the
+ * colour of that side's first pixel. Sides are measured on their own, so a white header
+ * and a black footer both go. An image that is one colour all over has no border.
+ */
+function findUniformBorders(bitmap, tolerance) {
+  const { data, width, height } = bitmap;
+  const colorAt = (x, y) => {
+    const index = (y * width + x) * 4;
+    return data.subarray(index, index + 4);
+  };
+
+  // A side that would take everything that is left is kept instead: that's the content
+  const scan = (limit, isBorder) => {
+    let size = 0;
+    while (size < limit && isBorder(size)) size++;
+    return size === limit ? 0 : size;
+  };
+
+  const top = scan(height, (row) => isUniformRun(bitmap, 0, row, 1, 0, width, colorAt(0, 0), tolerance));
+  const bottom = scan(height - top, (row) =>
+    isUniformRun(bitmap, 0, height - 1 - row, 1, 0, width, colorAt(0, height - 1), tolerance)
+  );
+
+  // Columns are only compared over the rows that are left
+  const rows = height - top - bottom;
+  const left = scan(width, (column) => isUniformRun(bitmap, column, top, 0, 1, rows, colorAt(0, top), tolerance));
+  const right = scan(width - left, (column) =>
+    isUniformRun(bitmap, width - 1 - column, top, 0, 1, rows, colorAt(width - 1, top), tolerance)
+  );
+
+  return { top, bottom, left, right };
+}
+
+/**
+ * ValidationError for a pair of insets that together cover the whole of one axis.
+ * Names the inset(s) actually given, and points `field` at the larger one.
+ */
+function insetOverflowError(axis, size, fields, values) {
+  const given = fields.filter((_, index) => values[index] > 0);
+  const field = values[1] > values[0] ? fields[1] : fields[0];
+  const subject = given.length > 1 ? `${given.join(' and ')} together` : given[0];
+  return new ValidationError(`Invalid ${field}: ${subject} must leave some of the image's ${size} pixels of ${axis}.`, {
+    field,
+    details: { axis, [axis]: size, [fields[0]]: values[0], [fields[1]]: values[1] },
+  });
+}
+
+/**
+ * Crop the requested borders off the image, in place: the explicit trimTop/trimBottom/
+ * trimLeft/trimRight insets first, then with trim 'auto' any uniform border that is left.
+ * Returns how much came off each side, or null when no trimming was asked for.
+ */
+function trimImage(image, options = {}) {
+  const insets = {
+    top: options.trimTop || 0,
+    bottom: options.trimBottom || 0,
+    left: options.trimLeft || 0,
+    right: options.trimRight || 0,
+  };
+  const isAuto = options.trim === 'auto';
+  if (!isAuto && !Object.values(insets).some(Boolean)) {
+    return null;
+  }
+
+  const { width, height } = image.bitmap;
+  if (insets.top + insets.bottom >= height) {
+    throw insetOverflowError('height', height, ['trimTop', 'trimBottom'], [insets.top, insets.bottom]);
+  }
+  if (insets.left + insets.right >= width) {
+    throw insetOverflowError('width', width, ['trimLeft', 'trimRight'], [insets.left, insets.right]);
+  }
+  if (Object.values(insets).some(Boolean)) {
+    image.crop(insets.left, insets.top, width - insets.left - insets.right, height - insets.top - insets.bottom);
+  }
+
+  const trimmed = { ...insets };
+  if (isAuto) {
+    const borders = findUniformBorders(image.bitmap, options.trimTolerance ?? 0);
+    if (borders.top || borders.bottom || borders.left || borders.right) {
+      image.crop(
+        borders.left,
+        borders.top,
+        image.bitmap.width - borders.left - borders.right,
+        image.bitmap.height - borders.top - borders.bottom
+      );
+    }
+    for (const side of Object.keys(trimmed)) {
+      trimmed[side] += borders[side];
+    }
+  }
+  return trimmed;
+}
+
+/**
+ * Encode a chunk in the requested output format and return the raw bytes.
+ * PNG and JPEG are encoded by Jimp; WebP goes through sharp, which Jimp can't write.
+ */
+async function encodeChunk(chunkImage, outputFormat = 'png', quality = DEFAULT_QUALITY) {
+  if (outputFormat === 'jpeg') {
+    return chunkImage.quality(quality).getBufferAsync(Jimp.MIME_JPEG);
+  }
+
+  if (outputFormat === 'webp') {
+    // Loaded lazily so PNG/JPEG-only deployments never touch the native module
+    const sharp = require('sharp');
+    const { data, width, height } = chunkImage.bitmap;
+    return sharp(data, { raw: { width, height, channels: 4 } })
+      .webp({ quality })
+      .toBuffer();
+  }
+
+  return chunkImage.getBufferAsync(Jimp.MIME_PNG);
+}
+
+/**
+ * Load the source image: decode an upload, or download an image URL (unless its bytes
+ * were already fetched, see options.sourceUrl) and decode it
+ */
+async function loadImage(imageSource, options, emitProgress) {
+  const isUpload = Buffer.isBuffer(imageSource) && !options.sourceUrl;
+  const imageUrl = isUpload ? null : options.sourceUrl || imageSource;
+
+  if (isUpload) {
+    // Uploaded bytes go straight to the decoder, no download needed
+    try {
+      console.log(`[ImageProcessor] Decoding uploaded image (${imageSource.length} bytes)`);
+      emitProgress({ stage: 'decode', bytes: imageSource.length });
+      assertPixelLimit(imageSource);
+      return { image: await Jimp.read(imageSource), isUpload, imageUrl };
+    } catch (error) {
+      console.error(`[ImageProcessor] Upload decoding failed: ${error.message}`);
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ImageDecodeError('The uploaded file is not a supported image.');
+    }
+  }
 
-  let image;
   try {
     // 1. Load the source image using Jimp with proper headers and error handling
     console.log(`[ImageProcessor] Attempting to load image from: ${imageUrl}`);
 
-    // Fetch image buffer with retry strategies
-    let imageBuffer;
+    // Fetch image buffer with retry strategies, unless the caller already has
+    let imageBuffer = Buffer.isBuffer(imageSource) ? imageSource : null;
     try {
-      imageBuffer = await fetchImageBuffer(imageUrl);
+      if (!imageBuffer) {
+        emitProgress({ stage: 'fetch', url: imageUrl });
+        imageBuffer = await fetchImageBuffer(imageUrl);
+      }
     } catch (fetchError) {
       console.error(`[ImageProcessor] Fetch error: ${fetchError.message}`);
       console.error(`[ImageProcessor] Fetch error stack:`, fetchError.stack);
@@ -109,61 +566,261 @@ const splitImageApi = async (imageUrl, targetChunkHeight, resizeWidth) => {
     }
 
     // Load image from buffer using Jimp
-    image = await Jimp.read(imageBuffer);
+    emitProgress({ stage: 'decode', bytes: imageBuffer.length });
+    assertPixelLimit(imageBuffer);
+    return { image: await Jimp.read(imageBuffer), isUpload, imageUrl };
   } catch (error) {
     console.error(`[ImageProcessor] Image loading failed: ${error.message}`);
-    throw new Error(`Failed to load image from URL: ${error.message || 'Unknown error'}`);
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    throw new ImageDecodeError('The URL does not point to a supported image.');
   }
+}
 
-  // 1.5 Optionally resize the image
-  if (resizeWidth && resizeWidth > 0 && image.bitmap.width !== resizeWidth) {
-    await image.resize(resizeWidth, Jimp.AUTO);
+/**
+ * Load, resize and plan a split without cutting anything: resolves with the loaded
+ * (and resized) image, the result summary and the rectangle of every chunk
+ */
+async function prepareSplit(imageSource, targetChunkHeight, resizeWidth, options, emitProgress) {
+  const { image, isUpload, imageUrl } = await loadImage(imageSource, options, emitProgress);
+
+  // 1.25 Optionally trim borders off the source, so they never end up in a chunk
+  const trimmed = trimImage(image, options);
+
+  // 1.5 Optionally resize the image; a page split also shrinks it to the printable width
+  const splitBy = options.splitBy || 'height';
+  const page = splitBy === 'page' ? pageLayout(options) : null;
+  const targetWidth = page && (resizeWidth || image.bitmap.width) > page.printableWidth ? page.printableWidth : resizeWidth;
+  if (targetWidth && targetWidth > 0 && image.bitmap.width !== targetWidth) {
+    // Upscaling can blow past the pixel limit just like a large source can
+    const resizedHeight = Math.round((image.bitmap.height * targetWidth) / image.bitmap.width);
+    if (targetWidth * resizedHeight > MAX_IMAGE_PIXELS) {
+      throw new ImageDimensionsError(
+        `Resizing to ${targetWidth}x${resizedHeight} pixels would exceed the limit of ${MAX_IMAGE_PIXELS} pixels.`
+      );
+    }
+    emitProgress({ stage: 'resize', fromWidth: image.bitmap.width, toWidth: targetWidth });
+    await image.resize(targetWidth, Jimp.AUTO);
   }
   
   const { width, height } = image.bitmap;
 
-  // 2. Prepare splitting logic
+  // 2. Decide where to cut
+  const splitMode = options.splitMode || 'fixed';
+  const outputFormat = options.outputFormat || 'png';
+  const quality = options.quality || DEFAULT_QUALITY;
+  const overlap = options.overlap || 0;
+  // Grid rows are planned exactly like strips, with tileHeight as the target height.
+  // Page chunks include their overlap, so every one still fits the printable height.
+  const rowTarget = splitBy === 'grid' ? options.tileHeight : page ? page.printableHeight - overlap : targetChunkHeight;
+  const explicitBoundaries = options.cuts ? cutBoundaries(options.cuts, height) : null;
+  if (splitBy === 'grid') {
+    assertGridTileCount(width, height, options, explicitBoundaries);
+  }
+  const computedCount = explicitBoundaries ? null : resolveChunkCount(width, height, options);
+  if (!explicitBoundaries && splitBy !== 'grid') {
+    assertChunkCount(width, height, splitBy, computedCount, rowTarget);
+  }
+  // Explicit cuts make chunks of any height, so there is no single chunk height to report
+  const chunkHeight = explicitBoundaries ? null : computedCount ? Math.ceil(height / computedCount) : rowTarget;
+  const boundaries = explicitBoundaries || planCuts(image.bitmap, rowTarget, options);
+  const columnBoundaries = planColumns(width, options);
+
+  // Row by row and then column by column, each chunk repeating `overlap` pixels of its neighbours
+  const rects = [];
+  for (let row = 0; row < boundaries.length - 1; row++) {
+    const y = overlappedStart(boundaries, row, overlap);
+    for (let column = 0; column < columnBoundaries.length - 1; column++) {
+      const x = overlappedStart(columnBoundaries, column, overlap);
+      rects.push({
+        width: columnBoundaries[column + 1] - x,
+        height: boundaries[row + 1] - y,
+        xOffset: x,
+        yOffset: y,
+        nominalXOffset: columnBoundaries[column],
+        nominalYOffset: boundaries[row],
+        row,
+        column,
+      });
+    }
+  }
+
+  // Everything about the split except the chunks themselves is known at this point
+  const summary = {
+    originalUrl: imageUrl,
+    originalFileName: isUpload ? options.fileName || null : null,
+    trimmed,
+    totalWidth: width,
+    totalHeight: height,
+    chunkHeight,
+    splitBy,
+    aspectRatio: splitBy === 'aspectRatio' ? options.aspectRatio : null,
+    paperSize: page ? page.paperSize : null,
+    dpi: page ? page.dpi : null,
+    pageMargin: page ? page.pageMargin : null,
+    cuts: explicitBoundaries ? explicitBoundaries.slice(1, -1) : null,
+    rows: boundaries.length - 1,
+    columns: columnBoundaries.length - 1,
+    resizeWidth: targetWidth || null,
+    splitMode,
+    smartTolerance: splitMode === 'smart' ? options.smartTolerance ?? 0 : null,
+    outputFormat,
+    quality: outputFormat === 'png' ? null : quality,
+    overlap,
+  };
+  return { image, summary, rects };
+}
+
+/**
+ * The main backend logic run in Node.js.
+ * Splits the source image into chunks of specific height and returns them as base64 data URIs.
+ * The chunk height can also be derived from a chunk count or an aspect ratio (see splitBy).
+ * The source is either an image URL to download or a Buffer holding an uploaded image.
+ * Options:
+ * - splitBy: 'height' (default) uses targetChunkHeight, 'count' splits into `count` equal
+ *   parts, 'aspectRatio' picks the chunk count whose slides come closest to `aspectRatio` (width / height),
+ *   'grid' tiles the image by tileWidth/tileHeight or into rows x columns, 'page' cuts chunks that
+ *   fill the printable area of a paperSize sheet at `dpi` with `pageMargin` millimetres around it
+ *   (images wider than the printable area are scaled down to fit it)
+ * - splitMode: 'fixed' (default) cuts at exact multiples, 'smart' avoids cutting through detail
+ * - smartTolerance: how many pixels a smart cut may move away from its target position
+ * - cuts: explicit cut positions (from the top of the trimmed and resized image) that replace the planned
+ *   rows of any splitBy; smart mode doesn't move them and cuts outside the image are ignored
+ * - trim: 'none' (default) or 'auto', which crops uniform borders off every side of the source
+ *   before it is resized; a pixel belongs to a border within `trimTolerance` of its colour per channel
+ * - trimTop, trimBottom, trimLeft, trimRight: pixels cropped off the source before anything
+ *   else (auto trimming included); the result reports everything trimmed in `trimmed`
+ * - fileName: original name of an uploaded image, reported back in the result
+ * - outputFormat: 'png' (default), 'jpeg' or 'webp'
+ * - quality: 1-100, used by the lossy formats (default 85)
+ * - overlap: pixels of the previous chunk repeated at the top of each following chunk
+ *   (and at the left of each following column in grid mode)
+ * - chunkEncoding: 'base64' (default) returns data URIs, 'buffer' returns raw Buffers in `chunk.buffer`
+ * - sourceUrl: the URL a Buffer source was already downloaded from (e.g. to hash it for the
+ *   result cache); the image is then treated as that URL's rather than as an upload
+ */
+const splitImageApi = async (imageSource, targetChunkHeight, resizeWidth, options = {}) => {
+  const startTime = Date.now();
+  // Progress events for streaming callers: fetch, decode, resize, plan and one per chunk
+  const emitProgress = options.onProgress || (() => {});
+
+  const { image, summary, rects } = await prepareSplit(imageSource, targetChunkHeight, resizeWidth, options, emitProgress);
+  const { outputFormat, quality } = summary;
+  const mimeType = OUTPUT_FORMATS[outputFormat];
+  const total = rects.length;
   const chunks = [];
-  let currentY = 0;
-  let chunkId = 0;
+  emitProgress({ stage: 'plan', total, result: summary });
 
-  // 3. Iterate and slice the image
-  while (currentY < height) {
-    // Calculate the actual height of this chunk (the last one might be shorter)
-    const actualChunkHeight = Math.min(targetChunkHeight, height - currentY);
-    
+  // 3. Slice the image chunk by chunk
+  for (const rect of rects) {
     // Create a new image for the chunk by cloning and cropping
-    const chunkImage = image.clone().crop(
-      0, currentY, width, actualChunkHeight
-    );
-
-    // 4. Convert the chunk to a base64 data URI
-    const base64Data = await chunkImage.getBase64Async(Jimp.MIME_PNG);
+    const chunkImage = image.clone().crop(rect.xOffset, rect.yOffset, rect.width, rect.height);
 
-    chunks.push({
-      id: chunkId,
-      base64: base64Data,
-      height: actualChunkHeight,
-      yOffset: currentY,
-    });
+    // 4. Encode the chunk and convert it to a base64 data URI
+    // (binary response modes keep the raw bytes instead)
+    const chunkBuffer = await encodeChunk(chunkImage, outputFormat, quality);
+    const encoded = options.chunkEncoding === 'buffer'
+      ? { buffer: chunkBuffer }
+      : { base64: `data:${mimeType};base64,${chunkBuffer.toString('base64')}` };
 
-    currentY += actualChunkHeight;
-    chunkId++;
+    const chunk = {
+      id: chunks.length,
+      ...encoded,
+      mimeType,
+      ...rect,
+    };
+    chunks.push(chunk);
+    emitProgress({ stage: 'chunk', completed: chunks.length, total, chunk });
   }
 
   const endTime = Date.now();
 
   // 5. Return a structured result object
   return {
-    originalUrl: imageUrl,
-    totalWidth: width,
-    totalHeight: height,
-    chunkHeight: targetChunkHeight,
-    resizeWidth: resizeWidth || null,
+    ...summary,
     chunkCount: chunks.length,
     chunks,
     processingTimeMs: endTime - startTime,
   };
 };
 
-module.exports = { splitImageApi };
\ No newline at end of file
+// Pixels of the full-resolution strip encoded to estimate chunk sizes
+const SIZE_SAMPLE_PIXELS = 256 * 256;
+
+// Width of the preview returned by a plan
+const PLAN_PREVIEW_WIDTH = 240;
+
+/**
+ * Bytes per pixel of the image in an output format, measured on a strip across the
+ * middle of it at full resolution. Downscaling would make the image look busier than
+ * it is and overestimate every chunk.
+ */
+async function sampleBytesPerPixel(image, outputFormat, quality) {
+  const { width, height } = image.bitmap;
+  const rows = Math.min(height, Math.max(1, Math.ceil(SIZE_SAMPLE_PIXELS / width)));
+  const sample = image.clone().crop(0, Math.floor((height - rows) / 2), width, rows);
+  const bytes = await encodeChunk(sample, outputFormat, quality);
+  return bytes.length / (width * rows);
+}
+
+/**
+ * Dry run of splitImageApi: loads, resizes and plans the split exactly like it, but
+ * stops before cutting. Resolves with the result summary, every chunk's rectangle and
+ * estimated encoded size, and a small JPEG preview of the (resized) image.
+ * Estimates are the pixel count of a chunk times the bytes per pixel of a sample strip,
+ * so they are only as close as the sample is typical of the image.
+ */
+const planImageApi = async (imageSource, targetChunkHeight, resizeWidth, options = {}) => {
+  const startTime = Date.now();
+  const { image, summary, rects } = await prepareSplit(imageSource, targetChunkHeight, resizeWidth, options, () => {});
+  const mimeType = OUTPUT_FORMATS[summary.outputFormat];
+
+  const bytesPerPixel = await sampleBytesPerPixel(image, summary.outputFormat, summary.quality || DEFAULT_QUALITY);
+  const chunks = rects.map((rect, id) => ({
+    id,
+    mimeType,
+    ...rect,
+    estimatedBytes: Math.round(rect.width * rect.height * bytesPerPixel),
+  }));
+
+  const previewWidth = Math.min(PLAN_PREVIEW_WIDTH, image.bitmap.width);
+  const preview = image.clone().resize(previewWidth, Jimp.AUTO);
+  const previewBuffer = await encodeChunk(preview, 'jpeg', 70);
+
+  return {
+    ...summary,
+    chunkCount: chunks.length,
+    chunks,
+    estimatedTotalBytes: chunks.reduce((sum, chunk) => sum + chunk.estimatedBytes, 0),
+    preview: {
+      base64: `data:image/jpeg;base64,${previewBuffer.toString('base64')}`,
+      mimeType: 'image/jpeg',
+      width: preview.bitmap.width,
+      height: preview.bitmap.height,
+    },
+    processingTimeMs: Date.now() - startTime,
+  };
+};
+
+module.exports = {
+  splitImageApi,
+  planImageApi,
+  fetchImageBuffer,
+  OUTPUT_FORMATS,
+  // Exported for testing
+  __internal: {
+    readLimitedBody,
+    assertPixelLimit,
+    rowDetail,
+    findSmartCut,
+    resolveChunkCount,
+    planCuts,
+    cutBoundaries,
+    findUniformBorders,
+    trimImage,
+    planColumns,
+    encodeChunk,
+    sampleBytesPerPixel,
+  },
+};
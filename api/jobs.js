@@ -0,0 +1,354 @@
+/**
+ * Asynchronous split jobs for SplitStream
+ *
+ * Very tall images can take longer than a single request is allowed to run, so
+ * POST /api/v1/jobs answers straight away with a job id and the split carries on
+ * in the background. Callers poll the job for status and progress and fetch the
+ * result once it has completed.
+ *
+ * Job state lives behind a store with two implementations, chosen the same way
+ * as the rate limiter's:
+ * 1. Redis-backed (Upstash) - shared across serverless invocations
+ * 2. In-memory fallback - for localhost development and tests
+ *
+ * On Vercel the invocation that accepted a job is kept alive with waitUntil until the
+ * job settles, which still can't outlast the function's maxDuration. A job that stops
+ * making progress for JOB_STALL_SECONDS (default: 2 minutes), for instance because its
+ * invocation was ended, is reported as failed instead of staying 'running' forever.
+ *
+ * Jobs and their results expire after JOB_TTL_SECONDS (default: 1 hour). In Redis a result
+ * is stored one chunk per key, each capped at JOB_MAX_REDIS_ENTRY_BYTES (default: 1 MB).
+ * A job created with a callbackUrl POSTs its outcome there when it finishes.
+ * Jobs reuse cached results like /api/v1/process does (see resultCache.js).
+ */
+
+const crypto = require('crypto');
+const { waitUntil } = require('@vercel/functions');
+const { cachedSplit } = require('./resultCache.js');
+const { ApiError, toApiError } = require('./errors.js');
+const { deliverWebhook, assertWebhooksConfigured } = require('./webhooks.js');
+
+const JOB_TTL_SECONDS = parseInt(process.env.JOB_TTL_SECONDS, 10) || 60 * 60;
+
+// A queued or running job without an update for this long is considered dead
+const JOB_STALL_SECONDS = parseInt(process.env.JOB_STALL_SECONDS, 10) || 2 * 60;
+
+// Largest value written to Redis at once (default 1 MB, Upstash's request size limit on its free plan)
+const JOB_MAX_REDIS_ENTRY_BYTES = parseInt(process.env.JOB_MAX_REDIS_ENTRY_BYTES, 10) || 1024 * 1024;
+
+const FINAL_STATUSES = ['completed', 'failed'];
+
+// Progress is written at most this often while chunks are being encoded
+const PROGRESS_WRITE_INTERVAL_MS = 500;
+
+// Share of the progress percentage reached by each stage before chunks are encoded
+const STAGE_PERCENT = {
+  queued: 0,
+  fetch: 5,
+  decode: 10,
+  resize: 15,
+  plan: 20,
+};
+
+/**
+ * In-memory job store, entries are dropped lazily once they expire
+ */
+function createMemoryJobStore(ttlSeconds = JOB_TTL_SECONDS) {
+  const entries = new Map();
+
+  const read = (key) => {
+    const entry = entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt < Date.now()) {
+      entries.delete(key);
+      return null;
+    }
+    return entry.value;
+  };
+
+  const write = (key, value) => {
+    entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+  };
+
+  return {
+    mode: 'in-memory',
+    async getJob(id) {
+      return read(`job:${id}`);
+    },
+    async saveJob(job) {
+      // Copy so later changes to the caller's object are only seen once saved
+      write(`job:${job.id}`, { ...job });
+    },
+    async getResult(id) {
+      return read(`job:${id}:result`);
+    },
+    async saveResult(id, result) {
+      write(`job:${id}:result`, result);
+    },
+    clear() {
+      entries.clear();
+    },
+  };
+}
+
+/**
+ * Redis job store; every write refreshes the TTL. A result is split into its summary and one
+ * key per chunk, since a whole result for a tall image is over Redis's request size limit.
+ */
+function createRedisJobStore(client, ttlSeconds = JOB_TTL_SECONDS, maxEntryBytes = JOB_MAX_REDIS_ENTRY_BYTES) {
+  // Upstash deserializes JSON on read, other clients hand back the raw string
+  const parse = (value) => (typeof value === 'string' ? JSON.parse(value) : value || null);
+
+  return {
+    mode: 'redis',
+    async getJob(id) {
+      return parse(await client.get(`job:${id}`));
+    },
+    async saveJob(job) {
+      await client.set(`job:${job.id}`, JSON.stringify(job), { ex: ttlSeconds });
+    },
+    async getResult(id) {
+      const stored = parse(await client.get(`job:${id}:result`));
+      if (!stored) {
+        return null;
+      }
+      const { storedChunks, ...result } = stored;
+      if (storedChunks === undefined) {
+        return result;
+      }
+      const chunks = await Promise.all(
+        Array.from({ length: storedChunks }, async (_, index) => parse(await client.get(`job:${id}:result:${index}`)))
+      );
+      // A chunk that expired first leaves the result incomplete
+      return chunks.includes(null) ? null : { ...result, chunks };
+    },
+    async saveResult(id, result) {
+      const { chunks, ...summary } = result;
+      const entries = (chunks || []).map((chunk, index) => [`job:${id}:result:${index}`, JSON.stringify(chunk)]);
+      const oversized = entries.find(([, json]) => Buffer.byteLength(json) > maxEntryBytes);
+      if (oversized) {
+        throw new ApiError(
+          `The result has a chunk of ${Buffer.byteLength(oversized[1])} bytes, more than the ${maxEntryBytes} the job store can hold. Use smaller chunks or split with /api/v1/process instead.`,
+          { code: 'JOB_RESULT_TOO_LARGE', statusCode: 413, details: { maxEntryBytes } }
+        );
+      }
+      await Promise.all(entries.map(([key, json]) => client.set(key, json, { ex: ttlSeconds })));
+      // The summary goes last, so a result is only found once all of its chunks are stored
+      const stored = chunks ? { ...summary, storedChunks: entries.length } : summary;
+      await client.set(`job:${id}:result`, JSON.stringify(stored), { ex: ttlSeconds });
+    },
+  };
+}
+
+let jobStore = null;
+
+/**
+ * The job store for this process: Redis when configured and reachable, in-memory otherwise
+ */
+async function getJobStore() {
+  if (jobStore) {
+    return jobStore;
+  }
+
+  if (process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN) {
+    try {
+      const { Redis } = await import('@upstash/redis');
+      const client = new Redis({
+        url: process.env.UPSTASH_REDIS_REST_URL,
+        token: process.env.UPSTASH_REDIS_REST_TOKEN,
+      });
+      await client.ping();
+      jobStore = createRedisJobStore(client);
+      console.log('[Jobs] Using Upstash Redis for job state');
+      return jobStore;
+    } catch (error) {
+      console.warn('[Jobs] Failed to connect to Redis, falling back to in-memory:', error.message);
+    }
+  }
+
+  jobStore = createMemoryJobStore();
+  return jobStore;
+}
+
+/**
+ * Replace the job store (used by tests)
+ */
+function setJobStore(store) {
+  jobStore = store;
+}
+
+/**
+ * Progress percentage for a splitImageApi progress event
+ */
+function progressPercent(event) {
+  if (event.stage === 'chunk') {
+    return Math.round(STAGE_PERCENT.plan + ((100 - STAGE_PERCENT.plan) * event.completed) / event.total);
+  }
+  return STAGE_PERCENT[event.stage] ?? 0;
+}
+
+/**
+ * The job as returned to callers
+ */
+function publicJob(job) {
+  return {
+    id: job.id,
+    status: job.status,
+    progress: job.progress,
+    error: job.error,
+    callback: job.callback,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    expiresAt: new Date(Date.parse(job.updatedAt) + JOB_TTL_SECONDS * 1000).toISOString(),
+  };
+}
+
+/**
+ * POST the job's outcome to its callback URL and record how delivery went
+ */
+async function notifyCallback(job, payload, update) {
+  const { delivered, attempts, status } = await deliverWebhook(job.callback.url, payload);
+  await update({
+    callback: { ...job.callback, status: delivered ? 'delivered' : 'failed', attempts, lastResponseStatus: status },
+  });
+}
+
+/**
+ * Run a split for a job, recording progress and the outcome in the store
+ */
+async function runJob(store, job, { source, height, width, options, noCache }) {
+  // Writes are chained so they land in the order they were made; progress that was
+  // still queued when the job finished is dropped rather than undoing the final status
+  let writes = Promise.resolve();
+  const update = (changes, { isProgress = false } = {}) => {
+    const write = writes.then(async () => {
+      if (isProgress && FINAL_STATUSES.includes(job.status)) {
+        return;
+      }
+      Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+      await store.saveJob(job);
+    });
+    writes = write.catch(() => {});
+    return write;
+  };
+
+  let lastWrite = 0;
+  let lastStage = null;
+  const onProgress = (event) => {
+    const now = Date.now();
+    const isLastChunk = event.stage === 'chunk' && event.completed === event.total;
+    // Stage changes are always recorded, chunk progress is throttled
+    if (event.stage === lastStage && !isLastChunk && now - lastWrite < PROGRESS_WRITE_INTERVAL_MS) {
+      return;
+    }
+    lastStage = event.stage;
+    lastWrite = now;
+    update({
+      progress: {
+        stage: event.stage,
+        completed: event.completed ?? 0,
+        total: event.total ?? job.progress.total,
+        percent: progressPercent(event),
+      },
+    }, { isProgress: true }).catch((error) => console.error(`[Jobs] Failed to record progress for ${job.id}:`, error.message));
+  };
+
+  try {
+    await update({ status: 'running' });
+    const split = await cachedSplit(source, height, width, options, { noCache });
+    const result = await split.run({ onProgress });
+    await store.saveResult(job.id, result);
+    await update({
+      status: 'completed',
+      progress: { stage: 'done', completed: result.chunkCount, total: result.chunkCount, percent: 100 },
+    });
+    if (job.callback) {
+      await notifyCallback(job, { jobId: job.id, status: 'completed', result }, update);
+    }
+  } catch (error) {
+    console.error(`[Jobs] Job ${job.id} failed:`, error.message);
+    // The same structured error the process endpoint would have answered with
+    const apiError = toApiError(error).toJSON();
+    try {
+      await update({ status: 'failed', error: apiError });
+      if (job.callback) {
+        await notifyCallback(job, { jobId: job.id, status: 'failed', error: apiError }, update);
+      }
+    } catch (storeError) {
+      console.error(`[Jobs] Failed to record failure for ${job.id}:`, storeError.message);
+    }
+  }
+}
+
+/**
+ * Read a job, failing it first when it has stopped making progress (see JOB_STALL_SECONDS)
+ */
+async function readJob(store, id) {
+  const job = await store.getJob(id);
+  if (!job || FINAL_STATUSES.includes(job.status) || Date.now() - Date.parse(job.updatedAt) < JOB_STALL_SECONDS * 1000) {
+    return job;
+  }
+
+  const interrupted = {
+    ...job,
+    status: 'failed',
+    error: {
+      code: 'JOB_INTERRUPTED',
+      message: 'The job stopped before it finished, probably because the server ended it. Please start it again.',
+      field: null,
+      details: { stage: job.progress.stage },
+    },
+    updatedAt: new Date().toISOString(),
+  };
+  await store.saveJob(interrupted);
+  return interrupted;
+}
+
+/**
+ * Create a job for a validated split request and start it in the background.
+ * Resolves with the queued job and the promise that settles when it finishes.
+ */
+async function startJob(request) {
+  if (request.callbackUrl) {
+    assertWebhooksConfigured();
+  }
+  const store = await getJobStore();
+  const now = new Date().toISOString();
+  const job = {
+    id: crypto.randomUUID(),
+    status: 'queued',
+    progress: { stage: 'queued', completed: 0, total: null, percent: 0 },
+    error: null,
+    callback: request.callbackUrl ? { url: request.callbackUrl, status: 'pending', attempts: 0 } : undefined,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await store.saveJob(job);
+  // Snapshot before the run starts changing the job
+  const queued = publicJob(job);
+  const finished = runJob(store, job, request);
+  // Serverless platforms would otherwise freeze the invocation once the 202 is sent
+  waitUntil(finished);
+  return { job: queued, finished };
+}
+
+module.exports = {
+  JOB_TTL_SECONDS,
+  JOB_STALL_SECONDS,
+  JOB_MAX_REDIS_ENTRY_BYTES,
+  startJob,
+  readJob,
+  getJobStore,
+  setJobStore,
+  publicJob,
+  createMemoryJobStore,
+  createRedisJobStore,
+  // Exported for testing
+  __internal: {
+    progressPercent,
+    runJob,
+  },
+};
@@ -0,0 +1,47 @@
+/**
+ * Resource limits for image processing.
+ *
+ * Compressed images can be tiny on the wire and enormous once decoded (a 20 kB PNG
+ * can claim 50000x50000 pixels), so bytes and pixels are both capped. All limits
+ * are configurable via env and reported by /api/health.
+ */
+
+// Maximum accepted upload size (default 10 MB)
+const MAX_UPLOAD_BYTES = parseInt(process.env.MAX_UPLOAD_BYTES, 10) || 10 * 1024 * 1024;
+
+// Maximum size of an image downloaded from a URL (default 20 MB)
+const MAX_DOWNLOAD_BYTES = parseInt(process.env.MAX_DOWNLOAD_BYTES, 10) || 20 * 1024 * 1024;
+
+// Maximum width x height of an image, checked before decoding and after resizing (default 50 megapixels)
+const MAX_IMAGE_PIXELS = parseInt(process.env.MAX_IMAGE_PIXELS, 10) || 50 * 1000 * 1000;
+
+// Maximum number of images in one batch request (default 50)
+const MAX_BATCH_ITEMS = parseInt(process.env.MAX_BATCH_ITEMS, 10) || 50;
+
+/**
+ * Human-readable byte size for limit messages
+ */
+function formatLimit(bytes) {
+  return bytes >= 1024 * 1024 ? `${Math.floor(bytes / (1024 * 1024))} MB` : `${Math.floor(bytes / 1024)} KB`;
+}
+
+/**
+ * The limits as reported to clients
+ */
+function describeLimits() {
+  return {
+    maxUploadBytes: MAX_UPLOAD_BYTES,
+    maxDownloadBytes: MAX_DOWNLOAD_BYTES,
+    maxImagePixels: MAX_IMAGE_PIXELS,
+    maxBatchItems: MAX_BATCH_ITEMS,
+  };
+}
+
+module.exports = {
+  MAX_UPLOAD_BYTES,
+  MAX_DOWNLOAD_BYTES,
+  MAX_IMAGE_PIXELS,
+  MAX_BATCH_ITEMS,
+  formatLimit,
+  describeLimits,
+};
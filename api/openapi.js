@@ -0,0 +1,702 @@
+/**
+ * OpenAPI 3 description of the HTTP API, served at /api/openapi.json.
+ *
+ * The process request body is generated from PROCESS_REQUEST_SCHEMA, so the parameters
+ * documented here are the ones the routes validate. The API docs modal in the web UI
+ * renders this document, and tests/integration/openapi.test.ts checks real responses
+ * against it.
+ */
+
+const { version } = require('../package.json');
+const { PROCESS_REQUEST_SCHEMA } = require('./validation.js');
+const { RESPONSE_FORMATS } = require('./responseFormats.js');
+const { BATCH_RESPONSE_FORMATS } = require('./batch.js');
+const { MAX_BATCH_ITEMS } = require('./limits.js');
+
+const ref = (name) => ({ $ref: `#/components/schemas/${name}` });
+const nullable = (schema) => ({ ...schema, nullable: true });
+
+/**
+ * JSON schema of one process request parameter
+ */
+function fieldSchema(spec) {
+  const schema = { description: spec.description };
+  switch (spec.type) {
+    case 'url':
+      Object.assign(schema, { type: 'string', format: 'uri' });
+      break;
+    case 'integer':
+      Object.assign(schema, { type: 'integer', minimum: spec.min });
+      if (spec.max !== undefined) {
+        schema.maximum = spec.max;
+      }
+      break;
+    case 'enum':
+      Object.assign(schema, { type: 'string', enum: spec.values });
+      break;
+    case 'aspectRatio':
+      Object.assign(schema, { type: 'string', example: '4:5' });
+      break;
+    case 'cuts':
+      Object.assign(schema, { type: 'array', items: { type: 'integer', minimum: spec.min }, maxItems: spec.maxItems, example: [800, 1600] });
+      break;
+    case 'boolean':
+      schema.type = 'boolean';
+      break;
+  }
+  if (spec.default !== undefined) {
+    schema.default = spec.default;
+  }
+  return schema;
+}
+
+/**
+ * The process request body. Parameters that are only required in some cases (chunkHeight
+ * for splitBy height, url without an upload) are listed as required for a plain JSON request.
+ */
+function processRequestSchema() {
+  const properties = {};
+  const required = [];
+  for (const [name, spec] of Object.entries(PROCESS_REQUEST_SCHEMA)) {
+    properties[name] = fieldSchema(spec);
+    if (spec.requiredWhen && spec.requiredWhen({}, { upload: false })) {
+      required.push(name);
+    }
+  }
+  properties.responseFormat = {
+    type: 'string',
+    enum: RESPONSE_FORMATS,
+    default: 'json',
+    description: 'Shape of the response; the Accept header is used when this is absent',
+  };
+  return { type: 'object', required, properties };
+}
+
+// Every error response, with the codes it can carry
+const ERROR_RESPONSES = {
+  BadRequest: {
+    description: 'The request is invalid',
+    codes: ['MISSING_PARAMETER', 'INVALID_PARAMETER', 'INVALID_JSON', 'INVALID_UPLOAD', 'URL_BLOCKED', 'IMAGE_DECODE_FAILED'],
+  },
+  Unauthorized: { description: 'The API_KEY header is missing, unknown or revoked', codes: ['UNAUTHORIZED'] },
+  NotFound: { description: 'The job or its result does not exist or has expired', codes: ['JOB_NOT_FOUND', 'JOB_RESULT_NOT_FOUND', 'NOT_FOUND'] },
+  Conflict: { description: 'The job has not completed; details.status is its state', codes: ['JOB_NOT_COMPLETED'] },
+  PayloadTooLarge: { description: 'The image or request body is over the size limit', codes: ['IMAGE_TOO_LARGE', 'PAYLOAD_TOO_LARGE', 'JOB_RESULT_TOO_LARGE'] },
+  ImageDimensionsExceeded: { description: 'The image has more pixels than the server allows', codes: ['IMAGE_DIMENSIONS_EXCEEDED'] },
+  RateLimited: { description: 'The quota is used up, or the IP sent too many wrong API keys; details.retryAfter is in seconds', codes: ['RATE_LIMITED'] },
+  InternalError: { description: 'Unexpected server error', codes: ['INTERNAL_ERROR', 'JOB_INTERRUPTED'] },
+  FetchFailed: { description: 'The image URL could not be downloaded; details.status or details.reason says why', codes: ['FETCH_FAILED'] },
+  FetchTimeout: { description: 'The image URL did not answer in time', codes: ['FETCH_TIMEOUT'] },
+};
+
+const ERROR_CODES = [...new Set(Object.values(ERROR_RESPONSES).flatMap((response) => response.codes))];
+
+const RATE_LIMIT_HEADERS = {
+  'X-RateLimit-Limit': { $ref: '#/components/headers/X-RateLimit-Limit' },
+  'X-RateLimit-Remaining': { $ref: '#/components/headers/X-RateLimit-Remaining' },
+  'X-RateLimit-Reset': { $ref: '#/components/headers/X-RateLimit-Reset' },
+};
+
+const response = (name) => ({ $ref: `#/components/responses/${name}` });
+
+/**
+ * Error responses of an operation, keyed by status
+ */
+function errorResponses(...names) {
+  const statuses = {
+    BadRequest: '400',
+    Unauthorized: '401',
+    NotFound: '404',
+    Conflict: '409',
+    PayloadTooLarge: '413',
+    ImageDimensionsExceeded: '422',
+    RateLimited: '429',
+    InternalError: '500',
+    FetchFailed: '502',
+    FetchTimeout: '504',
+  };
+  return Object.fromEntries(names.map((name) => [statuses[name], response(name)]));
+}
+
+/**
+ * Request bodies accepted by the process routes: JSON, multipart form data or a raw image
+ */
+function processRequestBody() {
+  return {
+    required: true,
+    content: {
+      'application/json': {
+        schema: ref('ProcessRequest'),
+        example: { url: 'https://example.com/large-image.jpg', chunkHeight: 1200, resizeWidth: 1280 },
+      },
+      'multipart/form-data': {
+        schema: {
+          allOf: [
+            ref('ProcessRequest'),
+            {
+              type: 'object',
+              properties: { file: { type: 'string', format: 'binary', description: 'The image to split, instead of url' } },
+            },
+          ],
+        },
+      },
+      'image/*': {
+        schema: { type: 'string', format: 'binary', description: 'The image itself, with the parameters in the query string' },
+      },
+    },
+  };
+}
+
+/**
+ * Successful split responses in every response format
+ */
+function processResultResponse() {
+  return {
+    description: 'The chunks, in the format asked for by responseFormat or the Accept header',
+    headers: {
+      ...RATE_LIMIT_HEADERS,
+      'X-Cache': { $ref: '#/components/headers/X-Cache' },
+    },
+    content: {
+      'application/json': { schema: ref('ProcessResult') },
+      'application/zip': { schema: { type: 'string', format: 'binary', description: 'Every chunk plus manifest.json' } },
+      'multipart/mixed': { schema: { type: 'string', format: 'binary', description: 'A JSON metadata part, then one image part per chunk' } },
+      'application/pdf': { schema: { type: 'string', format: 'binary', description: 'One page per chunk, on paperSize sheets for splitBy page' } },
+      'application/x-ndjson': {
+        schema: { type: 'string', description: 'One ProgressEvent per line, ending with a done or error event' },
+      },
+    },
+  };
+}
+
+/**
+ * The batch request body: the images to split, each with optional parameters of its own
+ */
+function batchRequestSchema() {
+  const { properties } = processRequestSchema();
+  const { url, callbackUrl, ...shared } = properties;
+  return {
+    type: 'object',
+    required: ['items'],
+    description: 'Parameters next to items apply to every item that does not set its own',
+    properties: {
+      items: {
+        type: 'array',
+        minItems: 1,
+        maxItems: MAX_BATCH_ITEMS,
+        items: {
+          oneOf: [
+            { type: 'string', format: 'uri', description: 'An image URL, split with the shared parameters' },
+            { type: 'object', required: ['url'], properties: { url, ...shared } },
+          ],
+        },
+      },
+      ...shared,
+      responseFormat: {
+        type: 'string',
+        enum: BATCH_RESPONSE_FORMATS,
+        default: 'json',
+        description: 'All results in one JSON body, or one NDJSON line per item as it finishes',
+      },
+    },
+  };
+}
+
+const batchRequestBody = {
+  required: true,
+  content: {
+    'application/json': {
+      schema: ref('BatchRequest'),
+      example: {
+        chunkHeight: 1200,
+        items: ['https://example.com/article-1.png', { url: 'https://example.com/article-2.png', chunkHeight: 800 }],
+      },
+    },
+  },
+};
+
+const batchResultResponse = {
+  description: 'The outcome of every item; failed items carry an error instead of a result',
+  headers: RATE_LIMIT_HEADERS,
+  content: {
+    'application/json': { schema: ref('BatchResult') },
+    'application/x-ndjson': {
+      schema: { type: 'string', description: 'One BatchEvent per line, ending with a done or error event' },
+    },
+  },
+};
+
+const planResultResponse = {
+  description: 'Where the image would be cut',
+  headers: RATE_LIMIT_HEADERS,
+  content: { 'application/json': { schema: ref('PlanResult') } },
+};
+
+const jobAccepted = {
+  description: 'The job was queued; follow it at statusUrl',
+  headers: {
+    ...RATE_LIMIT_HEADERS,
+    Location: { description: 'URL of the job', schema: { type: 'string' } },
+  },
+  content: { 'application/json': { schema: ref('AcceptedJob') } },
+};
+
+const jobIdParameter = { name: 'id', in: 'path', required: true, schema: { type: 'string' } };
+
+const processErrors = () =>
+  errorResponses('BadRequest', 'PayloadTooLarge', 'ImageDimensionsExceeded', 'RateLimited', 'InternalError', 'FetchFailed', 'FetchTimeout');
+
+function buildPaths() {
+  return {
+    '/api/health': {
+      get: {
+        operationId: 'getHealth',
+        summary: 'Health check',
+        description: 'Whether the server is up, and the image size limits it enforces. Has its own rate limit.',
+        tags: ['Service'],
+        responses: {
+          200: { description: 'The server is up', headers: RATE_LIMIT_HEADERS, content: { 'application/json': { schema: ref('Health') } } },
+          ...errorResponses('RateLimited'),
+        },
+      },
+    },
+    '/api/ui/process': {
+      post: {
+        operationId: 'processImageFromUi',
+        summary: 'Split an image (web UI)',
+        description: 'Used by the web UI. Takes the same parameters as /api/v1/process without an API key, limited per IP, except callbackUrl: it never creates a job.',
+        tags: ['Processing'],
+        requestBody: processRequestBody(),
+        responses: { 200: processResultResponse(), ...processErrors() },
+      },
+    },
+    '/api/v1/process': {
+      post: {
+        operationId: 'processImage',
+        summary: 'Split an image',
+        description: 'Splits the image at url (or the uploaded file) into chunks. With callbackUrl it answers 202 with a job and POSTs the outcome there.',
+        tags: ['Processing'],
+        security: [{ ApiKey: [] }],
+        requestBody: processRequestBody(),
+        responses: { 200: processResultResponse(), 202: jobAccepted, ...errorResponses('Unauthorized'), ...processErrors() },
+      },
+    },
+    '/api/v1/plan': {
+      post: {
+        operationId: 'planImage',
+        summary: 'Plan a split without encoding it',
+        description:
+          'Takes the same parameters as /api/v1/process and answers with the chunk boundaries, estimated sizes and a preview ' +
+          'instead of the chunks. Always JSON; counts against its own, more generous limit.',
+        tags: ['Processing'],
+        security: [{ ApiKey: [] }],
+        requestBody: processRequestBody(),
+        responses: { 200: planResultResponse, ...errorResponses('Unauthorized'), ...processErrors() },
+      },
+    },
+    '/api/ui/batch': {
+      post: {
+        operationId: 'processBatchFromUi',
+        summary: 'Split many images (web UI)',
+        description: 'Used by the web UI. Takes the same body as /api/v1/batch without an API key, limited per IP.',
+        tags: ['Processing'],
+        requestBody: batchRequestBody,
+        responses: { 200: batchResultResponse, ...errorResponses('BadRequest', 'PayloadTooLarge', 'RateLimited', 'InternalError') },
+      },
+    },
+    '/api/v1/batch': {
+      post: {
+        operationId: 'processBatch',
+        summary: 'Split many images',
+        description: `Splits up to ${MAX_BATCH_ITEMS} image URLs, a few at a time, and counts as one request per item. An item that can't be split fails on its own.`,
+        tags: ['Processing'],
+        security: [{ ApiKey: [] }],
+        requestBody: batchRequestBody,
+        responses: {
+          200: batchResultResponse,
+          ...errorResponses('BadRequest', 'Unauthorized', 'PayloadTooLarge', 'RateLimited', 'InternalError'),
+        },
+      },
+    },
+    '/api/v1/jobs': {
+      post: {
+        operationId: 'createJob',
+        summary: 'Split an image in the background',
+        description: 'Takes the same parameters as /api/v1/process and answers straight away with a job to poll.',
+        tags: ['Jobs'],
+        security: [{ ApiKey: [] }],
+        requestBody: processRequestBody(),
+        responses: {
+          202: jobAccepted,
+          ...errorResponses('BadRequest', 'Unauthorized', 'PayloadTooLarge', 'RateLimited', 'InternalError'),
+        },
+      },
+    },
+    '/api/v1/jobs/{id}': {
+      get: {
+        operationId: 'getJob',
+        summary: 'Job status and progress',
+        tags: ['Jobs'],
+        security: [{ ApiKey: [] }],
+        parameters: [jobIdParameter],
+        responses: {
+          200: { description: 'The job', content: { 'application/json': { schema: ref('Job') } } },
+          ...errorResponses('Unauthorized', 'NotFound', 'RateLimited', 'InternalError'),
+        },
+      },
+    },
+    '/api/v1/jobs/{id}/result': {
+      get: {
+        operationId: 'getJobResult',
+        summary: 'Result of a completed job',
+        description: 'Served as json, zip, multipart or pdf like /api/v1/process; NDJSON is not available.',
+        tags: ['Jobs'],
+        security: [{ ApiKey: [] }],
+        parameters: [
+          jobIdParameter,
+          { name: 'responseFormat', in: 'query', schema: { type: 'string', enum: RESPONSE_FORMATS.filter((format) => format !== 'ndjson') } },
+        ],
+        responses: {
+          200: processResultResponse(),
+          ...errorResponses('BadRequest', 'Unauthorized', 'NotFound', 'Conflict', 'RateLimited', 'InternalError'),
+        },
+      },
+    },
+    '/api/v1/usage': {
+      get: {
+        operationId: 'getUsage',
+        summary: 'Quota of the caller',
+        description: "The API key's quota when one is sent, the IP's otherwise. Reading it does not count as a request.",
+        tags: ['Service'],
+        security: [{}, { ApiKey: [] }],
+        responses: {
+          200: { description: 'The quota', headers: RATE_LIMIT_HEADERS, content: { 'application/json': { schema: ref('Usage') } } },
+          ...errorResponses('Unauthorized', 'RateLimited', 'InternalError'),
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Properties describing a split, shared by its result and its plan
+ */
+function resultSummaryProperties() {
+  return {
+    originalUrl: nullable({ type: 'string', description: 'null for uploads' }),
+    originalFileName: nullable({ type: 'string', description: 'null for URLs' }),
+    trimmed: nullable({
+      type: 'object',
+      required: ['top', 'bottom', 'left', 'right'],
+      description: 'Pixels trimmed off each side of the source before resizing; null without trim options',
+      properties: {
+        top: { type: 'integer' },
+        bottom: { type: 'integer' },
+        left: { type: 'integer' },
+        right: { type: 'integer' },
+      },
+    }),
+    totalWidth: { type: 'integer' },
+    totalHeight: { type: 'integer' },
+    chunkHeight: nullable({ type: 'integer' }),
+    splitBy: { type: 'string', enum: PROCESS_REQUEST_SCHEMA.splitBy.values },
+    aspectRatio: nullable({ type: 'string' }),
+    paperSize: nullable({ type: 'string', enum: PROCESS_REQUEST_SCHEMA.paperSize.values, description: 'Only for splitBy page' }),
+    dpi: nullable({ type: 'integer', description: 'Only for splitBy page' }),
+    pageMargin: nullable({ type: 'integer', description: 'In millimetres, only for splitBy page' }),
+    cuts: nullable({ type: 'array', items: { type: 'integer' }, description: 'The cuts used, when explicit cuts were given' }),
+    rows: { type: 'integer' },
+    columns: { type: 'integer' },
+    resizeWidth: nullable({ type: 'integer' }),
+    splitMode: { type: 'string', enum: PROCESS_REQUEST_SCHEMA.splitMode.values },
+    smartTolerance: nullable({ type: 'integer' }),
+    outputFormat: { type: 'string', enum: PROCESS_REQUEST_SCHEMA.outputFormat.values },
+    quality: nullable({ type: 'integer' }),
+    overlap: { type: 'integer' },
+  };
+}
+
+function buildSchemas() {
+  return {
+    ProcessRequest: processRequestSchema(),
+    Error: {
+      type: 'object',
+      required: ['code', 'message', 'field', 'details'],
+      properties: {
+        code: { type: 'string', enum: ERROR_CODES, description: 'Stable machine-readable code to branch on' },
+        message: { type: 'string', description: 'Safe to show to a person' },
+        field: nullable({ type: 'string', description: 'The request parameter at fault' }),
+        details: nullable({ type: 'object', additionalProperties: true, description: 'Extra machine-readable context' }),
+      },
+    },
+    ErrorResponse: {
+      type: 'object',
+      required: ['error'],
+      properties: { error: ref('Error') },
+    },
+    Chunk: {
+      type: 'object',
+      required: ['id', 'base64', 'mimeType', 'width', 'height', 'xOffset', 'yOffset', 'row', 'column'],
+      properties: {
+        id: { type: 'integer' },
+        base64: { type: 'string', description: 'The chunk as a data URI' },
+        mimeType: { type: 'string' },
+        width: { type: 'integer' },
+        height: { type: 'integer' },
+        xOffset: { type: 'integer', description: 'Where the chunk starts, including overlap' },
+        yOffset: { type: 'integer', description: 'Where the chunk starts, including overlap' },
+        nominalXOffset: { type: 'integer', description: 'Where the chunk would start without overlap' },
+        nominalYOffset: { type: 'integer', description: 'Where the chunk would start without overlap' },
+        row: { type: 'integer' },
+        column: { type: 'integer' },
+      },
+    },
+    ProcessResult: {
+      type: 'object',
+      required: ['totalWidth', 'totalHeight', 'splitBy', 'rows', 'columns', 'outputFormat', 'chunkCount', 'chunks'],
+      properties: {
+        ...resultSummaryProperties(),
+        chunkCount: { type: 'integer' },
+        processingTimeMs: { type: 'integer' },
+        chunks: { type: 'array', items: ref('Chunk') },
+      },
+    },
+    PlanChunk: {
+      type: 'object',
+      required: ['id', 'mimeType', 'width', 'height', 'xOffset', 'yOffset', 'row', 'column', 'estimatedBytes'],
+      description: 'Where a chunk would be cut, without its image',
+      properties: {
+        id: { type: 'integer' },
+        mimeType: { type: 'string' },
+        width: { type: 'integer' },
+        height: { type: 'integer' },
+        xOffset: { type: 'integer', description: 'Where the chunk starts, including overlap' },
+        yOffset: { type: 'integer', description: 'Where the chunk starts, including overlap' },
+        nominalXOffset: { type: 'integer', description: 'Where the chunk would start without overlap' },
+        nominalYOffset: { type: 'integer', description: 'Where the chunk would start without overlap' },
+        row: { type: 'integer' },
+        column: { type: 'integer' },
+        estimatedBytes: { type: 'integer', description: 'Rough size of the encoded chunk' },
+      },
+    },
+    PlanResult: {
+      type: 'object',
+      required: ['totalWidth', 'totalHeight', 'splitBy', 'rows', 'columns', 'outputFormat', 'chunkCount', 'chunks', 'estimatedTotalBytes', 'preview'],
+      properties: {
+        ...resultSummaryProperties(),
+        chunkCount: { type: 'integer' },
+        processingTimeMs: { type: 'integer' },
+        chunks: { type: 'array', items: ref('PlanChunk') },
+        estimatedTotalBytes: { type: 'integer' },
+        preview: {
+          type: 'object',
+          required: ['base64', 'mimeType', 'width', 'height'],
+          description: 'The (resized) image scaled down to a thumbnail',
+          properties: {
+            base64: { type: 'string', description: 'A JPEG data URI' },
+            mimeType: { type: 'string' },
+            width: { type: 'integer' },
+            height: { type: 'integer' },
+          },
+        },
+      },
+    },
+    ProgressEvent: {
+      type: 'object',
+      required: ['stage'],
+      description: 'One line of an NDJSON response',
+      properties: {
+        stage: { type: 'string', enum: ['fetch', 'decode', 'resize', 'plan', 'chunk', 'done', 'error'] },
+        completed: { type: 'integer' },
+        total: { type: 'integer' },
+        chunk: ref('Chunk'),
+        result: { type: 'object', description: 'The ProcessResult without chunks (plan and done)' },
+        cacheStatus: {
+          type: 'string',
+          enum: ['HIT', 'MISS', 'BYPASS'],
+          description: 'On the done event; streams for a URL open while it downloads, before the X-Cache header is known',
+        },
+        error: ref('Error'),
+      },
+    },
+    BatchRequest: batchRequestSchema(),
+    BatchItem: {
+      type: 'object',
+      required: ['index', 'url', 'status'],
+      properties: {
+        index: { type: 'integer', description: 'Position of the item in the request' },
+        url: nullable({ type: 'string' }),
+        status: { type: 'string', enum: ['processing', 'completed', 'failed'], description: 'processing only appears in NDJSON' },
+        cacheStatus: { type: 'string', enum: ['HIT', 'MISS', 'BYPASS'] },
+        result: ref('ProcessResult'),
+        error: ref('Error'),
+      },
+    },
+    BatchResult: {
+      type: 'object',
+      required: ['itemCount', 'completed', 'failed', 'processingTimeMs', 'items'],
+      properties: {
+        itemCount: { type: 'integer' },
+        completed: { type: 'integer' },
+        failed: { type: 'integer' },
+        processingTimeMs: { type: 'integer' },
+        items: { type: 'array', items: ref('BatchItem') },
+      },
+    },
+    BatchEvent: {
+      type: 'object',
+      required: ['stage'],
+      description: 'One line of an NDJSON batch response',
+      properties: {
+        stage: { type: 'string', enum: ['item', 'done', 'error'] },
+        index: { type: 'integer' },
+        url: nullable({ type: 'string' }),
+        status: { type: 'string', enum: ['processing', 'completed', 'failed'] },
+        cacheStatus: { type: 'string', enum: ['HIT', 'MISS', 'BYPASS'] },
+        result: { type: 'object', description: 'The ProcessResult of a completed item, or the BatchResult without items (done)' },
+        error: ref('Error'),
+      },
+    },
+    Job: {
+      type: 'object',
+      required: ['id', 'status', 'progress', 'error', 'createdAt', 'updatedAt', 'expiresAt'],
+      properties: {
+        id: { type: 'string' },
+        status: { type: 'string', enum: ['queued', 'running', 'completed', 'failed'] },
+        progress: {
+          type: 'object',
+          required: ['stage', 'completed', 'total', 'percent'],
+          properties: {
+            stage: { type: 'string' },
+            completed: { type: 'integer' },
+            total: nullable({ type: 'integer' }),
+            percent: { type: 'number' },
+          },
+        },
+        error: { nullable: true, allOf: [ref('Error')] },
+        callback: {
+          type: 'object',
+          description: 'Delivery of the outcome to callbackUrl, when one was given',
+          properties: {
+            url: { type: 'string' },
+            status: { type: 'string', enum: ['pending', 'delivered', 'failed'] },
+            attempts: { type: 'integer' },
+            lastResponseStatus: nullable({ type: 'integer' }),
+          },
+        },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+        expiresAt: { type: 'string', format: 'date-time' },
+      },
+    },
+    AcceptedJob: {
+      allOf: [
+        ref('Job'),
+        {
+          type: 'object',
+          required: ['statusUrl', 'resultUrl'],
+          properties: { statusUrl: { type: 'string' }, resultUrl: { type: 'string' } },
+        },
+      ],
+    },
+    Usage: {
+      type: 'object',
+      required: ['scope', 'limit', 'used', 'remaining', 'reset', 'strategy'],
+      properties: {
+        scope: { type: 'string', enum: ['key', 'ip'] },
+        limit: { type: 'integer' },
+        used: { type: 'integer' },
+        remaining: { type: 'integer' },
+        reset: nullable({ type: 'integer', description: 'Unix time in seconds when the quota next grows' }),
+        strategy: { type: 'string', enum: ['fixed-window', 'sliding-window', 'sliding-log', 'token-bucket'] },
+      },
+    },
+    Health: {
+      type: 'object',
+      required: ['status', 'timestamp', 'apiKeyConfigured', 'limits'],
+      properties: {
+        status: { type: 'string', enum: ['ok'] },
+        timestamp: { type: 'string', format: 'date-time' },
+        apiKeyConfigured: { type: 'boolean' },
+        limits: {
+          type: 'object',
+          required: ['maxUploadBytes', 'maxDownloadBytes', 'maxImagePixels', 'maxBatchItems'],
+          properties: {
+            maxUploadBytes: { type: 'integer' },
+            maxDownloadBytes: { type: 'integer' },
+            maxImagePixels: { type: 'integer' },
+            maxBatchItems: { type: 'integer' },
+          },
+        },
+      },
+    },
+  };
+}
+
+function buildResponses() {
+  return Object.fromEntries(
+    Object.entries(ERROR_RESPONSES).map(([name, { description, codes }]) => {
+      const definition = {
+        description: `${description} (${codes.join(', ')})`,
+        content: { 'application/json': { schema: ref('ErrorResponse') } },
+      };
+      if (name === 'RateLimited') {
+        definition.headers = { ...RATE_LIMIT_HEADERS, 'Retry-After': { $ref: '#/components/headers/Retry-After' } };
+      }
+      return [name, definition];
+    })
+  );
+}
+
+let spec = null;
+
+/**
+ * The OpenAPI document; built once, since everything in it is fixed at startup
+ */
+function getOpenApiSpec() {
+  if (!spec) {
+    spec = {
+      openapi: '3.0.3',
+      info: {
+        title: 'SplitStream Image Cropper API',
+        version,
+        description: 'Split tall images into chunks, strips or grid tiles. Every failure answers with an ErrorResponse.',
+      },
+      servers: [{ url: '/' }],
+      tags: [
+        { name: 'Processing', description: 'Split an image and get the chunks back in the same request' },
+        { name: 'Jobs', description: 'Split an image in the background and poll for the result' },
+        { name: 'Service', description: 'Health and quota' },
+      ],
+      paths: buildPaths(),
+      components: {
+        securitySchemes: {
+          ApiKey: {
+            type: 'apiKey',
+            in: 'header',
+            name: 'API_KEY',
+            description: 'A managed key (ss_<id>_<secret>) with its own quota, or the deployment API_KEY limited per IP',
+          },
+        },
+        headers: {
+          'X-RateLimit-Limit': { description: 'Requests allowed per hour', schema: { type: 'integer' } },
+          'X-RateLimit-Remaining': { description: 'Requests left in the current window', schema: { type: 'integer' } },
+          'X-RateLimit-Reset': { description: 'Unix time in seconds when the quota next grows', schema: { type: 'integer' } },
+          'Retry-After': { description: 'Seconds to wait before trying again', schema: { type: 'integer' } },
+          'X-Cache': {
+            description: 'HIT when the result came from the result cache, MISS when it was stored, BYPASS with noCache',
+            schema: { type: 'string', enum: ['HIT', 'MISS', 'BYPASS'] },
+          },
+        },
+        responses: buildResponses(),
+        schemas: buildSchemas(),
+      },
+    };
+  }
+  return spec;
+}
+
+module.exports = {
+  ERROR_CODES,
+  getOpenApiSpec,
+};
@@ -0,0 +1,49 @@
+/**
+ * Paper sizes for print mode (splitBy 'page').
+ *
+ * A page split cuts the image into chunks that fill the printable area of a sheet of
+ * paper at a given DPI, so a PDF of the chunks prints at true scale: one image pixel
+ * is 1/dpi of an inch on paper.
+ */
+
+// Sheet sizes in millimetres, portrait, with the name the web UI shows
+const PAPER_SIZES = {
+  a4: { label: 'A4', width: 210, height: 297 },
+  letter: { label: 'Letter', width: 215.9, height: 279.4 },
+};
+
+const DEFAULT_DPI = 150;
+// Margin on every side of the sheet, in millimetres
+const DEFAULT_PAGE_MARGIN = 10;
+
+const MM_PER_INCH = 25.4;
+const POINTS_PER_INCH = 72;
+
+/**
+ * Page geometry for a paper size, DPI and margin: the sheet and margin in PDF points,
+ * and the printable area in image pixels
+ */
+function pageLayout({ paperSize = 'a4', dpi = DEFAULT_DPI, pageMargin = DEFAULT_PAGE_MARGIN } = {}) {
+  const paper = PAPER_SIZES[paperSize];
+  const toPixels = (mm) => Math.floor((mm / MM_PER_INCH) * dpi);
+  const toPoints = (mm) => (mm / MM_PER_INCH) * POINTS_PER_INCH;
+
+  return {
+    paperSize,
+    dpi,
+    pageMargin,
+    pageWidthPt: toPoints(paper.width),
+    pageHeightPt: toPoints(paper.height),
+    marginPt: toPoints(pageMargin),
+    printableWidth: toPixels(paper.width - 2 * pageMargin),
+    printableHeight: toPixels(paper.height - 2 * pageMargin),
+  };
+}
+
+module.exports = {
+  PAPER_SIZES,
+  DEFAULT_DPI,
+  DEFAULT_PAGE_MARGIN,
+  POINTS_PER_INCH,
+  pageLayout,
+};
@@ -0,0 +1,53 @@
+/**
+ * PDF export of a processing result: one page per chunk.
+ *
+ * Chunks of a page split (print mode) are placed inside the margins of a sheet of paper
+ * at true scale, one image pixel per 1/dpi inch; only a chunk that explicit cuts made taller than
+ * the printable area is scaled down to fit. Every other split gets pages exactly the
+ * size of their chunk, one pixel per point.
+ *
+ * JPEG chunks are embedded as they are (DCTDecode). PNG and WebP chunks are flattened onto
+ * white and embedded as deflated RGB (FlateDecode), so they stay lossless. The layout and
+ * the file itself come from pdfWriter.js, which the web UI's PDF export uses too.
+ */
+
+const zlib = require('zlib');
+const { pagePlacement, serializePdf } = require('./pdfWriter.js');
+
+/**
+ * Image XObject data for a chunk's encoded bytes
+ */
+async function pdfImage(chunk, bytes) {
+  if (chunk.mimeType === 'image/jpeg') {
+    return { filter: 'DCTDecode', data: bytes, width: chunk.width, height: chunk.height };
+  }
+
+  // Loaded lazily like in encodeChunk
+  const sharp = require('sharp');
+  const { data, info } = await sharp(bytes)
+    .flatten({ background: '#ffffff' })
+    // Grey chunks would otherwise come out with a single channel
+    .toColourspace('srgb')
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { filter: 'FlateDecode', data: zlib.deflateSync(data), width: info.width, height: info.height };
+}
+
+/**
+ * Render a processing result as a PDF. `bytesOf(chunk)` returns a chunk's encoded image.
+ */
+async function renderPdf(result, bytesOf) {
+  const pages = [];
+  for (const chunk of result.chunks) {
+    pages.push({ placement: pagePlacement(result, chunk), image: await pdfImage(chunk, bytesOf(chunk)) });
+  }
+  return Buffer.concat(serializePdf(pages));
+}
+
+module.exports = {
+  renderPdf,
+  // Exported for testing
+  __internal: {
+    pagePlacement,
+  },
+};
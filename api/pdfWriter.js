@@ -0,0 +1,107 @@
+/**
+ * The PDF file format side of the PDF export: where each chunk goes on its page, and the
+ * bytes of the document.
+ *
+ * Shared by the API's responseFormat 'pdf' (pdf.js) and the web UI's Download PDF
+ * (services/pdfExport.ts), which only differ in how they get each chunk's image data.
+ * It only uses what both Node and browsers have, so both write exactly the same file.
+ */
+
+const { pageLayout, POINTS_PER_INCH } = require('./pageLayout.js');
+
+// PDF numbers: at most two decimals, no exponents
+const num = (value) => String(Math.round(value * 100) / 100);
+
+/**
+ * Page size and image rectangle of a chunk, in points with the origin at the bottom left
+ */
+function pagePlacement(result, chunk) {
+  if (result.splitBy !== 'page') {
+    return { pageWidth: chunk.width, pageHeight: chunk.height, x: 0, y: 0, width: chunk.width, height: chunk.height };
+  }
+
+  const layout = pageLayout(result);
+  const printableHeightPt = layout.pageHeightPt - 2 * layout.marginPt;
+  // True scale, unless explicit cuts made the chunk taller than the printable area
+  const scale = Math.min(POINTS_PER_INCH / layout.dpi, printableHeightPt / chunk.height);
+  const width = chunk.width * scale;
+  const height = chunk.height * scale;
+  return {
+    pageWidth: layout.pageWidthPt,
+    pageHeight: layout.pageHeightPt,
+    x: layout.marginPt,
+    // Chunks hang from the top margin
+    y: layout.pageHeightPt - layout.marginPt - height,
+    width,
+    height,
+  };
+}
+
+/**
+ * Write the PDF file: catalog, page tree, then a page, its content stream and its image per chunk.
+ * Each page is `{ placement, image: { filter, data, width, height } }`, with the image data as a
+ * Uint8Array. Returns the file as a list of byte arrays, to be joined into a Buffer or a Blob.
+ * @returns {Uint8Array[]}
+ */
+function serializePdf(pages) {
+  const encoder = new TextEncoder();
+  const parts = [];
+  const offsets = [];
+  let length = 0;
+
+  const write = (data) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  const object = (id, dictionary, stream) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${dictionary}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+
+  // The binary comment tells transfer tools the file is not plain text
+  write('%PDF-1.4\n');
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+
+  const pageIds = pages.map((page, index) => 3 + index * 3);
+  object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  object(2, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+
+  pages.forEach(({ placement, image }, index) => {
+    const id = pageIds[index];
+    const content = `q ${num(placement.width)} 0 0 ${num(placement.height)} ${num(placement.x)} ${num(placement.y)} cm /Im0 Do Q`;
+
+    object(
+      id,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(placement.pageWidth)} ${num(placement.pageHeight)}] ` +
+        `/Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>`
+    );
+    object(id + 1, `<< /Length ${content.length} >>`, content);
+    object(
+      id + 2,
+      `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /${image.filter} /Length ${image.data.length} >>`,
+      image.data
+    );
+  });
+
+  const objectCount = 3 + pages.length * 3;
+  const xrefOffset = length;
+  // Every cross-reference entry is exactly 20 bytes, hence the trailing spaces
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  write(offsets.slice(1).map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join(''));
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return parts;
+}
+
+module.exports = {
+  pagePlacement,
+  serializePdf,
+};
@@ -0,0 +1,540 @@
+/**
+ * Rate limiting algorithms, each with an in-memory and a Redis implementation
+ *
+ * Selected with RATE_LIMIT_STRATEGY:
+ * - fixed-window (default): a counter that resets at the end of each window.
+ *   Cheap, but a client can spend two windows' worth of requests around the boundary.
+ * - sliding-window: weights the previous window's count by how much of it still
+ *   overlaps the last hour. Smooths the boundary with two counters per client.
+ * - sliding-log: remembers the time of every request in the last window. Exact,
+ *   at the cost of one entry per request.
+ * - token-bucket: the limit is the bucket size, refilled evenly over the window.
+ *   Allows short bursts while holding the long-run rate.
+ *
+ * Every check resolves with `{ allowed, remaining, resetTime, retryAfter }`:
+ * resetTime (ms) is when the quota next grows, retryAfter (s) is only set when the
+ * request was refused and is the wait until one would be allowed.
+ * Peeks report `{ used, remaining, resetTime }` without counting a request;
+ * resetTime is null when nothing has been used.
+ * Allowed checks also carry a `charge`, which refunds take back (for example when
+ * a response is served from the result cache).
+ *
+ * Redis checks run as Lua scripts, so reading and updating a client's state is a
+ * single atomic step even when many serverless instances share the same Redis.
+ */
+
+const crypto = require('crypto');
+
+const STRATEGIES = ['fixed-window', 'sliding-window', 'sliding-log', 'token-bucket'];
+const DEFAULT_STRATEGY = 'fixed-window';
+
+/**
+ * The strategy named by RATE_LIMIT_STRATEGY, or the default for unknown names
+ */
+function resolveStrategy(name = process.env.RATE_LIMIT_STRATEGY) {
+  if (!name) {
+    return DEFAULT_STRATEGY;
+  }
+  if (!STRATEGIES.includes(name)) {
+    console.warn(`[Rate Limiter] Unknown RATE_LIMIT_STRATEGY "${name}", using ${DEFAULT_STRATEGY}`);
+    return DEFAULT_STRATEGY;
+  }
+  return name;
+}
+
+const toSeconds = (ms) => Math.max(1, Math.ceil(ms / 1000));
+
+// --- Fixed window ---
+
+const FIXED_WINDOW_SCRIPT = `
+local count = redis.call('INCR', KEYS[1])
+local ttl = redis.call('PTTL', KEYS[1])
+if ttl < 0 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[1])
+  ttl = tonumber(ARGV[1])
+end
+return {count, ttl}
+`;
+
+function fixedWindowResult(count, msLeft, limit, now) {
+  const resetTime = now + msLeft;
+  if (count > limit) {
+    return { allowed: false, remaining: 0, resetTime, retryAfter: toSeconds(msLeft) };
+  }
+  return { allowed: true, remaining: limit - count, resetTime };
+}
+
+function fixedWindowMemory(entries, key, limit, windowMs, now) {
+  let entry = entries.get(key);
+  if (!entry || now >= entry.resetTime) {
+    entry = { count: 0, resetTime: now + windowMs };
+    entries.set(key, entry);
+  }
+  // Refused requests are not counted, so the client is back exactly when the window ends
+  if (entry.count >= limit) {
+    return fixedWindowResult(limit + 1, entry.resetTime - now, limit, now);
+  }
+  entry.count++;
+  return fixedWindowResult(entry.count, entry.resetTime - now, limit, now);
+}
+
+async function fixedWindowRedis(client, key, limit, windowMs, now) {
+  const [count, msLeft] = await client.eval(FIXED_WINDOW_SCRIPT, [key], [windowMs]);
+  return fixedWindowResult(Number(count), Number(msLeft), limit, now);
+}
+
+const FIXED_WINDOW_PEEK_SCRIPT = `
+return {redis.call('GET', KEYS[1]) or '0', redis.call('PTTL', KEYS[1])}
+`;
+
+function fixedWindowUsage(count, msLeft, limit, now) {
+  if (count === 0 || msLeft <= 0) {
+    return { used: 0, remaining: limit, resetTime: null };
+  }
+  return { used: Math.min(count, limit), remaining: Math.max(0, limit - count), resetTime: now + msLeft };
+}
+
+function fixedWindowPeekMemory(entries, key, limit, windowMs, now) {
+  const entry = entries.get(key);
+  return entry ? fixedWindowUsage(entry.count, entry.resetTime - now, limit, now) : fixedWindowUsage(0, 0, limit, now);
+}
+
+async function fixedWindowPeekRedis(client, key, limit, windowMs, now) {
+  const [count, msLeft] = await client.eval(FIXED_WINDOW_PEEK_SCRIPT, [key], []);
+  return fixedWindowUsage(Number(count), Number(msLeft), limit, now);
+}
+
+// ARGV[1] is the longest the window can have left if it was open when the request was counted.
+// Refused requests are counted here too, so the count first drops back to the limit.
+const FIXED_WINDOW_REFUND_SCRIPT = `
+local count = tonumber(redis.call('GET', KEYS[1]) or '0')
+local ttl = redis.call('PTTL', KEYS[1])
+if count > 0 and ttl > 0 and ttl <= tonumber(ARGV[1]) then
+  redis.call('DECRBY', KEYS[1], count - math.min(count, tonumber(ARGV[2])) + 1)
+end
+return 0
+`;
+
+function fixedWindowRefundMemory(entries, key, limit, windowMs, charge) {
+  const entry = entries.get(key);
+  // A request counted in an earlier window has nothing left to refund
+  if (entry && entry.count > 0 && entry.resetTime - windowMs <= charge.at) {
+    entry.count--;
+  }
+}
+
+async function fixedWindowRefundRedis(client, key, limit, windowMs, charge, now) {
+  await client.eval(FIXED_WINDOW_REFUND_SCRIPT, [key], [windowMs - (now - charge.at), limit]);
+}
+
+// --- Sliding window (weighted counters) ---
+
+const SLIDING_WINDOW_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+local current = tonumber(redis.call('GET', KEYS[1])) or 0
+local previous = tonumber(redis.call('GET', KEYS[2])) or 0
+local weighted = previous * (window - now % window) / window + current
+if weighted + 1 > limit then
+  return {0, current, previous}
+end
+current = redis.call('INCR', KEYS[1])
+redis.call('PEXPIRE', KEYS[1], window * 2)
+return {1, current, previous}
+`;
+
+/**
+ * Milliseconds until the weighted count leaves room for one more request
+ */
+function slidingWindowWait(current, previous, elapsed, windowMs, limit) {
+  const room = limit - 1;
+  if (current <= room) {
+    // Only the previous window's share has to fade
+    return Math.max(0, windowMs - elapsed - (windowMs * (room - current)) / previous);
+  }
+  // The current window becomes the previous one and has to fade in turn
+  return windowMs - elapsed + windowMs * (1 - room / current);
+}
+
+function slidingWindowResult(allowed, current, previous, limit, windowMs, now) {
+  const elapsed = now % windowMs;
+  if (!allowed) {
+    const wait = slidingWindowWait(current, previous, elapsed, windowMs, limit);
+    return { allowed: false, remaining: 0, resetTime: now + wait, retryAfter: toSeconds(wait) };
+  }
+  const weighted = (previous * (windowMs - elapsed)) / windowMs + current;
+  return {
+    allowed: true,
+    remaining: Math.max(0, Math.floor(limit - weighted)),
+    resetTime: now - elapsed + windowMs,
+  };
+}
+
+function slidingWindowMemory(entries, key, limit, windowMs, now) {
+  const windowStart = now - (now % windowMs);
+  let entry = entries.get(key);
+  if (!entry || windowStart - entry.windowStart > windowMs) {
+    entry = { windowStart, current: 0, previous: 0 };
+  } else if (windowStart > entry.windowStart) {
+    entry = { windowStart, current: 0, previous: entry.current };
+  }
+  entries.set(key, entry);
+
+  const weighted = (entry.previous * (windowMs - (now % windowMs))) / windowMs + entry.current;
+  if (weighted + 1 > limit) {
+    return slidingWindowResult(false, entry.current, entry.previous, limit, windowMs, now);
+  }
+  entry.current++;
+  return slidingWindowResult(true, entry.current, entry.previous, limit, windowMs, now);
+}
+
+/**
+ * Keys of the current and previous window's counters
+ */
+function slidingWindowKeys(key, windowMs, now) {
+  const windowIndex = Math.floor(now / windowMs);
+  return [`${key}:sw:${windowIndex}`, `${key}:sw:${windowIndex - 1}`];
+}
+
+async function slidingWindowRedis(client, key, limit, windowMs, now) {
+  const [allowed, current, previous] = await client.eval(SLIDING_WINDOW_SCRIPT, slidingWindowKeys(key, windowMs, now), [now, windowMs, limit]);
+  return slidingWindowResult(Number(allowed) === 1, Number(current), Number(previous), limit, windowMs, now);
+}
+
+const SLIDING_WINDOW_PEEK_SCRIPT = `
+return {redis.call('GET', KEYS[1]) or '0', redis.call('GET', KEYS[2]) or '0'}
+`;
+
+function slidingWindowUsage(current, previous, limit, windowMs, now) {
+  const elapsed = now % windowMs;
+  const weighted = (previous * (windowMs - elapsed)) / windowMs + current;
+  if (weighted === 0) {
+    return { used: 0, remaining: limit, resetTime: null };
+  }
+  return {
+    used: Math.min(limit, Math.ceil(weighted)),
+    remaining: Math.max(0, Math.floor(limit - weighted)),
+    resetTime: now - elapsed + windowMs,
+  };
+}
+
+function slidingWindowPeekMemory(entries, key, limit, windowMs, now) {
+  const windowStart = now - (now % windowMs);
+  const entry = entries.get(key);
+  if (!entry || windowStart - entry.windowStart > windowMs) {
+    return slidingWindowUsage(0, 0, limit, windowMs, now);
+  }
+  if (windowStart > entry.windowStart) {
+    return slidingWindowUsage(0, entry.current, limit, windowMs, now);
+  }
+  return slidingWindowUsage(entry.current, entry.previous, limit, windowMs, now);
+}
+
+async function slidingWindowPeekRedis(client, key, limit, windowMs, now) {
+  const [current, previous] = await client.eval(SLIDING_WINDOW_PEEK_SCRIPT, slidingWindowKeys(key, windowMs, now), []);
+  return slidingWindowUsage(Number(current), Number(previous), limit, windowMs, now);
+}
+
+const SLIDING_WINDOW_REFUND_SCRIPT = `
+if (tonumber(redis.call('GET', KEYS[1])) or 0) > 0 then
+  redis.call('DECR', KEYS[1])
+end
+return 0
+`;
+
+function slidingWindowRefundMemory(entries, key, limit, windowMs, charge) {
+  const entry = entries.get(key);
+  const chargedWindow = charge.at - (charge.at % windowMs);
+  if (!entry) {
+    return;
+  }
+  // The request may have moved into the previous window's count since
+  if (entry.windowStart === chargedWindow && entry.current > 0) {
+    entry.current--;
+  } else if (entry.windowStart === chargedWindow + windowMs && entry.previous > 0) {
+    entry.previous--;
+  }
+}
+
+async function slidingWindowRefundRedis(client, key, limit, windowMs, charge) {
+  // Counters are per window, so the one the request went into is still known
+  const [chargedKey] = slidingWindowKeys(key, windowMs, charge.at);
+  await client.eval(SLIDING_WINDOW_REFUND_SCRIPT, [chargedKey], []);
+}
+
+// --- Sliding log ---
+
+const SLIDING_LOG_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count < limit then
+  redis.call('ZADD', KEYS[1], now, ARGV[4])
+  count = count + 1
+  allowed = 1
+end
+redis.call('PEXPIRE', KEYS[1], window)
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+return {allowed, count, oldest[2] or ARGV[1]}
+`;
+
+function slidingLogResult(allowed, count, oldest, limit, windowMs, now) {
+  // A slot frees up when the oldest logged request leaves the window
+  const resetTime = oldest + windowMs;
+  if (!allowed) {
+    return { allowed: false, remaining: 0, resetTime, retryAfter: toSeconds(resetTime - now) };
+  }
+  return { allowed: true, remaining: limit - count, resetTime };
+}
+
+function slidingLogMemory(entries, key, limit, windowMs, now) {
+  const log = (entries.get(key) || []).filter((time) => time > now - windowMs);
+  entries.set(key, log);
+
+  const allowed = log.length < limit;
+  if (allowed) {
+    log.push(now);
+  }
+  return slidingLogResult(allowed, log.length, log[0] ?? now, limit, windowMs, now);
+}
+
+async function slidingLogRedis(client, key, limit, windowMs, now) {
+  // Unique member so requests in the same millisecond are all logged
+  const member = `${now}-${crypto.randomBytes(4).toString('hex')}`;
+  const [allowed, count, oldest] = await client.eval(SLIDING_LOG_SCRIPT, [`${key}:log`], [now, windowMs, limit, member]);
+  const result = slidingLogResult(Number(allowed) === 1, Number(count), Number(oldest), limit, windowMs, now);
+  return result.allowed ? { ...result, charge: { at: now, member } } : result;
+}
+
+// Dropping expired entries while peeking changes nothing a check wouldn't
+const SLIDING_LOG_PEEK_SCRIPT = `
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', tonumber(ARGV[1]) - tonumber(ARGV[2]))
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+return {redis.call('ZCARD', KEYS[1]), oldest[2] or false}
+`;
+
+function slidingLogUsage(count, oldest, limit, windowMs) {
+  if (count === 0) {
+    return { used: 0, remaining: limit, resetTime: null };
+  }
+  return { used: count, remaining: Math.max(0, limit - count), resetTime: oldest + windowMs };
+}
+
+function slidingLogPeekMemory(entries, key, limit, windowMs, now) {
+  const log = (entries.get(key) || []).filter((time) => time > now - windowMs);
+  return slidingLogUsage(log.length, log[0], limit, windowMs);
+}
+
+async function slidingLogPeekRedis(client, key, limit, windowMs, now) {
+  const [count, oldest] = await client.eval(SLIDING_LOG_PEEK_SCRIPT, [`${key}:log`], [now, windowMs]);
+  return slidingLogUsage(Number(count), Number(oldest), limit, windowMs);
+}
+
+const SLIDING_LOG_REFUND_SCRIPT = `
+return redis.call('ZREM', KEYS[1], ARGV[1])
+`;
+
+function slidingLogRefundMemory(entries, key, limit, windowMs, charge) {
+  const log = entries.get(key) || [];
+  const index = log.indexOf(charge.at);
+  if (index !== -1) {
+    log.splice(index, 1);
+  }
+}
+
+async function slidingLogRefundRedis(client, key, limit, windowMs, charge) {
+  await client.eval(SLIDING_LOG_REFUND_SCRIPT, [`${key}:log`], [charge.member]);
+}
+
+// --- Token bucket ---
+
+const TOKEN_BUCKET_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(state[1]) or limit
+local updatedAt = tonumber(state[2]) or now
+tokens = math.min(limit, tokens + math.max(0, now - updatedAt) * limit / window)
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', tostring(now))
+redis.call('PEXPIRE', KEYS[1], window)
+return {allowed, tostring(tokens)}
+`;
+
+function tokenBucketResult(allowed, tokens, limit, windowMs, now) {
+  const msPerToken = windowMs / limit;
+  // The quota is back in full once the bucket has refilled
+  const resetTime = now + Math.ceil((limit - tokens) * msPerToken);
+  if (!allowed) {
+    return { allowed: false, remaining: 0, resetTime, retryAfter: toSeconds((1 - tokens) * msPerToken) };
+  }
+  return { allowed: true, remaining: Math.floor(tokens), resetTime };
+}
+
+function tokenBucketMemory(entries, key, limit, windowMs, now) {
+  const entry = entries.get(key) || { tokens: limit, updatedAt: now };
+  entry.tokens = Math.min(limit, entry.tokens + (Math.max(0, now - entry.updatedAt) * limit) / windowMs);
+  entry.updatedAt = now;
+  entries.set(key, entry);
+
+  const allowed = entry.tokens >= 1;
+  if (allowed) {
+    entry.tokens -= 1;
+  }
+  return tokenBucketResult(allowed, entry.tokens, limit, windowMs, now);
+}
+
+async function tokenBucketRedis(client, key, limit, windowMs, now) {
+  const [allowed, tokens] = await client.eval(TOKEN_BUCKET_SCRIPT, [`${key}:tb`], [now, windowMs, limit]);
+  return tokenBucketResult(Number(allowed) === 1, Number(tokens), limit, windowMs, now);
+}
+
+const TOKEN_BUCKET_PEEK_SCRIPT = `
+return redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+`;
+
+function tokenBucketUsage(tokens, updatedAt, limit, windowMs, now) {
+  if (tokens === null) {
+    return { used: 0, remaining: limit, resetTime: null };
+  }
+  const refilled = Math.min(limit, tokens + (Math.max(0, now - updatedAt) * limit) / windowMs);
+  const remaining = Math.floor(refilled);
+  return {
+    used: limit - remaining,
+    remaining,
+    resetTime: refilled < limit ? now + Math.ceil(((limit - refilled) * windowMs) / limit) : null,
+  };
+}
+
+function tokenBucketPeekMemory(entries, key, limit, windowMs, now) {
+  const entry = entries.get(key);
+  return tokenBucketUsage(entry ? entry.tokens : null, entry?.updatedAt, limit, windowMs, now);
+}
+
+async function tokenBucketPeekRedis(client, key, limit, windowMs, now) {
+  const [tokens, updatedAt] = await client.eval(TOKEN_BUCKET_PEEK_SCRIPT, [`${key}:tb`], []);
+  return tokenBucketUsage(tokens === null ? null : Number(tokens), Number(updatedAt), limit, windowMs, now);
+}
+
+const TOKEN_BUCKET_REFUND_SCRIPT = `
+local tokens = tonumber(redis.call('HMGET', KEYS[1], 'tokens')[1])
+if tokens then
+  redis.call('HSET', KEYS[1], 'tokens', tostring(math.min(tonumber(ARGV[1]), tokens + 1)))
+end
+return 0
+`;
+
+function tokenBucketRefundMemory(entries, key, limit) {
+  const entry = entries.get(key);
+  if (entry) {
+    entry.tokens = Math.min(limit, entry.tokens + 1);
+  }
+}
+
+async function tokenBucketRefundRedis(client, key, limit) {
+  await client.eval(TOKEN_BUCKET_REFUND_SCRIPT, [`${key}:tb`], [limit]);
+}
+
+const implementations = {
+  'fixed-window': {
+    memory: fixedWindowMemory,
+    redis: fixedWindowRedis,
+    peekMemory: fixedWindowPeekMemory,
+    peekRedis: fixedWindowPeekRedis,
+    refundMemory: fixedWindowRefundMemory,
+    refundRedis: fixedWindowRefundRedis,
+  },
+  'sliding-window': {
+    memory: slidingWindowMemory,
+    redis: slidingWindowRedis,
+    peekMemory: slidingWindowPeekMemory,
+    peekRedis: slidingWindowPeekRedis,
+    refundMemory: slidingWindowRefundMemory,
+    refundRedis: slidingWindowRefundRedis,
+  },
+  'sliding-log': {
+    memory: slidingLogMemory,
+    redis: slidingLogRedis,
+    peekMemory: slidingLogPeekMemory,
+    peekRedis: slidingLogPeekRedis,
+    refundMemory: slidingLogRefundMemory,
+    refundRedis: slidingLogRefundRedis,
+  },
+  'token-bucket': {
+    memory: tokenBucketMemory,
+    redis: tokenBucketRedis,
+    peekMemory: tokenBucketPeekMemory,
+    peekRedis: tokenBucketPeekRedis,
+    refundMemory: tokenBucketRefundMemory,
+    refundRedis: tokenBucketRefundRedis,
+  },
+};
+
+// Each strategy keeps differently shaped state, so they never share an in-memory entry
+const memoryKey = (strategy, key) => (strategy === DEFAULT_STRATEGY ? key : `${key}:${strategy}`);
+
+// Most strategies only need to know when a request was counted to refund it
+const withCharge = (result, now) => (result.allowed && !result.charge ? { ...result, charge: { at: now } } : result);
+
+/**
+ * Count a request against the in-memory state for `key`
+ */
+function checkMemory(strategy, entries, key, limit, windowMs, now = Date.now()) {
+  return withCharge(implementations[strategy].memory(entries, memoryKey(strategy, key), limit, windowMs, now), now);
+}
+
+/**
+ * Count a request against the Redis state for `key`
+ */
+async function checkRedis(strategy, client, key, limit, windowMs, now = Date.now()) {
+  return withCharge(await implementations[strategy].redis(client, key, limit, windowMs, now), now);
+}
+
+/**
+ * Current usage of the in-memory state for `key`, without counting a request
+ */
+function peekMemory(strategy, entries, key, limit, windowMs, now = Date.now()) {
+  return implementations[strategy].peekMemory(entries, memoryKey(strategy, key), limit, windowMs, now);
+}
+
+/**
+ * Current usage of the Redis state for `key`, without counting a request
+ */
+function peekRedis(strategy, client, key, limit, windowMs, now = Date.now()) {
+  return implementations[strategy].peekRedis(client, key, limit, windowMs, now);
+}
+
+/**
+ * Take back a request counted by checkMemory, given the check's `charge`
+ */
+function refundMemory(strategy, entries, key, limit, windowMs, charge) {
+  implementations[strategy].refundMemory(entries, memoryKey(strategy, key), limit, windowMs, charge);
+}
+
+/**
+ * Take back a request counted by checkRedis, given the check's `charge`
+ */
+function refundRedis(strategy, client, key, limit, windowMs, charge, now = Date.now()) {
+  return implementations[strategy].refundRedis(client, key, limit, windowMs, charge, now);
+}
+
+module.exports = {
+  STRATEGIES,
+  DEFAULT_STRATEGY,
+  resolveStrategy,
+  checkMemory,
+  checkRedis,
+  peekMemory,
+  peekRedis,
+  refundMemory,
+  refundRedis,
+};
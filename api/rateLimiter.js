@@ -6,20 +6,45 @@
  * 2. In-memory fallback - For localhost development
  *
  * Automatically detects environment and uses appropriate mode.
+ * The counting algorithm is chosen with RATE_LIMIT_STRATEGY (see rateLimitStrategies.js).
  *
- * Two separate rate limiters:
+ * Three separate rate limiters:
  * 1. Processing Rate Limiter (shared between UI and API) - /api/ui/process & /api/v1/process
  * 2. Health Check Rate Limiter (generous limit for status checks) - /api/health
+ * 3. Plan Rate Limiter (generous limit for dry runs, which encode nothing) - /api/v1/plan
+ *
+ * Batches count once per item, so splitting images in a batch costs as much as
+ * sending them one by one.
+ *
+ * Requests to the v1 API made with a managed API key count against that key's own
+ * hourly quota instead of the client IP (see apiKeys.js). Wrong API keys are counted
+ * per IP as well, so keys can't be guessed faster than AUTH_FAILURES_PER_HOUR allows.
+ *
+ * With RATE_LIMIT_CACHE_HITS=free, a request answered from the result cache is
+ * refunded, so only requests that actually split an image use up the quota.
  */
 
+const { ApiError, sendError } = require('./errors.js');
+const { MAX_BATCH_ITEMS } = require('./limits.js');
+const { resolveStrategy, checkMemory, checkRedis, peekMemory, peekRedis, refundMemory, refundRedis } = require('./rateLimitStrategies.js');
+
 const RATE_LIMIT_WINDOW = 60 * 60 * 1000; // 1 hour
 
+// fixed-window (default), sliding-window, sliding-log or token-bucket
+const RATE_LIMIT_STRATEGY = resolveStrategy();
+
 // Processing endpoints rate limits (UI and API share this)
 const PROCESSING_RATE_LIMIT_MAX_REQUESTS = parseInt(process.env.RATE_LIMIT_PER_HOUR, 10) || 10;
 
 // Health check rate limit (generous, separate counter)
 const HEALTH_CHECK_RATE_LIMIT_MAX_REQUESTS = parseInt(process.env.HEALTH_CHECK_RATE_LIMIT_PER_HOUR, 10) || 100;
 
+// Plan (dry run) rate limit (generous, separate counter - plans don't encode chunks)
+const PLAN_RATE_LIMIT_MAX_REQUESTS = parseInt(process.env.PLAN_RATE_LIMIT_PER_HOUR, 10) || 60;
+
+// Wrong API keys one IP may send per hour before its keys are no longer checked
+const AUTH_FAILURE_MAX_ATTEMPTS = parseInt(process.env.AUTH_FAILURES_PER_HOUR, 10) || 20;
+
 // In-memory rate limiter for fallback/localhost
 const inMemoryRateLimitMap = new Map();
 
@@ -50,13 +75,13 @@ async function initializeRedis() {
       // Test connection
       await redisClient.ping();
       useRedis = true;
-      console.log('[Rate Limiter] Using Upstash Redis for rate limiting');
+      console.log(`[Rate Limiter] Using Upstash Redis for rate limiting (${RATE_LIMIT_STRATEGY})`);
     } catch (error) {
       console.warn('[Rate Limiter] Failed to connect to Redis, falling back to in-memory:', error.message);
       useRedis = false;
     }
   } else {
-    console.log('[Rate Limiter] Using in-memory rate limiter (Redis not configured)');
+    console.log(`[Rate Limiter] Using in-memory rate limiter (Redis not configured, ${RATE_LIMIT_STRATEGY})`);
   }
 }
 
@@ -85,101 +110,76 @@ function sanitizeIP(ip) {
 }
 
 /**
- * Check rate limit using in-memory store
- * @param {string} clientIP - The client IP address
- * @param {string} limiterType - Type of limiter: 'processing' or 'health'
+ * Default limit for a limiter type
  */
-function checkInMemoryRateLimit(clientIP, limiterType = 'processing') {
-  const now = Date.now();
-  const maxRequests = limiterType === 'health' ? HEALTH_CHECK_RATE_LIMIT_MAX_REQUESTS : PROCESSING_RATE_LIMIT_MAX_REQUESTS;
-  const limiterKey = `ratelimit:${limiterType}:${clientIP}`;
-
-  if (!inMemoryRateLimitMap.has(limiterKey)) {
-    inMemoryRateLimitMap.set(limiterKey, {
-      count: 1,
-      resetTime: now + RATE_LIMIT_WINDOW,
-    });
-    return { allowed: true, remaining: maxRequests - 1, resetTime: now + RATE_LIMIT_WINDOW };
-  }
-
-  const limiter = inMemoryRateLimitMap.get(limiterKey);
-
-  // Check if window has expired
-  if (now > limiter.resetTime) {
-    limiter.count = 1;
-    limiter.resetTime = now + RATE_LIMIT_WINDOW;
-    return { allowed: true, remaining: maxRequests - 1, resetTime: now + RATE_LIMIT_WINDOW };
-  }
-
-  // Check if limit exceeded
-  if (limiter.count >= maxRequests) {
-    return {
-      allowed: false,
-      remaining: 0,
-      resetTime: limiter.resetTime,
-      retryAfter: Math.ceil((limiter.resetTime - now) / 1000),
-    };
+function maxRequestsFor(limiterType) {
+  if (limiterType === 'health') {
+    return HEALTH_CHECK_RATE_LIMIT_MAX_REQUESTS;
   }
+  return limiterType === 'plan' ? PLAN_RATE_LIMIT_MAX_REQUESTS : PROCESSING_RATE_LIMIT_MAX_REQUESTS;
+}
 
-  // Increment count
-  limiter.count++;
-  return {
-    allowed: true,
-    remaining: maxRequests - limiter.count,
-    resetTime: limiter.resetTime,
-  };
+/**
+ * Check rate limit using in-memory store
+ * @param {string} clientIP - The client IP address (or API key id for 'apikey')
+ * @param {string} limiterType - Type of limiter: 'processing', 'health', 'plan' or 'apikey'
+ * @param {number} maxRequests - Requests allowed per window
+ * @param {string} strategy - Rate limiting algorithm (see rateLimitStrategies.js)
+ */
+function checkInMemoryRateLimit(clientIP, limiterType = 'processing', maxRequests = maxRequestsFor(limiterType), strategy = RATE_LIMIT_STRATEGY) {
+  const limiterKey = `ratelimit:${limiterType}:${clientIP}`;
+  return checkMemory(strategy, inMemoryRateLimitMap, limiterKey, maxRequests, RATE_LIMIT_WINDOW);
 }
 
 /**
  * Check rate limit using Redis
- * @param {string} clientIP - The client IP address
- * @param {string} limiterType - Type of limiter: 'processing' or 'health'
+ * @param {string} clientIP - The client IP address (or API key id for 'apikey')
+ * @param {string} limiterType - Type of limiter: 'processing', 'health', 'plan' or 'apikey'
+ * @param {number} maxRequests - Requests allowed per window
+ * @param {string} strategy - Rate limiting algorithm (see rateLimitStrategies.js)
  */
-async function checkRedisRateLimit(clientIP, limiterType = 'processing') {
+async function checkRedisRateLimit(clientIP, limiterType = 'processing', maxRequests = maxRequestsFor(limiterType), strategy = RATE_LIMIT_STRATEGY) {
   try {
-    const now = Date.now();
-    const maxRequests = limiterType === 'health' ? HEALTH_CHECK_RATE_LIMIT_MAX_REQUESTS : PROCESSING_RATE_LIMIT_MAX_REQUESTS;
     const sanitizedIP = sanitizeIP(clientIP);
     const redisKey = `ratelimit:${limiterType}:${sanitizedIP}`;
 
-    // Atomically increment counter
-    const count = await redisClient.incr(redisKey);
-
-    // If this is the first request in this window, set TTL
-    if (count === 1) {
-      await redisClient.expire(redisKey, 3600); // 1 hour TTL
-    }
-
-    const remaining = Math.max(0, maxRequests - count);
-    const resetTime = now + RATE_LIMIT_WINDOW;
-
-    if (count > maxRequests) {
-      return {
-        allowed: false,
-        remaining: 0,
-        resetTime,
-        retryAfter: 60 - (Math.floor((Date.now() % 60000) / 1000)),
-      };
-    }
-
-    return {
-      allowed: true,
-      remaining,
-      resetTime,
-    };
+    // Each strategy runs as one Lua script, so concurrent requests can't race
+    return await checkRedis(strategy, redisClient, redisKey, maxRequests, RATE_LIMIT_WINDOW);
   } catch (error) {
     console.error('[Rate Limiter] Redis error, falling back to in-memory:', error.message);
     // Fall back to in-memory on Redis error
     useRedis = false;
-    return checkInMemoryRateLimit(clientIP, limiterType);
+    return checkInMemoryRateLimit(clientIP, limiterType, maxRequests, strategy);
+  }
+}
+
+/**
+ * What a request is counted against: its client IP under the limiter's default limit
+ */
+function ipSubject(limiterType) {
+  return (req) => ({ limiterType, id: extractClientIP(req), maxRequests: maxRequestsFor(limiterType) });
+}
+
+/**
+ * Take back one request counted against `charged` (a subject with the check's charge)
+ */
+async function refundCharge(charged) {
+  const { limiterType, id, maxRequests, charge } = charged;
+  if (charged.redis && redisClient) {
+    const redisKey = `ratelimit:${limiterType}:${sanitizeIP(id)}`;
+    await refundRedis(RATE_LIMIT_STRATEGY, redisClient, redisKey, maxRequests, RATE_LIMIT_WINDOW, charge);
+  } else {
+    refundMemory(RATE_LIMIT_STRATEGY, inMemoryRateLimitMap, `ratelimit:${limiterType}:${id}`, maxRequests, RATE_LIMIT_WINDOW, charge);
   }
 }
 
 /**
  * Generic rate limiter middleware factory
- * @param {string} limiterType - Type of limiter: 'processing' or 'health'
+ * @param {string} limiterType - Type of limiter: 'processing', 'health' or 'plan'
+ * @param {Function} getSubject - Maps a request to `{ limiterType, id, maxRequests }`
+ * @param {Function} getCost - Maps a request to the number of requests it counts as
  */
-function createRateLimiter(limiterType = 'processing') {
+function createRateLimiter(limiterType = 'processing', getSubject = ipSubject(limiterType), getCost = () => 1) {
   return async (req, res, next) => {
     try {
       // Initialize Redis on first call
@@ -187,36 +187,52 @@ function createRateLimiter(limiterType = 'processing') {
         await initializeRedis();
       }
 
-      const clientIP = extractClientIP(req);
+      const subject = getSubject(req);
+      const { maxRequests } = subject;
+      const cost = getCost(req);
+      const charges = [];
       let result;
 
-      if (useRedis && redisClient) {
-        result = await checkRedisRateLimit(clientIP, limiterType);
-      } else {
-        result = checkInMemoryRateLimit(clientIP, limiterType);
+      // Counted one request at a time, so every strategy charges a batch exactly like single requests
+      for (let unit = 0; unit < cost; unit++) {
+        const redis = useRedis && !!redisClient;
+        result = redis
+          ? await checkRedisRateLimit(subject.id, subject.limiterType, maxRequests)
+          : checkInMemoryRateLimit(subject.id, subject.limiterType, maxRequests);
+        if (!result.allowed) {
+          break;
+        }
+        if (result.charge) {
+          charges.push({ ...subject, charge: result.charge, redis });
+        }
       }
-
-      const maxRequests = limiterType === 'health' ? HEALTH_CHECK_RATE_LIMIT_MAX_REQUESTS : PROCESSING_RATE_LIMIT_MAX_REQUESTS;
+      // A request that doesn't fit in the quota as a whole uses none of it
+      if (!result.allowed) {
+        await Promise.all(charges.map(refundCharge));
+        result = { ...result, remaining: result.remaining + charges.length };
+      }
+      // Remembered so requests answered from the cache can be refunded later (see refundCacheHit)
+      req.rateLimitCharges = result.allowed ? charges : [];
 
       // Add rate limit info to response headers
       res.setHeader('X-RateLimit-Limit', maxRequests);
       res.setHeader('X-RateLimit-Remaining', Math.max(0, result.remaining));
-      res.setHeader('X-RateLimit-Reset', Math.floor(result.resetTime / 1000));
+      res.setHeader('X-RateLimit-Reset', Math.ceil(result.resetTime / 1000));
 
       if (!result.allowed) {
         res.setHeader('Retry-After', result.retryAfter);
-        return res.status(429).json({
-          error: 'Too many requests. Please try again later.',
-          retryAfter: result.retryAfter,
-        });
+        return sendError(res, new ApiError('Too many requests. Please try again later.', {
+          code: 'RATE_LIMITED',
+          statusCode: 429,
+          details: { retryAfter: result.retryAfter },
+        }));
       }
 
       next();
     } catch (error) {
       console.error('[Rate Limiter] Unexpected error:', error);
       // On unexpected error, allow request but log it
-      const maxRequests = limiterType === 'health' ? HEALTH_CHECK_RATE_LIMIT_MAX_REQUESTS : PROCESSING_RATE_LIMIT_MAX_REQUESTS;
-      res.setHeader('X-RateLimit-Limit', maxRequests);
+      res.setHeader('X-RateLimit-Limit', maxRequestsFor(limiterType));
       next();
     }
   };
@@ -228,9 +244,98 @@ const processingRateLimiter = createRateLimiter('processing');
 // Health check rate limiter - for health check endpoint
 const healthCheckRateLimiter = createRateLimiter('health');
 
+// v1 API subject - managed keys use their own quota, the environment API_KEY
+// (or no key at all) falls back to the per-IP processing limit
+const apiKeySubject = (req) =>
+  req.apiKey?.quotaPerHour
+    ? { limiterType: 'apikey', id: req.apiKey.id, maxRequests: req.apiKey.quotaPerHour }
+    : ipSubject('processing')(req);
+
+// v1 API rate limiter - runs after apiKeyAuth
+const apiKeyRateLimiter = createRateLimiter('processing', apiKeySubject);
+
+// Plan subject - managed keys get their own plan counter, everyone else is counted by IP
+const planSubject = (req) =>
+  req.apiKey?.quotaPerHour
+    ? { limiterType: 'apikeyplan', id: req.apiKey.id, maxRequests: PLAN_RATE_LIMIT_MAX_REQUESTS }
+    : ipSubject('plan')(req);
+
+// Batches cost one request per item; malformed ones are refused by validation and cost one
+const batchCost = (req) => {
+  const items = req.body?.items;
+  return Array.isArray(items) && items.length > 0 && items.length <= MAX_BATCH_ITEMS ? items.length : 1;
+};
+
+// Batch rate limiters - per IP for /api/ui/batch, like apiKeyRateLimiter for /api/v1/batch
+const batchRateLimiter = createRateLimiter('processing', ipSubject('processing'), batchCost);
+const apiKeyBatchRateLimiter = createRateLimiter('processing', apiKeySubject, batchCost);
+
+// Plan rate limiter - for the dry-run endpoint, after apiKeyAuth
+const planRateLimiter = createRateLimiter('plan', planSubject);
+
 // Backward compatibility: export default processing limiter as 'rateLimiter'
 const rateLimiter = processingRateLimiter;
 
+/**
+ * Whether the client IP has sent too many wrong API keys this hour.
+ * Resolves with `{ retryAfter }` (seconds) when it has, null otherwise.
+ */
+async function checkAuthFailures(req) {
+  const status = await getRateLimitStatus(extractClientIP(req), 'authfail', AUTH_FAILURE_MAX_ATTEMPTS);
+  if (status.remaining > 0) {
+    return null;
+  }
+  return { retryAfter: Math.max(1, Math.ceil(((status.resetTime || Date.now()) - Date.now()) / 1000)) };
+}
+
+/**
+ * Count a wrong API key against the client IP
+ */
+async function recordAuthFailure(req) {
+  if (!rateLimiterInitialized) {
+    await initializeRedis();
+  }
+
+  const clientIP = extractClientIP(req);
+  if (useRedis && redisClient) {
+    await checkRedisRateLimit(clientIP, 'authfail', AUTH_FAILURE_MAX_ATTEMPTS);
+  } else {
+    checkInMemoryRateLimit(clientIP, 'authfail', AUTH_FAILURE_MAX_ATTEMPTS);
+  }
+}
+
+/**
+ * Whether requests answered from the result cache are refunded (RATE_LIMIT_CACHE_HITS=free)
+ */
+function cacheHitsAreFree() {
+  return process.env.RATE_LIMIT_CACHE_HITS === 'free';
+}
+
+/**
+ * Give back one of the requests counted for `req` when cache hits are free: the request
+ * itself, or one batch item, that was answered from the result cache. X-RateLimit-Remaining
+ * is only corrected while the response headers have not been sent.
+ */
+async function refundCacheHit(req, res) {
+  if (!req.rateLimitCharges?.length || !cacheHitsAreFree()) {
+    return;
+  }
+  const charged = req.rateLimitCharges.pop();
+
+  try {
+    await refundCharge(charged);
+
+    const { maxRequests } = charged;
+    const remaining = Number(res.getHeader('X-RateLimit-Remaining'));
+    if (!res.headersSent && !isNaN(remaining)) {
+      res.setHeader('X-RateLimit-Remaining', Math.min(maxRequests, remaining + 1));
+    }
+  } catch (error) {
+    // The request then simply counts, as it would with RATE_LIMIT_CACHE_HITS=count
+    console.error('[Rate Limiter] Failed to refund a cache hit:', error.message);
+  }
+}
+
 /**
  * Cleanup function (useful for tests)
  */
@@ -239,41 +344,62 @@ function clearAllLimits() {
 }
 
 /**
- * Get current rate limit status for an IP (for testing/monitoring)
+ * Get current rate limit status without counting a request (for /api/v1/usage and monitoring)
+ * @param {string} clientIP - The client IP address (or API key id for 'apikey')
+ * @param {string} limiterType - Type of limiter: 'processing', 'health', 'plan', 'apikey' or 'authfail'
+ * @param {number} maxRequests - Requests allowed per window
  */
-async function getRateLimitStatus(clientIP) {
+async function getRateLimitStatus(clientIP, limiterType = 'processing', maxRequests = maxRequestsFor(limiterType)) {
+  if (!rateLimiterInitialized) {
+    await initializeRedis();
+  }
+
+  const status = { strategy: RATE_LIMIT_STRATEGY, limit: maxRequests };
   if (useRedis && redisClient) {
     try {
-      const sanitizedIP = sanitizeIP(clientIP);
-      const count = await redisClient.get(`ratelimit:${sanitizedIP}`);
-      return {
-        mode: 'redis',
-        ip: clientIP,
-        count: count || 0,
-        limit: RATE_LIMIT_MAX_REQUESTS,
-      };
+      const redisKey = `ratelimit:${limiterType}:${sanitizeIP(clientIP)}`;
+      const usage = await peekRedis(RATE_LIMIT_STRATEGY, redisClient, redisKey, maxRequests, RATE_LIMIT_WINDOW);
+      return { mode: 'redis', ...status, ...usage };
     } catch (error) {
-      return { error: error.message };
+      console.error('[Rate Limiter] Redis error while reading status:', error.message);
     }
-  } else {
-    const limiterKey = `ratelimit:${clientIP}`;
-    const limiter = inMemoryRateLimitMap.get(limiterKey);
-    return {
-      mode: 'in-memory',
-      ip: clientIP,
-      count: limiter?.count || 0,
-      limit: RATE_LIMIT_MAX_REQUESTS,
-      resetTime: limiter?.resetTime,
-    };
   }
+
+  const limiterKey = `ratelimit:${limiterType}:${clientIP}`;
+  const usage = peekMemory(RATE_LIMIT_STRATEGY, inMemoryRateLimitMap, limiterKey, maxRequests, RATE_LIMIT_WINDOW);
+  return { mode: 'in-memory', ...status, ...usage };
+}
+
+/**
+ * Quota status of the caller: their API key's quota when they sent a managed key, their IP's otherwise
+ */
+async function getUsage(req) {
+  const { limiterType, id, maxRequests } = apiKeySubject(req);
+  const status = await getRateLimitStatus(id, limiterType, maxRequests);
+  return {
+    scope: limiterType === 'apikey' ? 'key' : 'ip',
+    limit: status.limit,
+    used: status.used,
+    remaining: status.remaining,
+    reset: status.resetTime ? Math.ceil(status.resetTime / 1000) : null,
+    strategy: status.strategy,
+  };
 }
 
 module.exports = {
   rateLimiter,
   processingRateLimiter,
   healthCheckRateLimiter,
+  apiKeyRateLimiter,
+  batchRateLimiter,
+  apiKeyBatchRateLimiter,
+  planRateLimiter,
   clearAllLimits,
   getRateLimitStatus,
+  getUsage,
+  refundCacheHit,
+  checkAuthFailures,
+  recordAuthFailure,
   initializeRedis,
   // Exported for testing
   __internal: {
@@ -0,0 +1,232 @@
+/**
+ * Binary response modes for /api/v1/process.
+ *
+ * Besides the default JSON body (chunks as base64 data URIs), callers can ask for:
+ * - 'zip': a streamed application/zip with every chunk plus a manifest.json
+ * - 'multipart': a multipart/mixed body, a JSON metadata part followed by one raw image part per chunk
+ * - 'ndjson': newline-delimited JSON progress events, with each chunk sent as soon as it is encoded
+ * - 'pdf': an application/pdf document with one page per chunk (see pdf.js)
+ *
+ * The mode is picked with a `responseFormat` parameter (body or query string),
+ * falling back to the Accept header.
+ */
+
+const crypto = require('crypto');
+const archiver = require('archiver');
+const { ValidationError, toApiError } = require('./errors.js');
+const { renderPdf } = require('./pdf.js');
+
+const RESPONSE_FORMATS = ['json', 'zip', 'multipart', 'ndjson', 'pdf'];
+
+// Formats that carry raw image bytes rather than base64 data URIs
+const BINARY_FORMATS = ['zip', 'multipart', 'pdf'];
+
+const FILE_EXTENSIONS = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+/**
+ * Work out which response format the caller wants.
+ * Returns `{ format }`, or throws a ValidationError for unknown formats.
+ */
+function resolveResponseFormat(req) {
+  const requested = (req.body && req.body.responseFormat) || req.query.responseFormat;
+
+  if (requested) {
+    const format = String(requested).toLowerCase();
+    if (!RESPONSE_FORMATS.includes(format)) {
+      throw new ValidationError(`Invalid responseFormat: must be one of ${RESPONSE_FORMATS.join(', ')}.`, {
+        field: 'responseFormat',
+        details: { allowed: RESPONSE_FORMATS },
+      });
+    }
+    return { format };
+  }
+
+  // No explicit parameter: honour the Accept header, JSON stays the default
+  const accepted = req.accepts(['application/json', 'application/zip', 'multipart/mixed', 'application/x-ndjson', 'application/pdf']);
+  if (accepted === 'application/zip') {
+    return { format: 'zip' };
+  }
+  if (accepted === 'multipart/mixed') {
+    return { format: 'multipart' };
+  }
+  if (accepted === 'application/x-ndjson') {
+    return { format: 'ndjson' };
+  }
+  if (accepted === 'application/pdf') {
+    return { format: 'pdf' };
+  }
+  return { format: 'json' };
+}
+
+/**
+ * How splitImageApi should encode chunks for the given response format
+ */
+function chunkEncodingFor(format) {
+  return BINARY_FORMATS.includes(format) ? 'buffer' : 'base64';
+}
+
+/**
+ * File name for a chunk, matching the names the web UI uses for downloads
+ */
+function chunkFileName(chunk, splitBy) {
+  const extension = FILE_EXTENSIONS[chunk.mimeType] || 'png';
+  if (splitBy === 'grid') {
+    return `tile_r${chunk.row + 1}_c${chunk.column + 1}_${chunk.width}x${chunk.height}px.${extension}`;
+  }
+  return `chunk_${chunk.id + 1}_${chunk.height}px.${extension}`;
+}
+
+/**
+ * Raw bytes of a chunk, whether it was encoded as a Buffer or a base64 data URI
+ */
+function chunkBuffer(chunk) {
+  if (chunk.buffer) {
+    return chunk.buffer;
+  }
+  const base64Data = chunk.base64.includes(',') ? chunk.base64.split(',')[1] : chunk.base64;
+  return Buffer.from(base64Data, 'base64');
+}
+
+/**
+ * The processing result without image bytes; each chunk gets its file name instead
+ */
+function resultManifest(result) {
+  return {
+    ...result,
+    chunks: result.chunks.map(({ buffer, base64, ...chunk }) => ({
+      ...chunk,
+      fileName: chunkFileName(chunk, result.splitBy),
+    })),
+  };
+}
+
+/**
+ * Stream the chunks as a ZIP archive, with manifest.json describing the split
+ */
+function sendZip(res, result) {
+  return new Promise((resolve, reject) => {
+    const archive = archiver('zip', { zlib: { level: 6 } });
+
+    archive.on('error', reject);
+    archive.on('end', resolve);
+
+    res.status(200);
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="splitstream_${Date.now()}.zip"`);
+    archive.pipe(res);
+
+    for (const chunk of result.chunks) {
+      archive.append(chunkBuffer(chunk), { name: chunkFileName(chunk, result.splitBy) });
+    }
+    archive.append(JSON.stringify(resultManifest(result), null, 2), { name: 'manifest.json' });
+    archive.finalize();
+  });
+}
+
+/**
+ * Send the chunks as multipart/mixed: a JSON metadata part, then one part per chunk
+ */
+function sendMultipart(res, result) {
+  const boundary = `splitstream-${crypto.randomBytes(12).toString('hex')}`;
+
+  res.status(200);
+  res.setHeader('Content-Type', `multipart/mixed; boundary=${boundary}`);
+
+  res.write(`--${boundary}\r\n`);
+  res.write('Content-Type: application/json\r\n');
+  res.write('Content-Disposition: inline; name="metadata"\r\n\r\n');
+  res.write(JSON.stringify(resultManifest(result)));
+  res.write('\r\n');
+
+  for (const chunk of result.chunks) {
+    const bytes = chunkBuffer(chunk);
+    res.write(`--${boundary}\r\n`);
+    res.write(`Content-Type: ${chunk.mimeType}\r\n`);
+    res.write(`Content-Disposition: attachment; name="chunk"; filename="${chunkFileName(chunk, result.splitBy)}"\r\n`);
+    res.write(`Content-Length: ${bytes.length}\r\n`);
+    res.write(`X-Chunk-Id: ${chunk.id}\r\n\r\n`);
+    res.write(bytes);
+    res.write('\r\n');
+  }
+
+  res.end(`--${boundary}--\r\n`);
+}
+
+/**
+ * Send the chunks as a PDF document, one page per chunk
+ */
+async function sendPdf(res, result) {
+  const pdf = await renderPdf(result, chunkBuffer);
+
+  res.status(200);
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="splitstream_${Date.now()}.pdf"`);
+  res.end(pdf);
+}
+
+/**
+ * Start an NDJSON response and return the onProgress callback for splitImageApi.
+ * Headers go out immediately, so later failures are reported as an 'error' event.
+ */
+function openProgressStream(res) {
+  res.status(200);
+  res.setHeader('Content-Type', 'application/x-ndjson');
+  res.setHeader('Cache-Control', 'no-cache');
+  // Stop reverse proxies from buffering the stream
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  return (event) => {
+    res.write(`${JSON.stringify(event)}\n`);
+  };
+}
+
+/**
+ * Finish a response that failed after its headers were sent.
+ * NDJSON streams get a final 'error' event with the structured error; other formats can only be cut short.
+ */
+function endWithError(res, format, error) {
+  if (format === 'ndjson') {
+    res.write(`${JSON.stringify({ stage: 'error', error: toApiError(error).toJSON() })}\n`);
+  }
+  res.end();
+}
+
+/**
+ * Send a processing result in the resolved format. NDJSON streams repeat the cacheStatus in
+ * their 'done' event, since a stream for a URL is opened before X-Cache is known.
+ */
+async function sendResult(res, result, format, { cacheStatus } = {}) {
+  if (format === 'ndjson') {
+    // Chunks were already streamed as they were produced
+    const { chunks, ...summary } = result;
+    res.end(`${JSON.stringify({ stage: 'done', result: summary, cacheStatus })}\n`);
+    return;
+  }
+  if (format === 'zip') {
+    return sendZip(res, result);
+  }
+  if (format === 'multipart') {
+    return sendMultipart(res, result);
+  }
+  if (format === 'pdf') {
+    return sendPdf(res, result);
+  }
+  res.json(result);
+}
+
+module.exports = {
+  RESPONSE_FORMATS,
+  resolveResponseFormat,
+  chunkEncodingFor,
+  chunkFileName,
+  chunkBuffer,
+  resultManifest,
+  openProgressStream,
+  endWithError,
+  sendResult,
+};
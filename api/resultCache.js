@@ -0,0 +1,310 @@
+/**
+ * Result cache for SplitStream
+ *
+ * Splitting the same image with the same parameters always produces the same chunks,
+ * so finished results are kept and served again without re-processing. The cache key
+ * combines the identity of the source with every split parameter:
+ * - uploads: a SHA-256 hash of the uploaded bytes
+ * - URLs: a SHA-256 hash of the downloaded bytes. The image is downloaded once and a
+ *   miss is split from those same bytes.
+ *
+ * Results live behind a store with two implementations, chosen the same way as the
+ * job store's:
+ * 1. Redis-backed (Upstash) - shared across serverless invocations
+ * 2. In-memory LRU - bounded by entry count and total size, for localhost development
+ *
+ * Entries expire after RESULT_CACHE_TTL_SECONDS (default: 1 hour) and results larger
+ * than RESULT_CACHE_MAX_ENTRY_BYTES are never stored; Redis entries are further capped
+ * at RESULT_CACHE_MAX_REDIS_ENTRY_BYTES. RESULT_CACHE=off disables the cache.
+ */
+
+const crypto = require('crypto');
+const { splitImageApi, fetchImageBuffer } = require('./imageProcessor.js');
+const { chunkBuffer } = require('./responseFormats.js');
+
+const RESULT_CACHE_TTL_SECONDS = parseInt(process.env.RESULT_CACHE_TTL_SECONDS, 10) || 60 * 60;
+
+// Largest serialized result that is cached (default 5 MB)
+const RESULT_CACHE_MAX_ENTRY_BYTES = parseInt(process.env.RESULT_CACHE_MAX_ENTRY_BYTES, 10) || 5 * 1024 * 1024;
+
+// Largest result stored in Redis (default 1 MB, Upstash's request size limit on its free plan)
+const RESULT_CACHE_MAX_REDIS_ENTRY_BYTES = parseInt(process.env.RESULT_CACHE_MAX_REDIS_ENTRY_BYTES, 10) || 1024 * 1024;
+
+// Bounds of the in-memory cache (defaults: 100 results, 100 MB)
+const RESULT_CACHE_MAX_ENTRIES = parseInt(process.env.RESULT_CACHE_MAX_ENTRIES, 10) || 100;
+const RESULT_CACHE_MAX_BYTES = parseInt(process.env.RESULT_CACHE_MAX_BYTES, 10) || 100 * 1024 * 1024;
+
+// Bumped whenever the processor's output changes, so old entries are never served
+const CACHE_KEY_VERSION = 1;
+
+/**
+ * In-memory LRU cache. Reads move an entry to the back, the oldest entries are
+ * evicted once either bound is exceeded.
+ */
+function createMemoryResultCache({
+  maxEntries = RESULT_CACHE_MAX_ENTRIES,
+  maxBytes = RESULT_CACHE_MAX_BYTES,
+  ttlSeconds = RESULT_CACHE_TTL_SECONDS,
+} = {}) {
+  // Map iteration follows insertion order, so the first key is the least recently used
+  const entries = new Map();
+  let totalBytes = 0;
+
+  const remove = (key) => {
+    totalBytes -= entries.get(key).bytes;
+    entries.delete(key);
+  };
+
+  return {
+    mode: 'in-memory',
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return null;
+      }
+      if (entry.expiresAt < Date.now()) {
+        remove(key);
+        return null;
+      }
+      entries.delete(key);
+      entries.set(key, entry);
+      return JSON.parse(entry.json);
+    },
+    async set(key, json) {
+      if (entries.has(key)) {
+        remove(key);
+      }
+      const bytes = Buffer.byteLength(json);
+      entries.set(key, { json, bytes, expiresAt: Date.now() + ttlSeconds * 1000 });
+      totalBytes += bytes;
+      while (entries.size > maxEntries || totalBytes > maxBytes) {
+        remove(entries.keys().next().value);
+      }
+    },
+    clear() {
+      entries.clear();
+      totalBytes = 0;
+    },
+    stats() {
+      return { entries: entries.size, bytes: totalBytes };
+    },
+  };
+}
+
+/**
+ * Redis cache; Redis itself expires entries after the TTL. Entries over maxEntryBytes are
+ * skipped, since every one is sent to Redis in a single request and read back on each hit.
+ */
+function createRedisResultCache(client, ttlSeconds = RESULT_CACHE_TTL_SECONDS, maxEntryBytes = RESULT_CACHE_MAX_REDIS_ENTRY_BYTES) {
+  // Upstash deserializes JSON on read, other clients hand back the raw string
+  const parse = (value) => (typeof value === 'string' ? JSON.parse(value) : value || null);
+
+  return {
+    mode: 'redis',
+    async get(key) {
+      return parse(await client.get(`splitcache:${key}`));
+    },
+    async set(key, json) {
+      if (Buffer.byteLength(json) > maxEntryBytes) {
+        return;
+      }
+      await client.set(`splitcache:${key}`, json, { ex: ttlSeconds });
+    },
+  };
+}
+
+let resultCache = null;
+
+/**
+ * The result cache for this process: Redis when configured and reachable, in-memory otherwise
+ */
+async function getResultCache() {
+  if (resultCache) {
+    return resultCache;
+  }
+
+  if (process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN) {
+    try {
+      const { Redis } = await import('@upstash/redis');
+      const client = new Redis({
+        url: process.env.UPSTASH_REDIS_REST_URL,
+        token: process.env.UPSTASH_REDIS_REST_TOKEN,
+      });
+      await client.ping();
+      resultCache = createRedisResultCache(client);
+      console.log('[Result Cache] Using Upstash Redis for cached results');
+      return resultCache;
+    } catch (error) {
+      console.warn('[Result Cache] Failed to connect to Redis, falling back to in-memory:', error.message);
+    }
+  }
+
+  resultCache = createMemoryResultCache();
+  return resultCache;
+}
+
+/**
+ * Replace the result cache (used by tests)
+ */
+function setResultCache(cache) {
+  resultCache = cache;
+}
+
+/**
+ * Whether results are cached at all (RESULT_CACHE=off turns caching off)
+ */
+function isCacheEnabled() {
+  return process.env.RESULT_CACHE !== 'off';
+}
+
+const sha256 = (data) => crypto.createHash('sha256').update(data).digest('hex');
+
+/**
+ * Identify the source image. Resolves with `{ identity, buffer }`, where buffer holds
+ * the downloaded bytes of a URL, so the image is split from them instead of fetched again.
+ * The download is reported to onProgress as the split's 'fetch' stage would have been.
+ */
+async function identifySource(source, onProgress) {
+  if (Buffer.isBuffer(source)) {
+    return { identity: `sha256:${sha256(source)}`, buffer: null };
+  }
+
+  if (onProgress) {
+    onProgress({ stage: 'fetch', url: source });
+  }
+  const buffer = await fetchImageBuffer(source);
+  return { identity: `sha256:${sha256(buffer)}`, buffer };
+}
+
+/**
+ * Cache key for a source identity and the split parameters.
+ * Options that only affect how the result is delivered are left out.
+ */
+function cacheKey(identity, height, width, options = {}) {
+  const { fileName, sourceUrl, onProgress, chunkEncoding, ...splitOptions } = options;
+  const params = Object.entries({ ...splitOptions, height, width })
+    .filter(([, value]) => value !== undefined && value !== null)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return sha256(JSON.stringify([CACHE_KEY_VERSION, identity, params]));
+}
+
+/**
+ * The result as stored: every chunk as a base64 data URI, whatever encoding it was made with
+ */
+function toCacheable(result) {
+  return {
+    ...result,
+    chunks: result.chunks.map(({ buffer, ...chunk }) => ({
+      ...chunk,
+      base64: chunk.base64 || `data:${chunk.mimeType};base64,${buffer.toString('base64')}`,
+    })),
+  };
+}
+
+/**
+ * A cached result in the chunk encoding the response needs
+ */
+function fromCache(result, chunkEncoding) {
+  if (chunkEncoding !== 'buffer') {
+    return result;
+  }
+  return {
+    ...result,
+    chunks: result.chunks.map(({ base64, ...chunk }) => ({ ...chunk, buffer: chunkBuffer({ base64 }) })),
+  };
+}
+
+/**
+ * Send a cached result through onProgress the way a fresh split would have
+ */
+function replayProgress(result, onProgress) {
+  const { chunks, chunkCount, processingTimeMs, ...summary } = result;
+  onProgress({ stage: 'plan', total: chunkCount, result: summary });
+  chunks.forEach((chunk, index) => {
+    onProgress({ stage: 'chunk', completed: index + 1, total: chunkCount, chunk });
+  });
+}
+
+/**
+ * Prepare a split that is answered from the cache when possible.
+ * Resolves with `{ cacheStatus, run }`: cacheStatus ('HIT', 'MISS' or 'BYPASS') is known
+ * before any processing, so it can go in the response headers; `run(runOptions)` resolves
+ * with the result, splitting the image only on a miss. With noCache the lookup is skipped
+ * but the fresh result still replaces the cached one. onProgress receives the 'fetch' event
+ * when a URL has to be downloaded before the lookup, since that is the slowest part.
+ */
+async function cachedSplit(source, height, width, options = {}, { noCache = false, onProgress } = {}) {
+  const split = (input, extra) => splitImageApi(input, height, width, { ...options, ...extra });
+
+  if (!isCacheEnabled()) {
+    return { cacheStatus: 'BYPASS', run: (runOptions) => split(source, runOptions) };
+  }
+
+  const { identity, buffer } = await identifySource(source, onProgress);
+  const key = cacheKey(identity, height, width, options);
+  // A URL is split from the bytes downloaded to hash it
+  const input = buffer || source;
+  const inputOptions = buffer ? { sourceUrl: source } : {};
+
+  let cache = null;
+  let cached = null;
+  try {
+    cache = await getResultCache();
+    cached = noCache ? null : await cache.get(key);
+  } catch (error) {
+    console.error('[Result Cache] Lookup failed, processing without the cache:', error.message);
+  }
+
+  if (cached) {
+    return {
+      cacheStatus: 'HIT',
+      async run({ chunkEncoding, onProgress } = {}) {
+        const startTime = Date.now();
+        const result = {
+          ...fromCache(cached, chunkEncoding),
+          // The cached result may have come from a different URL or file name with the same content
+          originalUrl: Buffer.isBuffer(source) ? null : source,
+          originalFileName: Buffer.isBuffer(source) ? options.fileName || null : null,
+        };
+        if (onProgress) {
+          replayProgress(result, onProgress);
+        }
+        return { ...result, processingTimeMs: Date.now() - startTime };
+      },
+    };
+  }
+
+  return {
+    cacheStatus: noCache ? 'BYPASS' : 'MISS',
+    async run(runOptions = {}) {
+      const result = await split(input, { ...inputOptions, ...runOptions });
+      if (cache) {
+        try {
+          const json = JSON.stringify(toCacheable(result));
+          if (Buffer.byteLength(json) <= RESULT_CACHE_MAX_ENTRY_BYTES) {
+            await cache.set(key, json);
+          }
+        } catch (error) {
+          console.error('[Result Cache] Failed to store result:', error.message);
+        }
+      }
+      return result;
+    },
+  };
+}
+
+module.exports = {
+  RESULT_CACHE_TTL_SECONDS,
+  cachedSplit,
+  getResultCache,
+  setResultCache,
+  createMemoryResultCache,
+  createRedisResultCache,
+  // Exported for testing
+  __internal: {
+    cacheKey,
+    identifySource,
+    toCacheable,
+    fromCache,
+  },
+};
@@ -0,0 +1,83 @@
+/**
+ * Upload handling for the process endpoints.
+ *
+ * Accepts a local image in one of two ways, as an alternative to `url`:
+ * 1. multipart/form-data with the image in a `file` field (other fields carry the split parameters)
+ * 2. A raw binary body with an image/* or application/octet-stream Content-Type
+ *    (split parameters are passed in the query string)
+ *
+ * The uploaded bytes are exposed as `req.uploadedImage = { buffer, fileName, mimeType }`.
+ * JSON requests pass straight through untouched.
+ */
+
+const express = require('express');
+const multer = require('multer');
+const { MAX_UPLOAD_BYTES, formatLimit } = require('./limits.js');
+const { ApiError, ImageTooLargeError, sendError } = require('./errors.js');
+
+const multipartParser = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_UPLOAD_BYTES,
+    files: 1,
+  },
+}).single('file');
+
+const rawParser = express.raw({
+  type: ['image/*', 'application/octet-stream'],
+  limit: MAX_UPLOAD_BYTES,
+});
+
+const uploadTooLarge = () => new ImageTooLargeError(`Uploaded file is too large. Maximum size is ${formatLimit(MAX_UPLOAD_BYTES)}.`);
+const invalidUpload = (message) => new ApiError(message, { code: 'INVALID_UPLOAD', statusCode: 400, field: 'file' });
+
+/**
+ * Middleware that parses an optional image upload and normalises it onto req.uploadedImage
+ */
+function imageUpload(req, res, next) {
+  rawParser(req, res, (rawError) => {
+    if (rawError) {
+      if (rawError.type === 'entity.too.large') {
+        return sendError(res, uploadTooLarge());
+      }
+      return sendError(res, invalidUpload('Could not read the uploaded file.'));
+    }
+
+    if (Buffer.isBuffer(req.body)) {
+      if (req.body.length === 0) {
+        return sendError(res, invalidUpload('Uploaded file is empty.'));
+      }
+      req.uploadedImage = {
+        buffer: req.body,
+        fileName: req.query.fileName || null,
+        mimeType: req.headers['content-type'],
+      };
+      // Split parameters travel in the query string for raw uploads
+      req.body = { ...req.query };
+      return next();
+    }
+
+    multipartParser(req, res, (multipartError) => {
+      if (multipartError) {
+        if (multipartError.code === 'LIMIT_FILE_SIZE') {
+          return sendError(res, uploadTooLarge());
+        }
+        return sendError(res, invalidUpload(`Invalid upload: ${multipartError.message}`));
+      }
+
+      if (req.file) {
+        req.uploadedImage = {
+          buffer: req.file.buffer,
+          fileName: req.file.originalname || null,
+          mimeType: req.file.mimetype,
+        };
+      }
+      next();
+    });
+  });
+}
+
+module.exports = {
+  imageUpload,
+  MAX_UPLOAD_BYTES,
+};
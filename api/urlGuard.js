@@ -0,0 +1,265 @@
+/**
+ * SSRF protection for outgoing requests (image downloads and webhook callbacks).
+ *
+ * Callers choose the URLs this server fetches, so every request is checked before
+ * a connection is made:
+ * 1. Only http and https
+ * 2. Host denylist / allowlist (FETCH_HOST_DENYLIST, FETCH_HOST_ALLOWLIST)
+ * 3. Every address the host resolves to must be public - no private, loopback,
+ *    link-local (cloud metadata), CGNAT, multicast or reserved ranges
+ *
+ * The address check runs inside the connection's DNS lookup, so the address that
+ * was checked is the one connected to (no DNS rebinding), and redirects are followed
+ * by hand so each hop goes through the same checks.
+ *
+ * FETCH_ALLOW_PRIVATE_NETWORKS=true turns off the address check for local development.
+ */
+
+const dns = require('dns');
+const http = require('http');
+const https = require('https');
+const net = require('net');
+const fetch = require('node-fetch');
+const { UrlBlockedError } = require('./errors.js');
+
+const MAX_REDIRECTS = 5;
+
+// Ranges that must never be fetched; IPv6 addresses that embed an IPv4 address are matched
+// against the IPv4 rules (see embeddedIPv4)
+const blockedRanges = new net.BlockList();
+[
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT (also Alibaba Cloud metadata)
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, including 169.254.169.254 cloud metadata
+  ['172.16.0.0', 12], // private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.0.2.0', 24], // documentation
+  ['192.168.0.0', 16], // private
+  ['198.18.0.0', 15], // benchmarking
+  ['198.51.100.0', 24], // documentation
+  ['203.0.113.0', 24], // documentation
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved and broadcast
+].forEach(([address, prefix]) => blockedRanges.addSubnet(address, prefix, 'ipv4'));
+[
+  ['::', 128], // unspecified
+  ['::1', 128], // loopback
+  ['fc00::', 7], // unique local, including fd00:ec2::254 metadata
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+  ['2001:db8::', 32], // documentation
+].forEach(([address, prefix]) => blockedRanges.addSubnet(address, prefix, 'ipv6'));
+
+/**
+ * The eight 16-bit groups of an IPv6 address, which may end in a dotted IPv4 address
+ */
+function ipv6Groups(address) {
+  let text = address.toLowerCase().replace(/%.*$/, '');
+  const dotted = text.match(/^(.*:)(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(2).map(Number);
+    text = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = text.split('::');
+  const parse = (part) => (part ? part.split(':').map((group) => parseInt(group, 16)) : []);
+  const headGroups = parse(head);
+  const tailGroups = parse(tail);
+  return [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill(0), ...tailGroups];
+}
+
+const ipv4FromGroups = (high, low) => [high >> 8, high & 255, low >> 8, low & 255].join('.');
+
+/**
+ * The IPv4 address carried by an IPv6 address, or null. Packets to these reach the IPv4
+ * address, so it is what has to be checked:
+ * - IPv4-compatible (::/96) and IPv4-mapped (::ffff:0:0/96): the last 32 bits
+ * - NAT64 (64:ff9b::/96): the last 32 bits
+ * - 6to4 (2002::/16): the 32 bits after the prefix
+ * - Teredo (2001::/32): the client address, stored inverted in the last 32 bits
+ */
+function embeddedIPv4(address) {
+  const groups = ipv6Groups(address);
+  const zeroUpTo = (end) => groups.slice(0, end).every((group) => group === 0);
+  const zeroOrMapped = groups[5] === 0 || groups[5] === 0xffff;
+
+  if (zeroUpTo(5) && zeroOrMapped) {
+    return ipv4FromGroups(groups[6], groups[7]);
+  }
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 5).every((group) => group === 0) && zeroOrMapped) {
+    return ipv4FromGroups(groups[6], groups[7]);
+  }
+  if (groups[0] === 0x2002) {
+    return ipv4FromGroups(groups[1], groups[2]);
+  }
+  if (groups[0] === 0x2001 && groups[1] === 0) {
+    return ipv4FromGroups(groups[6] ^ 0xffff, groups[7] ^ 0xffff);
+  }
+  return null;
+}
+
+/**
+ * Whether an IP address is in a private or otherwise non-public range
+ */
+function isBlockedAddress(address) {
+  const family = net.isIP(address);
+  if (family === 4) {
+    return blockedRanges.check(address, 'ipv4');
+  }
+  if (family === 6) {
+    const ipv4 = embeddedIPv4(address);
+    return ipv4 ? isBlockedAddress(ipv4) : blockedRanges.check(address.toLowerCase(), 'ipv6');
+  }
+  // Not an IP address at all; refuse rather than guess
+  return true;
+}
+
+/**
+ * Hosts from a comma-separated env variable, lowercased.
+ * "example.com" matches only that host, ".example.com" or "*.example.com" also matches subdomains.
+ */
+function hostList(value) {
+  return (value || '')
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function matchesHost(hostname, pattern) {
+  const suffix = pattern.startsWith('*.') ? pattern.slice(1) : pattern.startsWith('.') ? pattern : null;
+  if (suffix) {
+    return hostname.endsWith(suffix) || hostname === suffix.slice(1);
+  }
+  return hostname === pattern;
+}
+
+function allowPrivateNetworks() {
+  return process.env.FETCH_ALLOW_PRIVATE_NETWORKS === 'true';
+}
+
+/**
+ * Check the parts of a URL that don't need DNS: protocol, host lists and literal IP addresses.
+ * Throws UrlBlockedError; returns the hostname without IPv6 brackets.
+ */
+function checkUrl(url) {
+  let parsed;
+  try {
+    parsed = new URL(url);
+  } catch (error) {
+    throw new UrlBlockedError('Invalid URL format');
+  }
+
+  if (!['http:', 'https:'].includes(parsed.protocol)) {
+    throw new UrlBlockedError('Only http and https URLs can be fetched.');
+  }
+
+  const hostname = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+
+  if (hostList(process.env.FETCH_HOST_DENYLIST).some((pattern) => matchesHost(hostname, pattern))) {
+    throw new UrlBlockedError(`The host ${hostname} is not allowed.`);
+  }
+
+  const allowlist = hostList(process.env.FETCH_HOST_ALLOWLIST);
+  if (allowlist.length > 0 && !allowlist.some((pattern) => matchesHost(hostname, pattern))) {
+    throw new UrlBlockedError(`The host ${hostname} is not on the allowlist.`);
+  }
+
+  // Literal IP hosts connect without a DNS lookup, so the agents never see them
+  if (net.isIP(hostname) && !allowPrivateNetworks() && isBlockedAddress(hostname)) {
+    throw new UrlBlockedError(`The address ${hostname} is private or reserved.`);
+  }
+
+  return hostname;
+}
+
+/**
+ * Check a URL completely, including where its host resolves to.
+ * Throws UrlBlockedError, or the DNS error when the host does not resolve.
+ */
+async function assertUrlAllowed(url) {
+  const hostname = checkUrl(url);
+  if (allowPrivateNetworks()) {
+    return;
+  }
+
+  const addresses = await dns.promises.lookup(hostname, { all: true });
+  const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+  if (blocked) {
+    throw new UrlBlockedError(`The host ${hostname} resolves to a private or reserved address.`);
+  }
+}
+
+/**
+ * dns.lookup replacement for the HTTP agents: resolves as usual, then refuses blocked addresses
+ */
+function guardedLookup(hostname, options, callback) {
+  dns.lookup(hostname, options, (error, address, family) => {
+    if (error) {
+      return callback(error);
+    }
+    if (!allowPrivateNetworks()) {
+      const addresses = Array.isArray(address) ? address.map((entry) => entry.address) : [address];
+      if (addresses.some(isBlockedAddress)) {
+        return callback(new UrlBlockedError(`The host ${hostname} resolves to a private or reserved address.`));
+      }
+    }
+    callback(null, address, family);
+  });
+}
+
+const httpAgent = new http.Agent({ lookup: guardedLookup });
+const httpsAgent = new https.Agent({ lookup: guardedLookup });
+
+/**
+ * node-fetch with SSRF checks on the URL and on every redirect hop.
+ * Takes the same options as node-fetch; `redirect: 'manual'` returns 3xx responses as they are.
+ */
+async function safeFetch(url, options = {}) {
+  const followRedirects = options.redirect !== 'manual';
+  let currentUrl = url;
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    checkUrl(currentUrl);
+
+    let response;
+    try {
+      response = await fetch(currentUrl, {
+        ...options,
+        redirect: 'manual',
+        agent: (parsedUrl) => (parsedUrl.protocol === 'http:' ? httpAgent : httpsAgent),
+      });
+    } catch (error) {
+      // node-fetch wraps errors from the lookup; surface the block itself
+      if (error.code === 'URL_BLOCKED') {
+        throw new UrlBlockedError(error.message.replace(/^.*reason: /, ''));
+      }
+      throw error;
+    }
+
+    const location = response.headers.get('location');
+    if (!followRedirects || response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+
+    // The redirect's own body is never read; drain it so its socket is released
+    response.body?.resume();
+    // Relative redirects resolve against the URL that sent them
+    currentUrl = new URL(location, currentUrl).toString();
+    console.log(`[UrlGuard] Following redirect to ${currentUrl}`);
+  }
+
+  throw new Error(`Too many redirects (more than ${MAX_REDIRECTS})`);
+}
+
+module.exports = {
+  assertUrlAllowed,
+  safeFetch,
+  isBlockedAddress,
+  // Exported for testing
+  __internal: {
+    checkUrl,
+    matchesHost,
+    guardedLookup,
+  },
+};
@@ -0,0 +1,513 @@
+/**
+ * The process request schema, shared by every route that splits an image
+ * (/api/ui/process, /api/v1/process, /api/v1/jobs and each item of a batch).
+ *
+ * PROCESS_REQUEST_SCHEMA describes each parameter once: its type, bounds, default and
+ * when it applies. validateProcessRequest checks a request against it and resolves with
+ * values ready for splitImageApi. The first problem found is thrown as a ValidationError
+ * (or a UrlBlockedError) naming the offending field.
+ */
+
+const { assertUrlAllowed } = require('./urlGuard.js');
+const { ValidationError, UrlBlockedError, toApiError } = require('./errors.js');
+const { MAX_BATCH_ITEMS } = require('./limits.js');
+const { PAPER_SIZES, DEFAULT_DPI, DEFAULT_PAGE_MARGIN, pageLayout } = require('./pageLayout.js');
+
+const SPLIT_BY = ['height', 'count', 'aspectRatio', 'grid', 'page'];
+const SPLIT_MODES = ['fixed', 'smart'];
+const OUTPUT_FORMATS = ['png', 'jpeg', 'webp'];
+const TRIM_MODES = ['none', 'auto'];
+
+// Default search window (in pixels) around each target cut in smart mode
+const DEFAULT_SMART_TOLERANCE = 100;
+const MAX_SMART_TOLERANCE = 5000;
+const MAX_CHUNK_COUNT = 500;
+const MAX_GRID_DIVISIONS = 100;
+const MAX_DIMENSION = 10000;
+const MIN_DPI = 72;
+const MAX_DPI = 600;
+// Leaves at least 110mm of printable width on the narrowest sheet
+const MAX_PAGE_MARGIN = 50;
+// Default per-channel difference a pixel may have from the border colour and still be trimmed
+const DEFAULT_TRIM_TOLERANCE = 16;
+
+/**
+ * @typedef {Object} FieldSpec
+ * @property {'url'|'integer'|'enum'|'aspectRatio'|'cuts'|'boolean'} type
+ * @property {string} description
+ * @property {number} [min]
+ * @property {number} [max]
+ * @property {number} [maxItems] - longest accepted list
+ * @property {string} [unit] - unit named in range errors
+ * @property {string[]} [values] - allowed values of an enum
+ * @property {Object<string, string>} [aliases] - other accepted spellings of enum values
+ * @property {*} [default] - used when the parameter is absent
+ * @property {(params: Object, context: Object) => boolean} [appliesWhen] - the parameter is ignored otherwise
+ * @property {(params: Object, context: Object) => boolean} [requiredWhen]
+ */
+
+const isAbsent = (value) => value === undefined || value === null || value === '';
+
+/**
+ * Whether a parameter was sent. An empty cuts field is the empty list, like JSON `[]`,
+ * since forms and query strings have no other way to send one.
+ */
+const isGiven = (spec, value) => (spec.type === 'cuts' ? value !== undefined && value !== null : !isAbsent(value));
+
+/**
+ * Whether the request gives explicit cut positions, which replace every way of planning rows
+ */
+const hasCuts = (params = {}) => params.cuts !== undefined && params.cuts !== null;
+
+/**
+ * Whether the request splits by pixel height, i.e. needs a chunkHeight parameter
+ */
+function requiresChunkHeight(params = {}) {
+  return (params.splitBy || 'height') === 'height' && !hasCuts(params);
+}
+
+const splitBy = (value) => (params) => (params.splitBy || 'height') === value;
+const plannedSplitBy = (value) => (params) => splitBy(value)(params) && !hasCuts(params);
+
+/** @type {Object<string, FieldSpec>} */
+const PROCESS_REQUEST_SCHEMA = {
+  url: {
+    type: 'url',
+    description: 'Direct URL of the source image (omit when uploading a file)',
+    appliesWhen: (params, context) => !context.upload,
+    requiredWhen: (params, context) => !context.upload,
+  },
+  chunkHeight: {
+    type: 'integer',
+    description: 'Target height of each chunk',
+    min: 1,
+    max: MAX_DIMENSION,
+    unit: 'pixels',
+    appliesWhen: requiresChunkHeight,
+    requiredWhen: requiresChunkHeight,
+  },
+  resizeWidth: {
+    type: 'integer',
+    description: 'Resize the image to this width before splitting, keeping its aspect ratio',
+    min: 1,
+    max: MAX_DIMENSION,
+    unit: 'pixels',
+  },
+  trim: {
+    type: 'enum',
+    description: 'auto crops uniform borders (such as white or black bands) off every side before resizing and splitting; none by default',
+    values: TRIM_MODES,
+  },
+  trimTolerance: {
+    type: 'integer',
+    description: 'How far a border pixel may differ from the border colour, per channel (trim auto)',
+    min: 0,
+    max: 255,
+    default: DEFAULT_TRIM_TOLERANCE,
+    appliesWhen: (params) => params.trim === 'auto',
+  },
+  trimTop: {
+    type: 'integer',
+    description: 'Pixels cropped off the top of the source image before anything else',
+    min: 0,
+    max: MAX_DIMENSION,
+    unit: 'pixels',
+  },
+  trimBottom: {
+    type: 'integer',
+    description: 'Pixels cropped off the bottom of the source image before anything else',
+    min: 0,
+    max: MAX_DIMENSION,
+    unit: 'pixels',
+  },
+  trimLeft: {
+    type: 'integer',
+    description: 'Pixels cropped off the left of the source image before anything else',
+    min: 0,
+    max: MAX_DIMENSION,
+    unit: 'pixels',
+  },
+  trimRight: {
+    type: 'integer',
+    description: 'Pixels cropped off the right of the source image before anything else',
+    min: 0,
+    max: MAX_DIMENSION,
+    unit: 'pixels',
+  },
+  splitBy: {
+    type: 'enum',
+    description: 'How chunks are sized: by pixel height, a chunk count, a slide aspect ratio, a grid or printed pages',
+    values: SPLIT_BY,
+    default: 'height',
+  },
+  count: {
+    type: 'integer',
+    description: 'Number of equal chunks (splitBy count)',
+    min: 1,
+    max: MAX_CHUNK_COUNT,
+    appliesWhen: splitBy('count'),
+    requiredWhen: plannedSplitBy('count'),
+  },
+  aspectRatio: {
+    type: 'aspectRatio',
+    description: 'Slide shape as width:height, such as "4:5" (splitBy aspectRatio)',
+    appliesWhen: splitBy('aspectRatio'),
+    requiredWhen: plannedSplitBy('aspectRatio'),
+  },
+  tileWidth: {
+    type: 'integer',
+    description: 'Grid tile width (splitBy grid, instead of columns)',
+    min: 1,
+    max: MAX_DIMENSION,
+    unit: 'pixels',
+    appliesWhen: splitBy('grid'),
+  },
+  columns: {
+    type: 'integer',
+    description: 'Number of equal grid columns (splitBy grid, instead of tileWidth)',
+    min: 1,
+    max: MAX_GRID_DIVISIONS,
+    appliesWhen: splitBy('grid'),
+  },
+  tileHeight: {
+    type: 'integer',
+    description: 'Grid tile height (splitBy grid, instead of rows)',
+    min: 1,
+    max: MAX_DIMENSION,
+    unit: 'pixels',
+    appliesWhen: splitBy('grid'),
+  },
+  rows: {
+    type: 'integer',
+    description: 'Number of equal grid rows (splitBy grid, instead of tileHeight)',
+    min: 1,
+    max: MAX_GRID_DIVISIONS,
+    appliesWhen: splitBy('grid'),
+  },
+  paperSize: {
+    type: 'enum',
+    description: 'Sheet each chunk is printed on (splitBy page)',
+    values: Object.keys(PAPER_SIZES),
+    // No other spellings, but enums with aliases match case-insensitively, so "A4" works too
+    aliases: {},
+    default: 'a4',
+    appliesWhen: splitBy('page'),
+  },
+  dpi: {
+    type: 'integer',
+    description: 'Print resolution: image pixels per inch on paper (splitBy page)',
+    min: MIN_DPI,
+    max: MAX_DPI,
+    default: DEFAULT_DPI,
+    appliesWhen: splitBy('page'),
+  },
+  pageMargin: {
+    type: 'integer',
+    description: 'Margin on every side of the sheet (splitBy page)',
+    min: 0,
+    max: MAX_PAGE_MARGIN,
+    unit: 'millimetres',
+    default: DEFAULT_PAGE_MARGIN,
+    appliesWhen: splitBy('page'),
+  },
+  cuts: {
+    type: 'cuts',
+    description: 'Exact cut positions from the top of the (trimmed and resized) image, replacing the planned rows; cuts outside the image are ignored',
+    min: 1,
+    maxItems: MAX_CHUNK_COUNT - 1,
+    unit: 'pixels',
+  },
+  splitMode: {
+    type: 'enum',
+    description: 'fixed cuts at exact positions, smart moves each cut to the calmest rows nearby',
+    values: SPLIT_MODES,
+    default: 'fixed',
+  },
+  smartTolerance: {
+    type: 'integer',
+    description: 'How far a smart cut may move from its target position',
+    min: 0,
+    max: MAX_SMART_TOLERANCE,
+    unit: 'pixels',
+    default: DEFAULT_SMART_TOLERANCE,
+    appliesWhen: (params) => params.splitMode === 'smart',
+  },
+  outputFormat: {
+    type: 'enum',
+    description: 'Encoding of the chunks',
+    values: OUTPUT_FORMATS,
+    // Accept the common 'jpg' spelling
+    aliases: { jpg: 'jpeg' },
+    default: 'png',
+  },
+  quality: {
+    type: 'integer',
+    description: 'Quality of jpeg and webp chunks',
+    min: 1,
+    max: 100,
+  },
+  overlap: {
+    type: 'integer',
+    description: 'Pixels of the previous chunk repeated at the start of each following one; smaller than the chunk size',
+    min: 0,
+    unit: 'pixels',
+  },
+  callbackUrl: {
+    type: 'url',
+    description: 'Run as a job and POST the signed outcome to this URL',
+  },
+  noCache: {
+    type: 'boolean',
+    description: 'Split the image again instead of serving a cached result',
+    default: false,
+  },
+};
+
+const SPLIT_OPTION_FIELDS = [
+  'trim', 'trimTolerance', 'trimTop', 'trimBottom', 'trimLeft', 'trimRight', 'splitBy', 'count', 'aspectRatio', 'tileWidth', 'columns', 'tileHeight', 'rows',
+  'paperSize', 'dpi', 'pageMargin', 'cuts', 'splitMode', 'smartTolerance', 'outputFormat', 'quality', 'overlap',
+];
+
+/**
+ * Parse an aspect ratio given as "4:5", "4/5", "4x5" or a plain number (width / height)
+ */
+function parseAspectRatio(value) {
+  const match = String(value).trim().match(/^(\d+(?:\.\d+)?)\s*[:/x]\s*(\d+(?:\.\d+)?)$/i);
+  const ratio = match ? Number(match[1]) / Number(match[2]) : Number(value);
+  return Number.isFinite(ratio) && ratio >= 0.01 && ratio <= 100 ? ratio : null;
+}
+
+function rangeMessage(name, spec) {
+  const unit = spec.unit ? ` ${spec.unit}` : '';
+  return spec.max === undefined
+    ? `Invalid ${name}: must be ${spec.min} or more${unit}.`
+    : `Invalid ${name}: must be between ${spec.min} and ${spec.max}${unit}.`;
+}
+
+/**
+ * Parse one present parameter according to its spec
+ */
+function parseField(name, spec, value) {
+  const invalid = (message, details) => new ValidationError(message, { field: name, details });
+
+  switch (spec.type) {
+    case 'integer': {
+      const parsed = parseInt(value, 10);
+      if (isNaN(parsed) || parsed < spec.min || (spec.max !== undefined && parsed > spec.max)) {
+        throw invalid(rangeMessage(name, spec), { min: spec.min, max: spec.max ?? null });
+      }
+      return parsed;
+    }
+    case 'enum': {
+      const normalized = spec.aliases ? String(value).toLowerCase() : String(value);
+      const parsed = spec.aliases?.[normalized] || normalized;
+      if (!spec.values.includes(parsed)) {
+        throw invalid(`Invalid ${name}: must be one of ${spec.values.join(', ')}.`, { allowed: spec.values });
+      }
+      return parsed;
+    }
+    case 'aspectRatio': {
+      const ratio = parseAspectRatio(value);
+      if (ratio === null) {
+        throw invalid(`Invalid ${name}: use a width:height pair such as "4:5".`);
+      }
+      return ratio;
+    }
+    case 'url': {
+      let protocol;
+      try {
+        protocol = new URL(value).protocol;
+      } catch (error) {
+        throw invalid(`Invalid ${name} format`);
+      }
+      if (!['http:', 'https:'].includes(protocol)) {
+        throw invalid(`Invalid ${name} protocol: only http and https are allowed.`);
+      }
+      return value;
+    }
+    case 'cuts': {
+      // A JSON array, or a comma-separated list from forms and query strings
+      const list = Array.isArray(value) ? value : String(value).trim() === '' ? [] : String(value).split(',');
+      const cuts = list.map((cut) => Number(String(cut).trim()));
+      if (cuts.some((cut) => !Number.isInteger(cut) || cut < spec.min)) {
+        throw invalid(`Invalid ${name}: must be a list of offsets of ${spec.min} or more ${spec.unit}, such as "800,1600".`, { min: spec.min });
+      }
+      if (cuts.length > spec.maxItems) {
+        throw invalid(`Invalid ${name}: at most ${spec.maxItems} cuts are allowed.`, { maxItems: spec.maxItems });
+      }
+      return [...new Set(cuts)].sort((a, b) => a - b);
+    }
+    case 'boolean': {
+      // Multipart forms and query strings send strings
+      if ([true, 'true', '1'].includes(value)) {
+        return true;
+      }
+      if ([false, 'false', '0'].includes(value)) {
+        return false;
+      }
+      throw invalid(`Invalid ${name}: must be true or false.`);
+    }
+    default:
+      throw new Error(`Unknown field type ${spec.type} for ${name}`);
+  }
+}
+
+/**
+ * Validate the named parameters against the schema. Parameters that don't apply are
+ * skipped, absent ones get their default.
+ * @returns {Object<string, *>} the parsed values, by parameter name
+ */
+function validateFields(names, params, context = {}) {
+  const values = {};
+  for (const name of names) {
+    const spec = PROCESS_REQUEST_SCHEMA[name];
+    if (spec.appliesWhen && !spec.appliesWhen(params, context)) {
+      continue;
+    }
+    if (isGiven(spec, params[name])) {
+      values[name] = parseField(name, spec, params[name]);
+    } else if (spec.requiredWhen && spec.requiredWhen(params, context)) {
+      const hint = name === 'url' ? ' (or an uploaded file)' : '';
+      throw new ValidationError(`Missing required parameter: ${name}${hint}`, { field: name, code: 'MISSING_PARAMETER' });
+    } else if (spec.default !== undefined) {
+      values[name] = spec.default;
+    }
+  }
+  return values;
+}
+
+/**
+ * Validate the split options of a request, returning them ready for splitImageApi.
+ * `context.chunkHeight` is the already validated chunk height, which bounds the overlap.
+ */
+function validateSplitOptions(params = {}, context = {}) {
+  const options = validateFields(SPLIT_OPTION_FIELDS, params, context);
+
+  // Each grid axis takes a tile size or a number of divisions; the size wins if both are sent.
+  // Explicit cuts take the place of the rows.
+  if (options.splitBy === 'grid') {
+    const axes = options.cuts ? [['tileWidth', 'columns']] : [['tileWidth', 'columns'], ['tileHeight', 'rows']];
+    for (const [sizeName, countName] of axes) {
+      if (options[sizeName] !== undefined) {
+        delete options[countName];
+      } else if (options[countName] === undefined) {
+        throw new ValidationError(`Grid tiling requires either ${sizeName} or ${countName}.`, {
+          field: sizeName,
+          code: 'MISSING_PARAMETER',
+        });
+      }
+    }
+  }
+
+  // The overlap must leave at least one new row (and column) per chunk
+  if (options.overlap !== undefined) {
+    // A page split makes chunks as tall as the printable area
+    const pageHeight = options.splitBy === 'page' ? pageLayout(options).printableHeight : null;
+    const tileSizes = [context.chunkHeight, options.tileWidth, options.tileHeight, pageHeight].filter(Boolean);
+    const maxOverlap = tileSizes.length ? Math.min(...tileSizes) - 1 : Infinity;
+    if (options.overlap > maxOverlap) {
+      throw new ValidationError('Invalid overlap: must be 0 or more and smaller than the chunk size.', {
+        field: 'overlap',
+        details: { min: 0, max: maxOverlap },
+      });
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Reject URLs the server must not contact before any work starts.
+ * The same checks run again on every connection; this just fails fast with a clear error.
+ */
+async function checkOutgoingUrl(url, field) {
+  try {
+    await assertUrlAllowed(url);
+  } catch (error) {
+    if (error instanceof UrlBlockedError) {
+      throw new UrlBlockedError(`Blocked ${field}: ${error.message}`, { field });
+    }
+    // DNS failures are reported by the fetch itself
+  }
+}
+
+/**
+ * Validate a split request (JSON body, form fields or query string plus an optional upload).
+ * Resolves with `{ source, height, width, options, callbackUrl, noCache }` ready for splitImageApi.
+ * @returns {Promise<{ source: string|Buffer, height: number|null, width: number|null, options: Object<string, *>, callbackUrl: string|null, noCache: boolean }>}
+ */
+async function validateProcessRequest(req) {
+  const params = req.body || {};
+  const upload = req.uploadedImage;
+
+  const values = validateFields(['url', 'chunkHeight', 'resizeWidth', 'callbackUrl', 'noCache'], params, { upload });
+  const options = validateSplitOptions(params, { chunkHeight: values.chunkHeight });
+
+  for (const field of ['url', 'callbackUrl']) {
+    if (values[field]) {
+      await checkOutgoingUrl(values[field], field);
+    }
+  }
+
+  return {
+    source: upload ? upload.buffer : values.url,
+    height: values.chunkHeight ?? null,
+    width: values.resizeWidth ?? null,
+    options: { ...options, fileName: upload ? upload.fileName : undefined },
+    callbackUrl: values.callbackUrl || null,
+    noCache: values.noCache,
+  };
+}
+
+/**
+ * Validate a batch request: `{ items, ...shared }`, where each item is an image URL or the
+ * parameters of one split, laid over the shared parameters. Only the batch itself has to be
+ * well formed; an invalid item fails on its own, so every item resolves with
+ * `{ index, url, request }` (as from validateProcessRequest) or `{ index, url, error }`.
+ */
+async function validateBatchRequest(req) {
+  const { items, ...shared } = req.body || {};
+
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new ValidationError('items must be a non-empty array of image URLs or split parameters.', {
+      field: 'items',
+      code: items === undefined ? 'MISSING_PARAMETER' : 'INVALID_PARAMETER',
+    });
+  }
+  if (items.length > MAX_BATCH_ITEMS) {
+    throw new ValidationError(`A batch can hold at most ${MAX_BATCH_ITEMS} images.`, {
+      field: 'items',
+      details: { max: MAX_BATCH_ITEMS },
+    });
+  }
+
+  return Promise.all(
+    items.map(async (item, index) => {
+      const params = typeof item === 'string' ? { ...shared, url: item } : { ...shared, ...item };
+      const url = typeof params.url === 'string' ? params.url : null;
+      try {
+        // Batches answer in the same response, so there is nothing to call back
+        if (!isAbsent(params.callbackUrl)) {
+          throw new ValidationError('callbackUrl is not supported in a batch.', { field: 'callbackUrl' });
+        }
+        return { index, url, request: await validateProcessRequest({ body: params }) };
+      } catch (error) {
+        return { index, url, error: toApiError(error) };
+      }
+    })
+  );
+}
+
+module.exports = {
+  PROCESS_REQUEST_SCHEMA,
+  SPLIT_BY,
+  SPLIT_MODES,
+  OUTPUT_FORMATS,
+  DEFAULT_SMART_TOLERANCE,
+  MAX_CHUNK_COUNT,
+  validateProcessRequest,
+  validateBatchRequest,
+  validateSplitOptions,
+  parseAspectRatio,
+  requiresChunkHeight,
+};
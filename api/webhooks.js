@@ -0,0 +1,140 @@
+/**
+ * Signed webhook callbacks for SplitStream
+ *
+ * When a caller passes `callbackUrl`, the outcome of the split is POSTed to it as JSON.
+ * Every delivery is signed so receivers can check it came from this deployment:
+ *
+ *   X-SplitStream-Timestamp: <unix seconds>
+ *   X-SplitStream-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>">
+ *
+ * The HMAC key is WEBHOOK_SECRET, or a key derived from API_KEY when that is not set;
+ * with neither configured, requests that pass `callbackUrl` are refused up front.
+ * Non-2xx responses and network errors are retried with exponential backoff, all within
+ * WEBHOOK_DELIVERY_BUDGET_MS, so delivery ends before the function's maxDuration does.
+ */
+
+const crypto = require('crypto');
+const { safeFetch } = require('./urlGuard.js');
+const { UrlBlockedError, ValidationError } = require('./errors.js');
+
+const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS, 10) || 5;
+const WEBHOOK_RETRY_BASE_MS = 1000;
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+// Time all attempts of one delivery may take together; the job and the delivery share
+// the 60 s maxDuration in vercel.json, and waitUntil is ended with the function
+const WEBHOOK_DELIVERY_BUDGET_MS = parseInt(process.env.WEBHOOK_DELIVERY_BUDGET_MS, 10) || 20000;
+
+/**
+ * The per-deployment signing key
+ */
+function getWebhookSecret() {
+  if (process.env.WEBHOOK_SECRET) {
+    return process.env.WEBHOOK_SECRET;
+  }
+  if (!process.env.API_KEY) {
+    throw new Error('WEBHOOK_SECRET or API_KEY must be set to sign webhooks');
+  }
+  // Derive a separate key so the API key itself is never used as an HMAC key
+  return crypto.createHmac('sha256', process.env.API_KEY).update('splitstream-webhooks').digest('hex');
+}
+
+/**
+ * Throw a ValidationError for `callbackUrl` when there is no key to sign callbacks with,
+ * so the request fails before a job is created rather than at delivery time
+ */
+function assertWebhooksConfigured() {
+  if (!process.env.WEBHOOK_SECRET && !process.env.API_KEY) {
+    throw new ValidationError('Invalid callbackUrl: webhooks are not available because this server has no WEBHOOK_SECRET or API_KEY to sign them with.', { field: 'callbackUrl' });
+  }
+}
+
+/**
+ * Signature header value for a raw body sent at the given timestamp
+ */
+function signPayload(body, timestamp, secret = getWebhookSecret()) {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * POST a JSON payload to a callback URL, retrying on failure until maxAttempts or the
+ * budget runs out. Resolves with `{ delivered, attempts, status }`; it never throws.
+ */
+async function deliverWebhook(
+  url,
+  payload,
+  { maxAttempts = WEBHOOK_MAX_ATTEMPTS, baseDelayMs = WEBHOOK_RETRY_BASE_MS, budgetMs = WEBHOOK_DELIVERY_BUDGET_MS } = {}
+) {
+  const body = JSON.stringify(payload);
+  const deadline = Date.now() + budgetMs;
+  let status = null;
+  let attempts = 0;
+
+  // A missing key is a configuration problem that no retry will fix
+  let secret;
+  try {
+    secret = getWebhookSecret();
+  } catch (error) {
+    console.error(`[Webhooks] Not delivering to ${url}: ${error.message}`);
+    return { delivered: false, attempts: 0, status: null };
+  }
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    attempts = attempt;
+    // Sign each attempt separately so the timestamp reflects when it was sent
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+
+    try {
+      const response = await safeFetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'SplitStream-Webhooks/1.0',
+          'X-SplitStream-Timestamp': timestamp,
+          'X-SplitStream-Signature': signPayload(body, timestamp, secret),
+          'X-SplitStream-Attempt': attempt.toString(),
+        },
+        body,
+        // An attempt never runs past the budget
+        timeout: Math.max(1, Math.min(WEBHOOK_TIMEOUT_MS, deadline - Date.now())),
+        // A redirect would turn the POST into a GET elsewhere, so treat it as a failed delivery
+        redirect: 'manual',
+      });
+      status = response.status;
+
+      if (response.ok) {
+        console.log(`[Webhooks] Delivered to ${url} (attempt ${attempt})`);
+        return { delivered: true, attempts: attempt, status };
+      }
+      console.warn(`[Webhooks] ${url} answered HTTP ${status} (attempt ${attempt}/${maxAttempts})`);
+    } catch (error) {
+      // Callbacks to private or denied hosts are never sent, no matter how often we try
+      if (error instanceof UrlBlockedError) {
+        console.error(`[Webhooks] Not delivering to ${url}: ${error.message}`);
+        return { delivered: false, attempts: attempt, status: null };
+      }
+      status = null;
+      console.warn(`[Webhooks] Delivery to ${url} failed (attempt ${attempt}/${maxAttempts}): ${error.message}`);
+    }
+
+    // Exponential backoff: 1s, 2s, 4s, ... as long as the next attempt starts within the budget
+    const delay = baseDelayMs * 2 ** (attempt - 1);
+    if (attempt === maxAttempts || Date.now() + delay >= deadline) {
+      break;
+    }
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+
+  console.error(`[Webhooks] Giving up on ${url} after ${attempts} attempts`);
+  return { delivered: false, attempts, status };
+}
+
+module.exports = {
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_DELIVERY_BUDGET_MS,
+  getWebhookSecret,
+  assertWebhooksConfigured,
+  signPayload,
+  deliverWebhook,
+};
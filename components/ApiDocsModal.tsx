@@ -1,17 +1,39 @@
-import React, { useState } from 'react';
-import { X, Terminal, Copy, Check, Key, Shield } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Terminal, Copy, Check, Key, Shield, ChevronDown } from 'lucide-react';
 import { useTheme } from '../contexts/ThemeContext';
+import { ApiOperation, OpenApiSpec, SnippetLanguage, buildSnippet, fetchApiSpec, listOperations } from '../services/apiSpec';
 
 interface ApiDocsModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
+const SNIPPET_LANGUAGES: { id: SnippetLanguage; label: string }[] = [
+  { id: 'curl', label: 'curl' },
+  { id: 'fetch', label: 'fetch' },
+  { id: 'python', label: 'Python' },
+];
+
 export const ApiDocsModal: React.FC<ApiDocsModalProps> = ({ isOpen, onClose }) => {
   const { themeColor } = useTheme();
-  
+  // undefined while loading, null when the server has no description to offer
+  const [spec, setSpec] = useState<OpenApiSpec | null | undefined>(undefined);
+  const [openOperation, setOpenOperation] = useState<string | null>('processImage');
+  const [language, setLanguage] = useState<SnippetLanguage>('curl');
+
+  useEffect(() => {
+    if (isOpen && spec === undefined) {
+      fetchApiSpec().then(setSpec);
+    }
+  }, [isOpen, spec]);
+
+  const operations = useMemo(() => (spec ? listOperations(spec) : []), [spec]);
+
   if (!isOpen) return null;
 
+  const apiKeyScheme = spec?.components.securitySchemes.ApiKey;
+  const errorCodes: string[] = spec?.components.schemas.Error?.properties?.code?.enum ?? [];
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4 sm:p-6">
       {/* Backdrop */}
@@ -31,7 +53,10 @@ export const ApiDocsModal: React.FC<ApiDocsModalProps> = ({ isOpen, onClose }) =
             </div>
             <div>
               <h2 className="text-xl font-semibold text-zinc-900 dark:text-white">API Documentation</h2>
-              <p className="text-sm text-zinc-500 dark:text-zinc-400">Server-side integration reference</p>
+              <p className="text-sm text-zinc-500 dark:text-zinc-400">
+                {spec ? `${spec.info.title} ${spec.info.version} · ` : ''}
+                <a href="/api/openapi.json" target="_blank" rel="noreferrer" className="underline hover:text-zinc-900 dark:hover:text-white">OpenAPI spec</a>
+              </p>
             </div>
           </div>
           <button 
@@ -45,90 +70,162 @@ export const ApiDocsModal: React.FC<ApiDocsModalProps> = ({ isOpen, onClose }) =
         {/* Content - Uses global scrollbar styles */}
         <div className="flex-1 overflow-y-auto p-6 space-y-8 bg-white dark:bg-zinc-900">
 
-          {/* Public API Quick Start Section */}
-          <section className="space-y-4 p-4 rounded-lg bg-amber-50 dark:bg-amber-400/10 border-2 border-amber-200 dark:border-amber-800">
-            <div className="flex items-center gap-2 text-amber-900 dark:text-amber-300 font-medium text-lg">
-              <Terminal className="w-5 h-5" />
-              <h3>🚀 Quick Start - Try it Now!</h3>
-            </div>
-            <p className="text-amber-800 dark:text-amber-200 text-sm">
-              Use these credentials to test the API immediately. Rate limit: <strong>10 requests/hour per IP</strong> (Fair use only).
-            </p>
-            <div className="space-y-2 text-sm font-mono">
-              <div><span className="text-amber-700 dark:text-amber-300">Domain:</span> <span className="text-amber-900 dark:text-amber-100">https://split-stream-image-cropper.vercel.app</span></div>
-              <div><span className="text-amber-700 dark:text-amber-300">API Key:</span> <span className="text-amber-900 dark:text-amber-100">u6wc2eEJRPdQaMdoGYetvgzs</span></div>
-            </div>
-            <p className="text-xs text-amber-700 dark:text-amber-300 italic">
-              For production use or higher limits, clone this repository and host your own instance.
-            </p>
-          </section>
-
-          {/* Authentication Section */}
-          <section className="space-y-4">
-            <div className="flex items-center gap-2 text-zinc-900 dark:text-white font-medium text-lg">
-              <Shield className="w-5 h-5 text-emerald-500" />
-              <h3>Authentication</h3>
-            </div>
-            <p className="text-zinc-600 dark:text-zinc-400 text-sm leading-relaxed">
-              All API requests require valid authentication. You must include your API key in the HTTP headers of every request. 
-              The server expects the header key to be <code className="text-emerald-700 dark:text-emerald-300 bg-emerald-100 dark:bg-emerald-400/10 px-1.5 py-0.5 rounded text-xs">API_KEY</code>.
-            </p>
-            
-            <div className="bg-zinc-50 dark:bg-zinc-950 border border-zinc-200 dark:border-zinc-800 rounded-lg p-4">
-               <div className="flex items-center gap-3 text-sm">
-                 <Key className="w-4 h-4 text-zinc-500" />
-                 <span className="text-zinc-500 dark:text-zinc-400">Environment Variable:</span>
-                 <code className={`text-${themeColor}-600 dark:text-${themeColor}-300 bg-${themeColor}-100 dark:bg-${themeColor}-400/10 px-2 py-1 rounded font-mono`}>API_KEY</code>
-               </div>
-               <p className="text-xs text-zinc-500 mt-2 ml-7">
-                 Ensure this environment variable is set in your deployment configuration.
-               </p>
-            </div>
-          </section>
+          {spec === undefined && <p className="text-sm text-zinc-500">Loading the API description...</p>}
+          {spec === null && <p className="text-sm text-red-500">The API description could not be loaded from /api/openapi.json.</p>}
 
-          {/* Endpoints Section */}
-          <section className="space-y-4">
-            <div className="flex items-center gap-2 text-zinc-900 dark:text-white font-medium text-lg">
-              <Terminal className="w-5 h-5 text-blue-500" />
-              <h3>Endpoint: Process Image</h3>
-            </div>
-            
-            <div className="flex items-center gap-3 bg-zinc-50 dark:bg-zinc-950 border border-zinc-200 dark:border-zinc-800 rounded-lg p-3 font-mono text-sm">
-              <span className="text-emerald-600 dark:text-emerald-400 font-bold">POST</span>
-              <span className="text-zinc-700 dark:text-zinc-300">/api/v1/process</span>
+          {spec && (
+            <>
+              {/* Authentication Section */}
+              <section className="space-y-4">
+                <div className="flex items-center gap-2 text-zinc-900 dark:text-white font-medium text-lg">
+                  <Shield className="w-5 h-5 text-emerald-500" />
+                  <h3>Authentication</h3>
+                </div>
+                <p className="text-zinc-600 dark:text-zinc-400 text-sm leading-relaxed">
+                  Operations marked with a key need the{' '}
+                  <code className="text-emerald-700 dark:text-emerald-300 bg-emerald-100 dark:bg-emerald-400/10 px-1.5 py-0.5 rounded text-xs">{apiKeyScheme?.name}</code>{' '}
+                  header: {apiKeyScheme?.description}.
+                </p>
+                <div className="bg-zinc-50 dark:bg-zinc-950 border border-zinc-200 dark:border-zinc-800 rounded-lg p-4">
+                   <div className="flex items-center gap-3 text-sm">
+                     <Key className="w-4 h-4 text-zinc-500" />
+                     <span className="text-zinc-500 dark:text-zinc-400">Self-hosting:</span>
+                     <code className={`text-${themeColor}-600 dark:text-${themeColor}-300 bg-${themeColor}-100 dark:bg-${themeColor}-400/10 px-2 py-1 rounded font-mono`}>npm run keys -- create &lt;name&gt;</code>
+                   </div>
+                   <p className="text-xs text-zinc-500 mt-2 ml-7">
+                     Creates a named key and prints it once. The <code className="text-zinc-500">API_KEY</code> environment variable also still works.
+                   </p>
+                </div>
+              </section>
+
+              {/* Operations Section */}
+              <section className="space-y-4">
+                <div className="flex items-center gap-2 text-zinc-900 dark:text-white font-medium text-lg">
+                  <Terminal className="w-5 h-5 text-blue-500" />
+                  <h3>Endpoints</h3>
+                </div>
+                <div className="space-y-2">
+                  {operations.map((operation) => (
+                    <OperationCard
+                      key={operation.id}
+                      operation={operation}
+                      isOpen={openOperation === operation.id}
+                      onToggle={() => setOpenOperation(openOperation === operation.id ? null : operation.id)}
+                      language={language}
+                      onLanguageChange={setLanguage}
+                    />
+                  ))}
+                </div>
+              </section>
+
+              {/* Headers Section */}
+              <section className="space-y-4">
+                <h3 className="text-zinc-900 dark:text-white font-medium text-lg">Response Headers</h3>
+                <div className="grid grid-cols-1 gap-2">
+                  {Object.entries(spec.components.headers).map(([name, header]) => (
+                    <ParamRow key={name} name={name} type={header.schema?.enum?.join(' | ') ?? header.schema?.type} desc={header.description} />
+                  ))}
+                </div>
+              </section>
+
+              {/* Errors Section */}
+              <section className="space-y-4">
+                <h3 className="text-zinc-900 dark:text-white font-medium text-lg">Errors</h3>
+                <p className="text-zinc-600 dark:text-zinc-400 text-sm leading-relaxed">
+                  Failures always answer with <code className="text-zinc-500">{'{ error: { code, message, field, details } }'}</code>. Branch on{' '}
+                  <code className="text-zinc-500">code</code>; <code className="text-zinc-500">field</code> names the parameter at fault, and the
+                  message is safe to show to people.
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {errorCodes.map((code) => (
+                    <code key={code} className="text-xs font-mono text-zinc-600 dark:text-zinc-300 bg-zinc-100 dark:bg-zinc-800 px-2 py-1 rounded">{code}</code>
+                  ))}
+                </div>
+              </section>
+            </>
+          )}
+
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface OperationCardProps {
+  operation: ApiOperation;
+  isOpen: boolean;
+  onToggle: () => void;
+  language: SnippetLanguage;
+  onLanguageChange: (language: SnippetLanguage) => void;
+}
+
+const OperationCard: React.FC<OperationCardProps> = ({ operation, isOpen, onToggle, language, onLanguageChange }) => {
+  const { themeColor } = useTheme();
+  return (
+    <div className="border border-zinc-200 dark:border-zinc-800 rounded-lg overflow-hidden">
+      <button
+        onClick={onToggle}
+        className="w-full flex flex-wrap items-center gap-3 bg-zinc-50 dark:bg-zinc-950 p-3 font-mono text-sm text-left hover:bg-zinc-100 dark:hover:bg-zinc-900 transition-colors"
+      >
+        <span className={`font-bold ${operation.method === 'POST' ? 'text-emerald-600 dark:text-emerald-400' : 'text-blue-600 dark:text-blue-400'}`}>{operation.method}</span>
+        <span className="text-zinc-700 dark:text-zinc-300">{operation.path}</span>
+        {operation.requiresKey && <Key className="w-3.5 h-3.5 text-zinc-400" />}
+        <span className="text-xs text-zinc-500 font-sans">{operation.summary}</span>
+        <ChevronDown className={`w-4 h-4 ml-auto text-zinc-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="p-4 space-y-4">
+          {operation.description && <p className="text-sm text-zinc-600 dark:text-zinc-400 leading-relaxed">{operation.description}</p>}
+
+          {operation.parameters.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium text-zinc-700 dark:text-zinc-300">Parameters</h4>
+              <div className="grid grid-cols-1 gap-2">
+                {operation.parameters.map((parameter) => (
+                  <ParamRow key={parameter.name} name={parameter.name} type={parameter.type} required={parameter.required} desc={parameter.description} />
+                ))}
+              </div>
             </div>
+          )}
 
-            <div className="space-y-3">
-               <h4 className="text-sm font-medium text-zinc-700 dark:text-zinc-300">Request Body (JSON)</h4>
-               <div className="grid grid-cols-1 gap-2">
-                 <ParamRow name="url" type="string" required desc="Direct URL of the source image to split." />
-                 <ParamRow name="chunkHeight" type="integer" required desc="Target height for each image chunk in pixels." />
-                 <ParamRow name="resizeWidth" type="integer" desc="Resize image before splitting (maintains aspect ratio)." />
-               </div>
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium text-zinc-700 dark:text-zinc-300">Responses</h4>
+            <div className="space-y-1 text-sm">
+              {operation.responses.map((response) => (
+                <div key={response.status} className="flex gap-3">
+                  <span className={`font-mono shrink-0 ${response.status.startsWith('2') ? 'text-emerald-600 dark:text-emerald-400' : 'text-zinc-500'}`}>{response.status}</span>
+                  <span className="text-zinc-600 dark:text-zinc-400">
+                    {response.description}
+                    {response.status.startsWith('2') && response.contentTypes.length > 1 && (
+                      <span className="text-xs text-zinc-500 font-mono"> ({response.contentTypes.join(', ')})</span>
+                    )}
+                  </span>
+                </div>
+              ))}
             </div>
-          </section>
-
-          {/* Examples Section */}
-          <section className="space-y-4">
-            <h3 className="text-zinc-900 dark:text-white font-medium text-lg">Example Request</h3>
-            <CodeBlock
-              language="bash"
-              code={`curl -X POST https://split-stream-image-cropper.vercel.app/api/v1/process \\
-  -H "Content-Type: application/json" \\
-  -H "API_KEY: u6wc2eEJRPdQaMdoGYetvgzs" \\
-  -d '{
-    "url": "https://example.com/large-image.jpg",
-    "chunkHeight": 1200,
-    "resizeWidth": 1280
-  }'`}
-            />
-             <p className="text-xs text-zinc-500 mt-2">
-                <strong>For self-hosted instances:</strong> Replace the domain with your hosted URL and the API key with your <code className="text-zinc-500">API_KEY</code> environment variable.
-            </p>
-          </section>
+          </div>
 
+          <div className="space-y-2">
+            <div className="flex gap-1">
+              {SNIPPET_LANGUAGES.map(({ id, label }) => (
+                <button
+                  key={id}
+                  onClick={() => onLanguageChange(id)}
+                  className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+                    language === id
+                      ? `bg-${themeColor}-500/10 text-${themeColor}-600 dark:text-${themeColor}-300`
+                      : 'text-zinc-500 hover:text-zinc-900 dark:hover:text-white'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <CodeBlock language={language} code={buildSnippet(operation, language, window.location.origin)} />
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
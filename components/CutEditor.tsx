@@ -0,0 +1,158 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ProcessingResult } from '../types';
+import { Scissors, RotateCcw, X } from 'lucide-react';
+import { useTheme } from '../contexts/ThemeContext';
+
+// Matches the server's limit of 500 chunks per split
+const MAX_CUTS = 499;
+
+interface CutEditorProps {
+  result: ProcessingResult;
+  /** Split again with exactly these cuts; with none the image comes back as one chunk */
+  onApply: (cuts: number[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Where a result was cut: the start of every row of chunks after the first, without overlap
+ */
+export const getResultCuts = (result: ProcessingResult) =>
+  [...new Set(result.chunks.filter((chunk) => chunk.column === 0 && chunk.nominalYOffset > 0).map((chunk) => chunk.nominalYOffset))]
+    .sort((a, b) => a - b);
+
+/**
+ * Full-length preview of a split with its cut lines. Lines can be dragged, clicking the
+ * image adds one and the x on a line removes it; the edited list is then split again.
+ */
+export const CutEditor: React.FC<CutEditorProps> = ({ result, onApply, disabled }) => {
+  const { themeColor } = useTheme();
+  const previewRef = useRef<HTMLDivElement>(null);
+  const [cuts, setCuts] = useState(() => getResultCuts(result));
+  const [dragging, setDragging] = useState<number | null>(null);
+  const { totalWidth, totalHeight } = result;
+
+  // A new result brings its own cuts
+  useEffect(() => {
+    setCuts(getResultCuts(result));
+  }, [result]);
+
+  const original = getResultCuts(result);
+  const isChanged = cuts.length !== original.length || cuts.some((cut, index) => cut !== original[index]);
+
+  /**
+   * Image row under the pointer
+   */
+  const rowAt = (clientY: number) => {
+    const rect = previewRef.current!.getBoundingClientRect();
+    return Math.round(((clientY - rect.top) / rect.height) * totalHeight);
+  };
+
+  const handleAdd = (e: React.MouseEvent) => {
+    const y = rowAt(e.clientY);
+    if (y > 0 && y < totalHeight && !cuts.includes(y) && cuts.length < MAX_CUTS) {
+      setCuts([...cuts, y].sort((a, b) => a - b));
+    }
+  };
+
+  const handleDrag = (e: React.PointerEvent, index: number) => {
+    if (dragging !== index) return;
+    // A cut can't pass its neighbours, so the order never changes while dragging
+    const min = (cuts[index - 1] ?? 0) + 1;
+    const max = (cuts[index + 1] ?? totalHeight) - 1;
+    const y = Math.min(max, Math.max(min, rowAt(e.clientY)));
+    setCuts(cuts.map((cut, i) => (i === index ? y : cut)));
+  };
+
+  const handleRemove = (index: number) => setCuts(cuts.filter((cut, i) => i !== index));
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <div className="flex items-center justify-between gap-4 mb-3 flex-shrink-0">
+        <p className="text-xs text-zinc-500 dark:text-zinc-400">
+          Drag a line to move a cut, click the image to add one, or remove one with its x.
+        </p>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <button
+            type="button"
+            onClick={() => setCuts(original)}
+            disabled={!isChanged}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium border border-zinc-200 dark:border-zinc-800 text-zinc-600 dark:text-zinc-400 hover:border-zinc-400 dark:hover:border-zinc-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RotateCcw className="w-3.5 h-3.5" /> Reset
+          </button>
+          <button
+            type="button"
+            onClick={() => onApply(cuts)}
+            disabled={disabled || !isChanged}
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-white transition-all active:scale-95 ${
+              disabled || !isChanged
+                ? 'bg-zinc-400 cursor-not-allowed'
+                : `bg-${themeColor}-600 hover:bg-${themeColor}-500`
+            }`}
+          >
+            <Scissors className="w-3.5 h-3.5" /> Re-split into {cuts.length + 1} {cuts.length === 0 ? 'chunk' : 'chunks'}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto min-h-0 pointer-events-auto">
+        <div
+          ref={previewRef}
+          onClick={handleAdd}
+          className="relative w-full max-w-md mx-auto cursor-crosshair select-none bg-zinc-100 dark:bg-zinc-950 shadow-sm"
+          style={{ aspectRatio: `${totalWidth} / ${totalHeight}` }}
+        >
+          {/* The chunks laid back out where they came from; overlapping parts are the same pixels */}
+          {result.chunks.map((chunk) => (
+            <img
+              key={chunk.id}
+              src={chunk.dataUrl}
+              alt=""
+              draggable={false}
+              className="absolute pointer-events-none"
+              style={{
+                left: `${(chunk.xOffset / totalWidth) * 100}%`,
+                top: `${(chunk.yOffset / totalHeight) * 100}%`,
+                width: `${(chunk.width / totalWidth) * 100}%`,
+                height: `${(chunk.height / totalHeight) * 100}%`,
+              }}
+            />
+          ))}
+
+          {cuts.map((cut, index) => (
+            <div
+              key={index}
+              onClick={(e) => e.stopPropagation()}
+              onPointerDown={(e) => {
+                e.currentTarget.setPointerCapture(e.pointerId);
+                setDragging(index);
+              }}
+              onPointerMove={(e) => handleDrag(e, index)}
+              onPointerUp={() => setDragging(null)}
+              className="absolute inset-x-0 h-3 -translate-y-1/2 cursor-row-resize group flex items-center touch-none"
+              style={{ top: `${(cut / totalHeight) * 100}%` }}
+            >
+              <div
+                className={`w-full border-t-2 border-dashed ${
+                  dragging === index ? `border-${themeColor}-400` : `border-${themeColor}-500 group-hover:border-${themeColor}-400`
+                }`}
+              />
+              <span className={`absolute right-1 flex items-center gap-1 pl-1.5 pr-0.5 py-0.5 rounded bg-${themeColor}-600 text-white text-[10px] font-medium shadow`}>
+                {cut}px
+                <button
+                  type="button"
+                  onPointerDown={(e) => e.stopPropagation()}
+                  onClick={() => handleRemove(index)}
+                  aria-label={`Remove the cut at ${cut}px`}
+                  className="p-0.5 rounded hover:bg-white/20"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,26 +1,136 @@
-import React, { useState } from 'react';
-import { ProcessStatus } from '../types';
-import { Layers, Link, AlertCircle, Scaling } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { BatchItem, ImageSource, OutputFormat, PaperSize, ProcessStatus, SplitBy, SplitMode, SplitOptions, TrimMode } from '../types';
+import { formatBytes } from '../services/imageProcessor';
+import { PAPER_SIZES } from '../api/pageLayout.js';
+import { Layers, Link, AlertCircle, Scaling, Wand2, Upload, X, FileImage, Rows3, ListChecks, Clock, Loader2, CheckCircle2, Crop } from 'lucide-react';
 import { useTheme } from '../contexts/ThemeContext';
 
+// Matches the server's default MAX_BATCH_ITEMS
+const MAX_BATCH_URLS = 50;
+
 interface InputPanelProps {
-  onProcess: (url: string, chunkHeight: number, resizeWidth: number | null) => void;
+  onProcess: (source: ImageSource, chunkHeight: number | null, resizeWidth: number | null, options: SplitOptions) => void;
+  onProcessBatch: (urls: string[], chunkHeight: number | null, resizeWidth: number | null, options: SplitOptions) => void;
   status: ProcessStatus;
   error: string | null;
+  /** Rows of the current batch, if one was started */
+  batch?: BatchItem[] | null;
+  selectedBatchIndex?: number | null;
+  onSelectBatchItem?: (index: number) => void;
 }
 
-export const InputPanel: React.FC<InputPanelProps> = ({ onProcess, status, error }) => {
+export const InputPanel: React.FC<InputPanelProps> = ({ onProcess, onProcessBatch, status, error, batch, selectedBatchIndex, onSelectBatchItem }) => {
+  const [sourceType, setSourceType] = useState<'url' | 'file' | 'batch'>('url');
   const [url, setUrl] = useState('https://picsum.photos/1200/2400');
+  const [batchText, setBatchText] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [splitBy, setSplitBy] = useState<SplitBy>('height');
   const [chunkHeight, setChunkHeight] = useState(800);
+  const [chunkCount, setChunkCount] = useState(5);
+  const [aspectRatio, setAspectRatio] = useState('4:5');
+  const [gridBy, setGridBy] = useState<'size' | 'count'>('count');
+  const [gridColumns, setGridColumns] = useState(3);
+  const [gridRows, setGridRows] = useState(3);
+  const [tileWidth, setTileWidth] = useState(1080);
+  const [tileHeight, setTileHeight] = useState(1080);
+  const [paperSize, setPaperSize] = useState<PaperSize>('a4');
+  const [dpi, setDpi] = useState(150);
+  const [pageMargin, setPageMargin] = useState(10);
+  const [trim, setTrim] = useState<TrimMode>('none');
+  const [trimTolerance, setTrimTolerance] = useState(16);
   const [resizeWidth, setResizeWidth] = useState('');
+  const [overlap, setOverlap] = useState('');
+  const [splitMode, setSplitMode] = useState<SplitMode>('fixed');
+  const [smartTolerance, setSmartTolerance] = useState(100);
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>('png');
+  const [quality, setQuality] = useState(85);
   const { themeColor } = useTheme();
 
+  const selectFile = (candidate: File | null | undefined) => {
+    if (candidate && candidate.type.startsWith('image/')) {
+      setFile(candidate);
+      setSourceType('file');
+    }
+  };
+
+  // Pasting an image anywhere on the page selects it as the source
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const item = Array.from(e.clipboardData?.items || []).find((i) => i.type.startsWith('image/'));
+      const pasted = item?.getAsFile();
+      if (pasted) {
+        e.preventDefault();
+        const extension = pasted.type.split('/')[1] || 'png';
+        selectFile(new File([pasted], pasted.name || `pasted-image.${extension}`, { type: pasted.type }));
+      }
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, []);
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    selectFile(e.dataTransfer.files?.[0]);
+  };
+
+  // One URL per line; blank lines are ignored
+  const batchUrls = batchText.split('\n').map((line) => line.trim()).filter(Boolean);
+
+  const buildOptions = (): SplitOptions => {
+    const options: SplitOptions = { splitBy, splitMode, outputFormat };
+    if (splitBy === 'count') {
+      options.count = Number(chunkCount);
+    } else if (splitBy === 'aspectRatio') {
+      options.aspectRatio = aspectRatio;
+    } else if (splitBy === 'grid') {
+      if (gridBy === 'size') {
+        options.tileWidth = Number(tileWidth);
+        options.tileHeight = Number(tileHeight);
+      } else {
+        options.columns = Number(gridColumns);
+        options.rows = Number(gridRows);
+      }
+    } else if (splitBy === 'page') {
+      options.paperSize = paperSize;
+      options.dpi = Number(dpi);
+      options.pageMargin = Number(pageMargin);
+    }
+    if (splitMode === 'smart') {
+      options.smartTolerance = Number(smartTolerance);
+    }
+    if (outputFormat !== 'png') {
+      options.quality = Number(quality);
+    }
+    if (overlap) {
+      options.overlap = Number(overlap);
+    }
+    if (trim === 'auto') {
+      options.trim = trim;
+      options.trimTolerance = Number(trimTolerance);
+    }
+    return options;
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onProcess(url, Number(chunkHeight), resizeWidth ? Number(resizeWidth) : null);
+    const height = splitBy === 'height' ? Number(chunkHeight) : null;
+    const width = resizeWidth ? Number(resizeWidth) : null;
+    if (sourceType === 'batch') {
+      if (batchUrls.length > 0) onProcessBatch(batchUrls, height, width, buildOptions());
+      return;
+    }
+    const source: ImageSource | null = sourceType === 'file' ? file : url;
+    if (!source) return;
+    onProcess(source, height, width, buildOptions());
   };
 
   const isLoading = status === ProcessStatus.LOADING_IMAGE || status === ProcessStatus.PROCESSING;
+  const isDisabled = isLoading
+    || (sourceType === 'file' && !file)
+    || (sourceType === 'batch' && (batchUrls.length === 0 || batchUrls.length > MAX_BATCH_URLS));
 
   return (
     <div className="w-full max-w-md p-6 bg-white/50 dark:bg-zinc-900/50 border border-zinc-200 dark:border-zinc-800 rounded-xl backdrop-blur-sm shadow-xl transition-colors duration-300">
@@ -35,36 +145,376 @@ export const InputPanel: React.FC<InputPanelProps> = ({ onProcess, status, error
       </div>
 
       <form onSubmit={handleSubmit} className="space-y-5">
+        <div className="space-y-2">
+          <div className="grid grid-cols-3 gap-2">
+            {(['url', 'file', 'batch'] as const).map((type) => (
+              <button
+                key={type}
+                type="button"
+                onClick={() => setSourceType(type)}
+                className={`px-3 py-2 rounded-lg text-sm font-medium border transition-all flex items-center justify-center gap-2 ${
+                  sourceType === type
+                    ? `bg-${themeColor}-500/10 border-${themeColor}-500 text-${themeColor}-600 dark:text-${themeColor}-300`
+                    : 'bg-white dark:bg-zinc-950 border-zinc-200 dark:border-zinc-800 text-zinc-600 dark:text-zinc-400 hover:border-zinc-400 dark:hover:border-zinc-600'
+                }`}
+              >
+                {type === 'url' && <><Link className="w-4 h-4" /> Image URL</>}
+                {type === 'file' && <><Upload className="w-4 h-4" /> Local File</>}
+                {type === 'batch' && <><ListChecks className="w-4 h-4" /> Batch</>}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {sourceType === 'url' ? (
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-zinc-700 dark:text-zinc-300 flex items-center gap-2">
+              <Link className="w-4 h-4" /> Source Image URL
+            </label>
+            <input
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://example.com/large-image.png"
+              className={`w-full px-4 py-3 bg-white dark:bg-zinc-950 border border-zinc-200 dark:border-zinc-800 rounded-lg focus:ring-2 focus:ring-${themeColor}-500 focus:border-transparent outline-none text-sm text-zinc-900 dark:text-white placeholder:text-zinc-400 dark:placeholder:text-zinc-600 transition-all`}
+              required
+            />
+            <p className="text-xs text-zinc-500">
+              Any image URL is supported. Processing happens server-side to avoid CORS issues.
+            </p>
+          </div>
+        ) : sourceType === 'batch' ? (
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-zinc-700 dark:text-zinc-300 flex items-center gap-2">
+              <ListChecks className="w-4 h-4" /> Image URLs
+            </label>
+            <textarea
+              value={batchText}
+              onChange={(e) => setBatchText(e.target.value)}
+              rows={5}
+              placeholder={'https://example.com/article-1.png\nhttps://example.com/article-2.png'}
+              className={`w-full px-4 py-3 bg-white dark:bg-zinc-950 border border-zinc-200 dark:border-zinc-800 rounded-lg focus:ring-2 focus:ring-${themeColor}-500 focus:border-transparent outline-none text-sm font-mono text-zinc-900 dark:text-white placeholder:text-zinc-400 dark:placeholder:text-zinc-600 transition-all resize-y`}
+            />
+            <p className={`text-xs ${batchUrls.length > MAX_BATCH_URLS ? 'text-red-600 dark:text-red-400' : 'text-zinc-500'}`}>
+              One URL per line, up to {MAX_BATCH_URLS}; {batchUrls.length} entered. Every image gets the settings below and each image counts against the hourly limit.
+            </p>
+            {batch && (
+              <ul className="max-h-56 overflow-y-auto divide-y divide-zinc-200 dark:divide-zinc-800 border border-zinc-200 dark:border-zinc-800 rounded-lg">
+                {batch.map((item) => (
+                  <li key={item.index}>
+                    <button
+                      type="button"
+                      disabled={item.status !== 'completed'}
+                      onClick={() => onSelectBatchItem?.(item.index)}
+                      title={item.error?.message ?? item.url}
+                      className={`w-full px-3 py-2 flex items-center gap-2 text-left text-xs transition-colors ${
+                        selectedBatchIndex === item.index
+                          ? `bg-${themeColor}-500/10`
+                          : item.status === 'completed' ? 'hover:bg-zinc-100 dark:hover:bg-zinc-900' : 'cursor-default'
+                      }`}
+                    >
+                      <BatchStatusIcon status={item.status} themeColor={themeColor} />
+                      <span className="flex-1 min-w-0">
+                        <span className="block truncate text-zinc-700 dark:text-zinc-300">{item.url}</span>
+                        {item.error && <span className="block truncate text-red-600 dark:text-red-400">{item.error.message}</span>}
+                      </span>
+                      {item.result && <span className="shrink-0 text-zinc-500">{item.result.chunkCount} chunks</span>}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-zinc-700 dark:text-zinc-300 flex items-center gap-2">
+              <Upload className="w-4 h-4" /> Source Image File
+            </label>
+            <div
+              onClick={() => fileInputRef.current?.click()}
+              onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={handleDrop}
+              className={`w-full px-4 py-6 border-2 border-dashed rounded-lg text-center cursor-pointer transition-all ${
+                isDragging
+                  ? `border-${themeColor}-500 bg-${themeColor}-500/10`
+                  : 'border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-950 hover:border-zinc-400 dark:hover:border-zinc-600'
+              }`}
+            >
+              {file ? (
+                <div className="flex items-center justify-between gap-3 text-sm text-zinc-700 dark:text-zinc-300">
+                  <span className="truncate">{file.name}</span>
+                  <span className="flex items-center gap-2 shrink-0 text-xs text-zinc-500">
+                    {formatBytes(file.size)}
+                    <button
+                      type="button"
+                      onClick={(e) => { e.stopPropagation(); setFile(null); }}
+                      className="p-1 rounded hover:bg-zinc-200 dark:hover:bg-zinc-800"
+                      aria-label="Remove file"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                </div>
+              ) : (
+                <p className="text-sm text-zinc-500">Drop an image here or click to browse</p>
+              )}
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={(e) => selectFile(e.target.files?.[0])}
+            />
+            <p className="text-xs text-zinc-500">
+              You can also paste an image from the clipboard. Uploads are limited to 10 MB.
+            </p>
+          </div>
+        )}
+
         <div className="space-y-2">
           <label className="text-sm font-medium text-zinc-700 dark:text-zinc-300 flex items-center gap-2">
-            <Link className="w-4 h-4" /> Source Image URL
+            <Layers className="w-4 h-4" /> Split By
           </label>
-          <input
-            type="url"
-            value={url}
-            onChange={(e) => setUrl(e.target.value)}
-            placeholder="https://example.com/large-image.png"
-            className={`w-full px-4 py-3 bg-white dark:bg-zinc-950 border border-zinc-200 dark:border-zinc-800 rounded-lg focus:ring-2 focus:ring-${themeColor}-500 focus:border-transparent outline-none text-sm text-zinc-900 dark:text-white placeholder:text-zinc-400 dark:placeholder:text-zinc-600 transition-all`}
-            required
-          />
+          <div className="grid grid-cols-5 gap-2">
+            {([
+              { id: 'height', label: 'Height' },
+              { id: 'count', label: 'Count' },
+              { id: 'aspectRatio', label: 'Ratio' },
+              { id: 'grid', label: 'Grid' },
+              { id: 'page', label: 'Page' },
+            ] as { id: SplitBy; label: string }[]).map((option) => (
+              <button
+                key={option.id}
+                type="button"
+                onClick={() => setSplitBy(option.id)}
+                className={`px-3 py-2 rounded-lg text-sm font-medium border transition-all ${
+                  splitBy === option.id
+                    ? `bg-${themeColor}-500/10 border-${themeColor}-500 text-${themeColor}-600 dark:text-${themeColor}-300`
+                    : 'bg-white dark:bg-zinc-950 border-zinc-200 dark:border-zinc-800 text-zinc-600 dark:text-zinc-400 hover:border-zinc-400 dark:hover:border-zinc-600'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {splitBy === 'height' && (
+            <input
+              type="number"
+              min="100"
+              max="10000"
+              value={chunkHeight}
+              onChange={(e) => setChunkHeight(Number(e.target.value))}
+              aria-label="Split height (px)"
+              className={`w-full px-4 py-3 bg-white dark:bg-zinc-950 border border-zinc-200 dark:border-zinc-800 rounded-lg focus:ring-2 focus:ring-${themeColor}-500 focus:border-transparent outline-none text-sm text-zinc-900 dark:text-white transition-all`}
+              required
+            />
+          )}
+          {splitBy === 'count' && (
+            <input
+              type="number"
+              min="1"
+              max="500"
+              value={chunkCount}
+              onChange={(e) => setChunkCount(Number(e.target.value))}
+              aria-label="Number of chunks"
+              className={`w-full px-4 py-3 bg-white dark:bg-zinc-950 border border-zinc-200 dark:border-zinc-800 rounded-lg focus:ring-2 focus:ring-${themeColor}-500 focus:border-transparent outline-none text-sm text-zinc-900 dark:text-white transition-all`}
+              required
+            />
+          )}
+          {splitBy === 'aspectRatio' && (
+            <input
+              type="text"
+              value={aspectRatio}
+              onChange={(e) => setAspectRatio(e.target.value)}
+              placeholder="4:5"
+              aria-label="Slide aspect ratio (width:height)"
+              className={`w-full px-4 py-3 bg-white dark:bg-zinc-950 border border-zinc-200 dark:border-zinc-800 rounded-lg focus:ring-2 focus:ring-${themeColor}-500 focus:border-transparent outline-none text-sm text-zinc-900 dark:text-white transition-all`}
+              required
+            />
+          )}
+          {splitBy === 'grid' && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-4 text-xs text-zinc-600 dark:text-zinc-400">
+                {(['count', 'size'] as const).map((option) => (
+                  <label key={option} className="flex items-center gap-1.5 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="gridBy"
+                      checked={gridBy === option}
+                      onChange={() => setGridBy(option)}
+                      className={`accent-${themeColor}-500`}
+                    />
+                    {option === 'count' ? 'Rows x columns' : 'Tile size (px)'}
+                  </label>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <input
+                  type="number"
+                  min="1"
+                  max={gridBy === 'count' ? 100 : 10000}
+                  value={gridBy === 'count' ? gridColumns : tileWidth}
+                  onChange={(e) => (gridBy === 'count' ? setGridColumns : setTileWidth)(Number(e.target.value))}
+                  aria-label={gridBy === 'count' ? 'Columns' : 'Tile width (px)'}
+                  placeholder={gridBy === 'count' ? 'Columns' : 'Tile width'}
+                  className={`w-full px-4 py-3 bg-white dark:bg-zinc-950 border border-zinc-200 dark:border-zinc-800 rounded-lg focus:ring-2 focus:ring-${themeColor}-500 focus:border-transparent outline-none text-sm text-zinc-900 dark:text-white transition-all`}
+                  required
+                />
+                <input
+                  type="number"
+                  min="1"
+                  max={gridBy === 'count' ? 100 : 10000}
+                  value={gridBy === 'count' ? gridRows : tileHeight}
+                  onChange={(e) => (gridBy === 'count' ? setGridRows : setTileHeight)(Number(e.target.value))}
+                  aria-label={gridBy === 'count' ? 'Rows' : 'Tile height (px)'}
+                  placeholder={gridBy === 'count' ? 'Rows' : 'Tile height'}
+                  className={`w-full px-4 py-3 bg-white dark:bg-zinc-950 border border-zinc-200 dark:border-zinc-800 rounded-lg focus:ring-2 focus:ring-${themeColor}-500 focus:border-transparent outline-none text-sm text-zinc-900 dark:text-white transition-all`}
+                  required
+                />
+              </div>
+            </div>
+          )}
+          {splitBy === 'page' && (
+            <div className="grid grid-cols-3 gap-2">
+              <select
+                value={paperSize}
+                onChange={(e) => setPaperSize(e.target.value as PaperSize)}
+                aria-label="Paper size"
+                className={`w-full px-4 py-3 bg-white dark:bg-zinc-950 border border-zinc-200 dark:border-zinc-800 rounded-lg focus:ring-2 focus:ring-${themeColor}-500 focus:border-transparent outline-none text-sm text-zinc-900 dark:text-white transition-all`}
+              >
+                {(Object.keys(PAPER_SIZES) as PaperSize[]).map((size) => (
+                  <option key={size} value={size}>{PAPER_SIZES[size].label}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min="72"
+                max="600"
+                value={dpi}
+                onChange={(e) => setDpi(Number(e.target.value))}
+                aria-label="DPI"
+                title="DPI"
+                className={`w-full px-4 py-3 bg-white dark:bg-zinc-950 border border-zinc-200 dark:border-zinc-800 rounded-lg focus:ring-2 focus:ring-${themeColor}-500 focus:border-transparent outline-none text-sm text-zinc-900 dark:text-white transition-all`}
+                required
+              />
+              <input
+                type="number"
+                min="0"
+                max="50"
+                value={pageMargin}
+                onChange={(e) => setPageMargin(Number(e.target.value))}
+                aria-label="Margin (mm)"
+                title="Margin (mm)"
+                className={`w-full px-4 py-3 bg-white dark:bg-zinc-950 border border-zinc-200 dark:border-zinc-800 rounded-lg focus:ring-2 focus:ring-${themeColor}-500 focus:border-transparent outline-none text-sm text-zinc-900 dark:text-white transition-all`}
+                required
+              />
+            </div>
+          )}
           <p className="text-xs text-zinc-500">
-            Any image URL is supported. Processing happens server-side to avoid CORS issues.
+            {splitBy === 'height' && 'Height of each chunk in pixels.'}
+            {splitBy === 'count' && 'Cuts the image into this many equal slides.'}
+            {splitBy === 'aspectRatio' && 'Slide shape as width:height, e.g. 4:5 for portrait or 1:1 for square.'}
+            {splitBy === 'grid' && (gridBy === 'count'
+              ? 'Tiles wide or large images into columns x rows.'
+              : 'Tiles wide or large images into tiles of this width x height.')}
+            {splitBy === 'page' && 'Paper, DPI and margin (mm): each chunk fills one printed page at true scale. Download the result as a PDF to print it.'}
           </p>
         </div>
 
         <div className="space-y-2">
           <label className="text-sm font-medium text-zinc-700 dark:text-zinc-300 flex items-center gap-2">
-            <Layers className="w-4 h-4" /> Split Height (px)
+            <Rows3 className="w-4 h-4" /> Overlap (px) <span className="text-xs text-zinc-400">(Optional)</span>
           </label>
           <input
             type="number"
-            min="100"
-            max="10000"
-            value={chunkHeight}
-            onChange={(e) => setChunkHeight(Number(e.target.value))}
+            min="0"
+            max={splitBy === 'height' ? Math.max(0, chunkHeight - 1) : undefined}
+            value={overlap}
+            onChange={(e) => setOverlap(e.target.value)}
+            placeholder="e.g. 40"
             className={`w-full px-4 py-3 bg-white dark:bg-zinc-950 border border-zinc-200 dark:border-zinc-800 rounded-lg focus:ring-2 focus:ring-${themeColor}-500 focus:border-transparent outline-none text-sm text-zinc-900 dark:text-white transition-all`}
-            required
           />
+          <p className="text-xs text-zinc-500">
+            Repeats the last pixels of each chunk at the top of the next one, so nothing is lost at a seam.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-zinc-700 dark:text-zinc-300 flex items-center gap-2">
+            <Wand2 className="w-4 h-4" /> Split Mode
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            {(['fixed', 'smart'] as SplitMode[]).map((mode) => (
+              <button
+                key={mode}
+                type="button"
+                onClick={() => setSplitMode(mode)}
+                className={`px-3 py-2 rounded-lg text-sm font-medium border transition-all ${
+                  splitMode === mode
+                    ? `bg-${themeColor}-500/10 border-${themeColor}-500 text-${themeColor}-600 dark:text-${themeColor}-300`
+                    : 'bg-white dark:bg-zinc-950 border-zinc-200 dark:border-zinc-800 text-zinc-600 dark:text-zinc-400 hover:border-zinc-400 dark:hover:border-zinc-600'
+                }`}
+              >
+                {mode === 'fixed' ? 'Fixed' : 'Smart'}
+              </button>
+            ))}
+          </div>
+          {splitMode === 'smart' && (
+            <input
+              type="number"
+              min="0"
+              max="5000"
+              value={smartTolerance}
+              onChange={(e) => setSmartTolerance(Number(e.target.value))}
+              aria-label="Smart split tolerance (px)"
+              className={`w-full px-4 py-3 bg-white dark:bg-zinc-950 border border-zinc-200 dark:border-zinc-800 rounded-lg focus:ring-2 focus:ring-${themeColor}-500 focus:border-transparent outline-none text-sm text-zinc-900 dark:text-white transition-all`}
+            />
+          )}
+          <p className="text-xs text-zinc-500">
+            {splitMode === 'smart'
+              ? 'Moves each cut up to this many pixels to avoid slicing through text or UI rows.'
+              : 'Cuts at exact multiples of the split height.'}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-zinc-700 dark:text-zinc-300 flex items-center gap-2">
+            <Crop className="w-4 h-4" /> Trim Borders
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            {(['none', 'auto'] as TrimMode[]).map((mode) => (
+              <button
+                key={mode}
+                type="button"
+                onClick={() => setTrim(mode)}
+                className={`px-3 py-2 rounded-lg text-sm font-medium border transition-all ${
+                  trim === mode
+                    ? `bg-${themeColor}-500/10 border-${themeColor}-500 text-${themeColor}-600 dark:text-${themeColor}-300`
+                    : 'bg-white dark:bg-zinc-950 border-zinc-200 dark:border-zinc-800 text-zinc-600 dark:text-zinc-400 hover:border-zinc-400 dark:hover:border-zinc-600'
+                }`}
+              >
+                {mode === 'none' ? 'Off' : 'Auto'}
+              </button>
+            ))}
+          </div>
+          {trim === 'auto' && (
+            <input
+              type="number"
+              min="0"
+              max="255"
+              value={trimTolerance}
+              onChange={(e) => setTrimTolerance(Number(e.target.value))}
+              aria-label="Trim tolerance (0-255)"
+              className={`w-full px-4 py-3 bg-white dark:bg-zinc-950 border border-zinc-200 dark:border-zinc-800 rounded-lg focus:ring-2 focus:ring-${themeColor}-500 focus:border-transparent outline-none text-sm text-zinc-900 dark:text-white transition-all`}
+            />
+          )}
+          <p className="text-xs text-zinc-500">
+            {trim === 'auto'
+              ? 'Crops solid bands off every side before splitting; pixels within this many shades of the band colour count as band.'
+              : 'Keeps the whole image, borders included.'}
+          </p>
         </div>
 
         <div className="space-y-2">
@@ -85,6 +535,47 @@ export const InputPanel: React.FC<InputPanelProps> = ({ onProcess, status, error
           </p>
         </div>
 
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-zinc-700 dark:text-zinc-300 flex items-center gap-2">
+            <FileImage className="w-4 h-4" /> Output Format
+          </label>
+          <div className="grid grid-cols-3 gap-2">
+            {(['png', 'jpeg', 'webp'] as OutputFormat[]).map((format) => (
+              <button
+                key={format}
+                type="button"
+                onClick={() => setOutputFormat(format)}
+                className={`px-3 py-2 rounded-lg text-sm font-medium border uppercase transition-all ${
+                  outputFormat === format
+                    ? `bg-${themeColor}-500/10 border-${themeColor}-500 text-${themeColor}-600 dark:text-${themeColor}-300`
+                    : 'bg-white dark:bg-zinc-950 border-zinc-200 dark:border-zinc-800 text-zinc-600 dark:text-zinc-400 hover:border-zinc-400 dark:hover:border-zinc-600'
+                }`}
+              >
+                {format}
+              </button>
+            ))}
+          </div>
+          {outputFormat !== 'png' && (
+            <div className="flex items-center gap-3">
+              <input
+                type="range"
+                min="1"
+                max="100"
+                value={quality}
+                onChange={(e) => setQuality(Number(e.target.value))}
+                aria-label="Output quality"
+                className={`flex-1 accent-${themeColor}-500`}
+              />
+              <span className="text-xs text-zinc-500 w-10 text-right">{quality}%</span>
+            </div>
+          )}
+          <p className="text-xs text-zinc-500">
+            {outputFormat === 'png'
+              ? 'Lossless, best for text and UI screenshots.'
+              : 'Lossy, much smaller chunks for photographic images.'}
+          </p>
+        </div>
+
         {error && (
           <div className="p-3 bg-red-50 dark:bg-red-500/10 border border-red-200 dark:border-red-500/20 rounded-lg flex items-start gap-3">
             <AlertCircle className="w-5 h-5 text-red-600 dark:text-red-500 shrink-0 mt-0.5" />
@@ -94,16 +585,33 @@ export const InputPanel: React.FC<InputPanelProps> = ({ onProcess, status, error
 
         <button
           type="submit"
-          disabled={isLoading}
+          disabled={isDisabled}
           className={`w-full py-3 px-4 rounded-lg font-medium text-sm transition-all duration-200 
-            ${isLoading 
+            ${isDisabled 
               ? 'bg-zinc-100 dark:bg-zinc-800 text-zinc-400 cursor-not-allowed' 
               : `bg-${themeColor}-600 hover:bg-${themeColor}-500 text-white shadow-lg shadow-${themeColor}-500/20 active:scale-[0.98]`
             }`}
         >
-          {isLoading ? 'Processing...' : 'Process Image'}
+          {isLoading
+            ? 'Processing...'
+            : sourceType === 'batch'
+              ? `Process ${batchUrls.length} Image${batchUrls.length === 1 ? '' : 's'}`
+              : 'Process Image'}
         </button>
       </form>
     </div>
   );
 };
+
+const BatchStatusIcon = ({ status, themeColor }: { status: BatchItem['status']; themeColor: string }) => {
+  switch (status) {
+    case 'processing':
+      return <Loader2 className={`w-4 h-4 shrink-0 animate-spin text-${themeColor}-500`} />;
+    case 'completed':
+      return <CheckCircle2 className="w-4 h-4 shrink-0 text-emerald-500" />;
+    case 'failed':
+      return <AlertCircle className="w-4 h-4 shrink-0 text-red-600 dark:text-red-500" />;
+    default:
+      return <Clock className="w-4 h-4 shrink-0 text-zinc-400" />;
+  }
+};
@@ -0,0 +1,65 @@
+import React, { useState, useEffect } from 'react';
+import { Gauge } from 'lucide-react';
+import { QuotaStatus } from '../types';
+import { useTheme } from '../contexts/ThemeContext';
+
+interface QuotaMeterProps {
+  quota: QuotaStatus | null;
+  /** Called once the countdown runs out, to load the new quota */
+  onReset: () => void;
+}
+
+const formatCountdown = (seconds: number) => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  const mmss = `${String(m).padStart(h ? 2 : 1, '0')}:${String(s).padStart(2, '0')}`;
+  return h ? `${h}:${mmss}` : mmss;
+};
+
+export const QuotaMeter: React.FC<QuotaMeterProps> = ({ quota, onReset }) => {
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  const { themeColor } = useTheme();
+
+  const secondsLeft = quota?.reset ? Math.max(0, quota.reset - now) : null;
+
+  useEffect(() => {
+    if (!quota?.reset) return;
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, [quota?.reset]);
+
+  useEffect(() => {
+    if (secondsLeft === 0) {
+      onReset();
+    }
+  }, [secondsLeft === 0]);
+
+  if (!quota) return null;
+
+  const percentLeft = quota.limit > 0 ? (quota.remaining / quota.limit) * 100 : 0;
+  const barColor = quota.remaining === 0 ? 'bg-red-500' : percentLeft <= 20 ? 'bg-amber-500' : `bg-${themeColor}-500`;
+
+  return (
+    <div className="p-4 rounded-xl border border-zinc-200 dark:border-zinc-800 bg-zinc-50 dark:bg-zinc-900/50">
+      <div className="flex items-center justify-between text-sm">
+        <span className="flex items-center gap-2 font-medium text-zinc-700 dark:text-zinc-300">
+          <Gauge className="w-4 h-4 text-zinc-400" /> Hourly quota
+        </span>
+        <span className="font-mono text-zinc-600 dark:text-zinc-400">
+          {quota.remaining} of {quota.limit} left
+        </span>
+      </div>
+      <div className="mt-3 h-1.5 bg-zinc-200 dark:bg-zinc-800 rounded-full overflow-hidden">
+        <div className={`h-full ${barColor} transition-all duration-300`} style={{ width: `${percentLeft}%` }} />
+      </div>
+      <p className="mt-2 text-xs text-zinc-500">
+        {secondsLeft === null || quota.remaining === quota.limit
+          ? 'Full quota available'
+          : quota.remaining === 0
+            ? `Next request allowed in ${formatCountdown(secondsLeft)}`
+            : `More requests free up in ${formatCountdown(secondsLeft)}`}
+      </p>
+    </div>
+  );
+};
@@ -1,50 +1,96 @@
 import React, { useState } from 'react';
-import { ProcessingResult, ProcessedChunk } from '../types';
-import { formatBytes } from '../services/imageProcessor';
-import { Download, Image as ImageIcon, Clock, FileDigit, Archive, Check, Loader2, Scaling } from 'lucide-react';
+import { BatchItem, ProcessingResult, ProcessedChunk, SplitProgress } from '../types';
+import { formatBytes, getFileExtension } from '../services/imageProcessor';
+import { createPdf } from '../services/pdfExport';
+import { PAPER_SIZES } from '../api/pageLayout.js';
+import { CutEditor } from './CutEditor';
+import { Download, Image as ImageIcon, Clock, FileDigit, Archive, Check, Loader2, Scaling, Rows3, Grid3x3, FolderArchive, FileText, Printer, SlidersHorizontal, LayoutGrid, Crop } from 'lucide-react';
 import { useTheme } from '../contexts/ThemeContext';
 import JSZip from 'jszip';
 
 interface ResultViewerProps {
   result: ProcessingResult;
+  /** Set while chunks are still streaming in */
+  progress?: SplitProgress | null;
+  /** The batch the result belongs to, which can be downloaded as a whole */
+  batch?: BatchItem[] | null;
+  /** Split the same image again at these cuts; the cut editor is only offered with this */
+  onApplyCuts?: (cuts: number[]) => void;
 }
 
-export const ResultViewer: React.FC<ResultViewerProps> = ({ result }) => {
+// Grid tiles are named by their 1-based row and column so they can be reassembled
+const getTileFileName = (chunk: ProcessedChunk) =>
+  `tile_r${chunk.row + 1}_c${chunk.column + 1}_${chunk.width}x${chunk.height}px.${getFileExtension(chunk.mimeType)}`;
+
+/**
+ * Name of a downloaded chunk, on its own or inside a ZIP. Strips are numbered from 1 like the tiles.
+ */
+const getChunkFileName = (chunk: ProcessedChunk, result: ProcessingResult) =>
+  result.splitBy === 'grid'
+    ? getTileFileName(chunk)
+    : `chunk_${chunk.id + 1}_${chunk.height}px.${getFileExtension(chunk.mimeType)}`;
+
+/**
+ * Folder of one source in a batch ZIP: its position in the batch and the file name in its URL
+ */
+const getBatchFolderName = (item: BatchItem, itemCount: number) => {
+  let name = '';
+  try {
+    name = decodeURIComponent(new URL(item.url).pathname.split('/').pop() || '').replace(/\.[^.]+$/, '');
+  } catch {
+    // Not a URL we can read a name from
+  }
+  const position = String(item.index + 1).padStart(String(itemCount).length, '0');
+  return `${position}_${name.replace(/[^\w.-]+/g, '_') || 'image'}`;
+};
+
+const saveBlob = (blob: Blob, fileName: string) => {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(link.href);
+};
+
+export const ResultViewer: React.FC<ResultViewerProps> = ({ result, progress, batch, onApplyCuts }) => {
   const { themeColor } = useTheme();
   const [isZipping, setIsZipping] = useState(false);
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
+  const [isEditingCuts, setIsEditingCuts] = useState(false);
+  const isGrid = result.splitBy === 'grid';
+  const isStreaming = !!progress;
+  const completedItems = batch?.filter((item) => item.status === 'completed' && item.result) ?? [];
+  const isBatchRunning = !!batch?.some((item) => item.status === 'queued' || item.status === 'processing');
   
   const handleDownload = (chunk: ProcessedChunk) => {
     const link = document.createElement('a');
     link.href = chunk.dataUrl;
-    link.download = `chunk_${chunk.id}_${chunk.height}px.png`;
+    link.download = getChunkFileName(chunk, result);
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
   };
 
-  const handleDownloadAll = async () => {
+  /**
+   * Zip the given results, each into its own folder, and save the archive
+   */
+  const downloadZip = async (folderName: string, folders: { name: string; result: ProcessingResult }[]) => {
     try {
       setIsZipping(true);
       const zip = new JSZip();
-      const folderName = `splitstream_images_${Date.now()}`;
-      const folder = zip.folder(folderName);
+      const root = zip.folder(folderName);
 
-      if (folder) {
-        result.chunks.forEach((chunk) => {
-          // Remove 'data:image/png;base64,' prefix if present, usually toBlob gives blob so we can just use it
+      if (root) {
+        folders.forEach(({ name, result: folderResult }) => {
+          const folder = name ? root.folder(name) : root;
           // Since we stored 'blob' in ProcessedChunk, we use it directly
-          folder.file(`chunk_${chunk.id + 1}_${chunk.height}px.png`, chunk.blob);
+          folderResult.chunks.forEach((chunk) => folder?.file(getChunkFileName(chunk, folderResult), chunk.blob));
         });
 
         const content = await zip.generateAsync({ type: "blob" });
-        
-        const link = document.createElement('a');
-        link.href = URL.createObjectURL(content);
-        link.download = `${folderName}.zip`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(link.href);
+        saveBlob(content, `${folderName}.zip`);
       }
     } catch (error) {
       console.error("Failed to zip images", error);
@@ -54,10 +100,37 @@ export const ResultViewer: React.FC<ResultViewerProps> = ({ result }) => {
     }
   };
 
+  const handleDownloadAll = () => downloadZip(`splitstream_images_${Date.now()}`, [{ name: '', result }]);
+
+  const handleDownloadPdf = async () => {
+    try {
+      setIsExportingPdf(true);
+      saveBlob(await createPdf(result), `splitstream_${Date.now()}.pdf`);
+    } catch (error) {
+      console.error("Failed to create PDF", error);
+      alert("Failed to create PDF file. Please try again.");
+    } finally {
+      setIsExportingPdf(false);
+    }
+  };
+
+  const handleDownloadBatch = () =>
+    downloadZip(
+      `splitstream_batch_${Date.now()}`,
+      completedItems.map((item) => ({ name: getBatchFolderName(item, batch!.length), result: item.result! }))
+    );
+
   return (
     <div className="flex flex-col w-full h-full">
       {/* Header Metrics */}
       <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4 mb-6 flex-shrink-0 pointer-events-auto w-full">
+        {result.trimmed && (
+          <MetricCard 
+            icon={<Crop className="text-amber-500 dark:text-amber-400" />} 
+            label="Trimmed (T/B/L/R)" 
+            value={`${result.trimmed.top}/${result.trimmed.bottom}/${result.trimmed.left}/${result.trimmed.right}px`} 
+          />
+        )}
         {result.resizeWidth && (
           <MetricCard 
             icon={<Scaling className="text-fuchsia-500 dark:text-fuchsia-400" />} 
@@ -72,90 +145,199 @@ export const ResultViewer: React.FC<ResultViewerProps> = ({ result }) => {
         />
         <MetricCard 
           icon={<LayersIcon className="text-purple-500 dark:text-purple-400" />} 
-          label="Chunks Created" 
-          value={result.chunks.length.toString()} 
-        />
-        <MetricCard 
-          icon={<FileDigit className="text-emerald-500 dark:text-emerald-400" />} 
-          label="Target Height" 
-          value={`${result.chunkHeight}px`} 
+          label={isGrid ? 'Tiles Created' : 'Chunks Created'} 
+          value={isStreaming ? `${result.chunks.length} / ${result.chunkCount}` : result.chunks.length.toString()} 
         />
+        {isGrid && (
+          <MetricCard 
+            icon={<Grid3x3 className="text-teal-500 dark:text-teal-400" />} 
+            label="Grid" 
+            value={`${result.rows} x ${result.columns}`} 
+          />
+        )}
+        {result.chunkHeight === null ? (
+          <MetricCard 
+            icon={<FileDigit className="text-emerald-500 dark:text-emerald-400" />} 
+            label="Custom Cuts" 
+            value={`${result.cuts?.length ?? 0}`} 
+          />
+        ) : (
+          <MetricCard 
+            icon={<FileDigit className="text-emerald-500 dark:text-emerald-400" />} 
+            label={isGrid ? 'Tile Height' : result.splitBy && result.splitBy !== 'height' ? 'Computed Height' : 'Target Height'} 
+            value={`${result.chunkHeight}px`} 
+          />
+        )}
+        {result.splitBy === 'page' && result.paperSize && (
+          <MetricCard 
+            icon={<Printer className="text-rose-500 dark:text-rose-400" />} 
+            label="Print Size" 
+            value={`${PAPER_SIZES[result.paperSize].label} @ ${result.dpi} DPI`} 
+          />
+        )}
+        {!!result.overlap && (
+          <MetricCard 
+            icon={<Rows3 className="text-sky-500 dark:text-sky-400" />} 
+            label="Overlap" 
+            value={`${result.overlap}px`} 
+          />
+        )}
         <MetricCard 
           icon={<Clock className="text-orange-500 dark:text-orange-400" />} 
-          label="Time Taken" 
-          value={`${result.processingTimeMs.toFixed(0)}ms`} 
+          label={isStreaming ? 'Progress' : 'Time Taken'} 
+          value={isStreaming ? `${Math.round(progress?.percent ?? 0)}%` : `${result.processingTimeMs.toFixed(0)}ms`} 
         />
       </div>
 
       {/* Actions Bar */}
       <div className="flex items-center justify-between mb-4 flex-shrink-0">
-        <h3 className="text-sm font-medium text-zinc-500 dark:text-zinc-400 flex items-center gap-2">
-          <Check className="w-4 h-4 text-emerald-500" />
-          Generated {result.chunks.length} chunks successfully
-        </h3>
+        {isStreaming ? (
+          <div className="flex items-center gap-3 flex-1 mr-4">
+            <Loader2 className={`w-4 h-4 animate-spin text-${themeColor}-500 flex-shrink-0`} />
+            <span className="text-sm font-medium text-zinc-500 dark:text-zinc-400 whitespace-nowrap">
+              Generating {result.chunks.length} of {result.chunkCount} chunks
+            </span>
+            <div className="flex-1 max-w-xs h-1.5 bg-zinc-200 dark:bg-zinc-800 rounded-full overflow-hidden">
+              <div
+                className={`h-full bg-${themeColor}-500 transition-all duration-300`}
+                style={{ width: `${progress?.percent ?? 0}%` }}
+              />
+            </div>
+          </div>
+        ) : (
+          <h3 className="text-sm font-medium text-zinc-500 dark:text-zinc-400 flex items-center gap-2">
+            <Check className="w-4 h-4 text-emerald-500" />
+            Generated {result.chunks.length} chunks successfully
+          </h3>
+        )}
         
-        <button
-          onClick={handleDownloadAll}
-          disabled={isZipping}
-          className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-white transition-all shadow-md active:scale-95 ${
-            isZipping 
-              ? 'bg-zinc-400 cursor-wait' 
-              : `bg-${themeColor}-600 hover:bg-${themeColor}-500 hover:shadow-lg hover:shadow-${themeColor}-500/20`
-          }`}
-        >
-          {isZipping ? (
-            <>
-              <Loader2 className="w-4 h-4 animate-spin" />
-              Compressing...
-            </>
-          ) : (
-            <>
-              <Archive className="w-4 h-4" />
-              Download All (ZIP)
-            </>
+        <div className="flex items-center gap-2">
+          {onApplyCuts && (
+            <button
+              onClick={() => setIsEditingCuts(!isEditingCuts)}
+              disabled={isStreaming}
+              title={isEditingCuts ? 'Back to the chunks' : 'Move, add or remove cuts on a full-length preview'}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium border transition-all active:scale-95 ${
+                isStreaming
+                  ? 'border-zinc-200 dark:border-zinc-800 text-zinc-400 cursor-not-allowed'
+                  : `border-${themeColor}-500 text-${themeColor}-600 dark:text-${themeColor}-300 hover:bg-${themeColor}-500/10`
+              }`}
+            >
+              {isEditingCuts ? <LayoutGrid className="w-4 h-4" /> : <SlidersHorizontal className="w-4 h-4" />}
+              {isEditingCuts ? 'Show Chunks' : 'Edit Cuts'}
+            </button>
+          )}
+          {batch && (
+            <button
+              onClick={handleDownloadBatch}
+              disabled={isZipping || isBatchRunning || completedItems.length === 0}
+              title="One folder per source image"
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium border transition-all active:scale-95 ${
+                isZipping || isBatchRunning || completedItems.length === 0
+                  ? 'border-zinc-200 dark:border-zinc-800 text-zinc-400 cursor-not-allowed'
+                  : `border-${themeColor}-500 text-${themeColor}-600 dark:text-${themeColor}-300 hover:bg-${themeColor}-500/10`
+              }`}
+            >
+              <FolderArchive className="w-4 h-4" />
+              Download Batch ({completedItems.length})
+            </button>
           )}
-        </button>
+          <button
+            onClick={handleDownloadPdf}
+            disabled={isExportingPdf || isStreaming}
+            title={result.splitBy === 'page' ? 'One printable page per chunk, at true scale' : 'One page per chunk'}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium border transition-all active:scale-95 ${
+              isExportingPdf || isStreaming
+                ? 'border-zinc-200 dark:border-zinc-800 text-zinc-400 cursor-not-allowed'
+                : `border-${themeColor}-500 text-${themeColor}-600 dark:text-${themeColor}-300 hover:bg-${themeColor}-500/10`
+            }`}
+          >
+            {isExportingPdf ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileText className="w-4 h-4" />}
+            Download PDF
+          </button>
+          <button
+            onClick={handleDownloadAll}
+            disabled={isZipping || isStreaming}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-white transition-all shadow-md active:scale-95 ${
+              isStreaming
+                ? 'bg-zinc-400 cursor-not-allowed'
+                : isZipping 
+                ? 'bg-zinc-400 cursor-wait' 
+                : `bg-${themeColor}-600 hover:bg-${themeColor}-500 hover:shadow-lg hover:shadow-${themeColor}-500/20`
+            }`}
+          >
+            {isZipping ? (
+              <>
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Compressing...
+              </>
+            ) : (
+              <>
+                <Archive className="w-4 h-4" />
+                Download All (ZIP)
+              </>
+            )}
+          </button>
+        </div>
       </div>
 
-      {/* Chunks Grid */}
-      <div className="flex-1 overflow-y-auto min-h-0 w-full pointer-events-auto">
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 pb-4 pointer-events-auto">
-          {result.chunks.map((chunk) => (
-            <div
-              key={chunk.id}
-              className="group relative bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-xl overflow-hidden hover:border-zinc-400 dark:hover:border-zinc-600 transition-all shadow-sm pointer-events-auto"
-            >
-              {/* Preview */}
-              <div className="aspect-video bg-zinc-100 dark:bg-zinc-950 relative overflow-hidden flex items-center justify-center">
-                <img 
-                  src={chunk.dataUrl} 
-                  alt={`Chunk ${chunk.id}`} 
-                  className="object-contain max-h-full w-full opacity-90 group-hover:opacity-100 transition-opacity"
-                />
-                <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity flex items-end justify-between p-4 pointer-events-auto">
-                   <button
-                    onClick={() => handleDownload(chunk)}
-                    className="bg-white text-black px-3 py-1.5 rounded-md text-xs font-semibold flex items-center gap-2 hover:bg-zinc-200 shadow-lg active:scale-95 transition-transform pointer-events-auto cursor-pointer"
-                   >
-                     <Download className="w-3 h-3" /> Download
-                   </button>
+      {isEditingCuts && onApplyCuts && !isStreaming ? (
+        <div className="flex-1 min-h-0 w-full">
+          <CutEditor result={result} onApply={onApplyCuts} />
+        </div>
+      ) : (
+        /* Chunks Grid */
+        <div className="flex-1 overflow-y-auto min-h-0 w-full pointer-events-auto">
+          <div
+            className={`grid pb-4 pointer-events-auto ${isGrid ? 'gap-2' : 'grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4'}`}
+            style={isGrid ? { gridTemplateColumns: `repeat(${result.columns}, minmax(0, 1fr))` } : undefined}
+          >
+            {result.chunks.map((chunk) => (
+              <div
+                key={chunk.id}
+                className="group relative bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-xl overflow-hidden hover:border-zinc-400 dark:hover:border-zinc-600 transition-all shadow-sm pointer-events-auto"
+              >
+                {/* Preview */}
+                <div
+                  className={`${isGrid ? '' : 'aspect-video '}bg-zinc-100 dark:bg-zinc-950 relative overflow-hidden flex items-center justify-center`}
+                  style={isGrid ? { aspectRatio: `${chunk.width} / ${chunk.height}` } : undefined}
+                >
+                  <img 
+                    src={chunk.dataUrl} 
+                    alt={`Chunk ${chunk.id + 1}`} 
+                    className="object-contain max-h-full w-full opacity-90 group-hover:opacity-100 transition-opacity"
+                  />
+                  <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity flex items-end justify-between p-4 pointer-events-auto">
+                     <button
+                      onClick={() => handleDownload(chunk)}
+                      className="bg-white text-black px-3 py-1.5 rounded-md text-xs font-semibold flex items-center gap-2 hover:bg-zinc-200 shadow-lg active:scale-95 transition-transform pointer-events-auto cursor-pointer"
+                     >
+                       <Download className="w-3 h-3" /> Download
+                     </button>
+                  </div>
                 </div>
-              </div>
 
-              {/* Footer Info */}
-              <div className="p-3 border-t border-zinc-200 dark:border-zinc-800 bg-zinc-50 dark:bg-zinc-900/50 flex justify-between items-center text-xs text-zinc-500 dark:text-zinc-400">
-                <div className="flex items-center gap-2">
-                  <span className="bg-zinc-200 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-300 px-1.5 py-0.5 rounded">#{chunk.id + 1}</span>
-                  <span>{formatBytes(chunk.sizeBytes)}</span>
-                </div>
-                <div>
-                  H: <span className="text-zinc-700 dark:text-zinc-200 font-medium">{chunk.height}px</span>
+                {/* Footer Info */}
+                <div className="p-3 border-t border-zinc-200 dark:border-zinc-800 bg-zinc-50 dark:bg-zinc-900/50 flex justify-between items-center text-xs text-zinc-500 dark:text-zinc-400">
+                  <div className="flex items-center gap-2">
+                    <span className="bg-zinc-200 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-300 px-1.5 py-0.5 rounded">
+                      {isGrid ? `R${chunk.row + 1} C${chunk.column + 1}` : `#${chunk.id + 1}`}
+                    </span>
+                    <span>{formatBytes(chunk.sizeBytes)}</span>
+                  </div>
+                  <div>
+                    {isGrid ? (
+                      <span className="text-zinc-700 dark:text-zinc-200 font-medium">{chunk.width}x{chunk.height}</span>
+                    ) : (
+                      <>H: <span className="text-zinc-700 dark:text-zinc-200 font-medium">{chunk.height}px</span></>
+                    )}
+                  </div>
                 </div>
               </div>
-            </div>
-          ))}
+            ))}
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
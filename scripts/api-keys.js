@@ -0,0 +1,75 @@
+#!/usr/bin/env node
+/**
+ * Manage API keys for the v1 endpoints.
+ *
+ * Uses Upstash Redis when UPSTASH_REDIS_REST_URL/TOKEN are set, the JSON key file otherwise.
+ *
+ *   npm run keys -- create <name> [--quota <requests per hour>]
+ *   npm run keys -- list
+ *   npm run keys -- revoke <id>
+ *   npm run keys -- enable <id>
+ */
+
+require('dotenv').config();
+const { DEFAULT_QUOTA_PER_HOUR, createApiKey, listApiKeys, setApiKeyEnabled, getKeyStore } = require('../api/apiKeys.js');
+
+const USAGE = `Usage:
+  npm run keys -- create <name> [--quota <requests per hour>]   (default quota: ${DEFAULT_QUOTA_PER_HOUR})
+  npm run keys -- list
+  npm run keys -- revoke <id>
+  npm run keys -- enable <id>`;
+
+async function main([command, ...args]) {
+  const store = await getKeyStore();
+
+  switch (command) {
+    case 'create': {
+      const quotaIndex = args.indexOf('--quota');
+      const quotaPerHour = quotaIndex === -1 ? DEFAULT_QUOTA_PER_HOUR : Number(args[quotaIndex + 1]);
+      const name = args.filter((arg, i) => i !== quotaIndex && i !== quotaIndex + 1).join(' ');
+      const { key, record } = await createApiKey(store, { name, quotaPerHour });
+      console.log(`Created key ${record.id} "${record.name}" (${record.quotaPerHour} requests/hour)`);
+      console.log(`\n  ${key}\n`);
+      console.log('Store it now: only its hash is kept, so it cannot be shown again.');
+      return 0;
+    }
+    case 'list': {
+      const keys = await listApiKeys(store);
+      if (keys.length === 0) {
+        console.log(`No API keys (${store.mode} store)`);
+        return 0;
+      }
+      console.table(
+        keys.map(({ id, name, quotaPerHour, enabled, createdAt, lastUsedAt }) => ({
+          id,
+          name,
+          quotaPerHour,
+          enabled,
+          createdAt,
+          lastUsedAt: lastUsedAt || 'never',
+        }))
+      );
+      return 0;
+    }
+    case 'revoke':
+    case 'enable': {
+      const record = args[0] ? await setApiKeyEnabled(store, args[0], command === 'enable') : null;
+      if (!record) {
+        console.error(`No API key with id "${args[0] || ''}"`);
+        return 1;
+      }
+      console.log(`${command === 'enable' ? 'Enabled' : 'Revoked'} key ${record.id} "${record.name}"`);
+      return 0;
+    }
+    default:
+      console.error(USAGE);
+      return 1;
+  }
+}
+
+main(process.argv.slice(2))
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error(error.message);
+    process.exit(1);
+  });
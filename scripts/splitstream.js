@@ -0,0 +1,282 @@
+#!/usr/bin/env node
+/**
+ * Split local images, directories of images or image URLs from the command line.
+ *
+ * Runs the same splitting as the API in-process, or sends each image to /api/v1/process
+ * with --remote. Chunks are written to --out and a JSON manifest is printed to stdout.
+ *
+ *   npm run split -- tall.png --chunk-height 800
+ *   npx splitstream ./screenshots --split-by count --count 4 --format webp --out chunks
+ *   npx splitstream https://example.com/tall.jpg --chunk-height 800 --remote https://your-domain.com
+ */
+
+require('dotenv').config();
+const fs = require('fs');
+const path = require('path');
+const { parseArgs } = require('util');
+const { splitImageApi } = require('../api/imageProcessor.js');
+const { PROCESS_REQUEST_SCHEMA, validateProcessRequest } = require('../api/validation.js');
+const { chunkBuffer } = require('../api/responseFormats.js');
+const { ApiError, ValidationError, toApiError } = require('../api/errors.js');
+
+const DEFAULT_OUT_DIR = 'splitstream-chunks';
+const DEFAULT_NAME_TEMPLATE = '{name}_{index}.{ext}';
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp', '.gif', '.bmp', '.tif', '.tiff'];
+const FILE_EXTENSIONS = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp' };
+
+// Request fields that make no sense for a local run
+const NON_SPLIT_FIELDS = ['url', 'callbackUrl', 'noCache'];
+const SPLIT_FIELDS = Object.keys(PROCESS_REQUEST_SCHEMA).filter((name) => !NON_SPLIT_FIELDS.includes(name));
+const flagName = (field) => field.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+
+// Shorter spellings for the flags used most
+const FLAG_ALIASES = { format: 'outputFormat' };
+
+const USAGE = `Usage: splitstream <file | directory | url>... [options]
+
+Output:
+  --out <dir>             Directory the chunks are written to (default: ${DEFAULT_OUT_DIR})
+  --name <template>       Chunk file names (default: ${DEFAULT_NAME_TEMPLATE}); placeholders:
+                          {name} source name, {index} 1-based chunk number, {row}, {column},
+                          {width}, {height}, {ext}; may include subdirectories
+
+Splitting (same parameters as the API):
+${SPLIT_FIELDS.map((field) => `  --${flagName(field)}`.padEnd(26) + PROCESS_REQUEST_SCHEMA[field].description).join('\n')}
+  --format                Short for --output-format
+
+Remote:
+  --remote <base url>     Split on a SplitStream server through /api/v1/process
+  --api-key <key>         Key for --remote (default: SPLITSTREAM_API_KEY)
+
+The manifest is printed as JSON on stdout; progress and errors go to stderr.
+Exit codes: 0 success, 1 some images failed, 2 invalid arguments.`;
+
+const CLI_OPTIONS = {
+  out: { type: 'string', short: 'o', default: DEFAULT_OUT_DIR },
+  name: { type: 'string', default: DEFAULT_NAME_TEMPLATE },
+  remote: { type: 'string' },
+  'api-key': { type: 'string' },
+  help: { type: 'boolean', short: 'h' },
+  ...Object.fromEntries([...SPLIT_FIELDS.map(flagName), ...Object.keys(FLAG_ALIASES)].map((flag) => [flag, { type: 'string' }])),
+};
+
+const isUrl = (input) => /^https?:\/\//i.test(input);
+
+/**
+ * Split parameters from the parsed flags, keyed like the API request body
+ */
+function splitParams(values) {
+  const params = {};
+  for (const field of SPLIT_FIELDS) {
+    if (values[flagName(field)] !== undefined) {
+      params[field] = values[flagName(field)];
+    }
+  }
+  for (const [alias, field] of Object.entries(FLAG_ALIASES)) {
+    if (values[alias] !== undefined) {
+      params[field] = values[alias];
+    }
+  }
+  return params;
+}
+
+/**
+ * Expand the inputs into image sources: URLs as they are, directories into the images they contain
+ */
+async function collectSources(inputs) {
+  const sources = [];
+  for (const input of inputs) {
+    if (isUrl(input)) {
+      sources.push({ input, url: input, name: sourceName(new URL(input).pathname) });
+      continue;
+    }
+    const stats = await fs.promises.stat(input);
+    const files = stats.isDirectory()
+      ? (await fs.promises.readdir(input))
+          .filter((entry) => IMAGE_EXTENSIONS.includes(path.extname(entry).toLowerCase()))
+          .sort()
+          .map((entry) => path.join(input, entry))
+      : [input];
+    sources.push(...files.map((file) => ({ input: file, file, name: sourceName(file) })));
+  }
+  return sources;
+}
+
+const sourceName = (filePath) => path.basename(filePath, path.extname(filePath)) || 'image';
+
+/**
+ * File name of a chunk from the --name template
+ */
+function chunkFileNameFromTemplate(template, { name, chunk, chunkCount }) {
+  const placeholders = {
+    name,
+    index: String(chunk.id + 1).padStart(String(chunkCount).length, '0'),
+    row: chunk.row + 1,
+    column: chunk.column + 1,
+    width: chunk.width,
+    height: chunk.height,
+    ext: FILE_EXTENSIONS[chunk.mimeType] || 'png',
+  };
+  return template.replace(/\{(\w+)\}/g, (match, key) => (key in placeholders ? String(placeholders[key]) : match));
+}
+
+/**
+ * Split one source in this process, like the API does
+ */
+async function splitLocally(source, { height, width, options }) {
+  const image = source.file ? await fs.promises.readFile(source.file) : source.url;
+  return splitImageApi(image, height, width, {
+    ...options,
+    fileName: source.file ? path.basename(source.file) : undefined,
+    chunkEncoding: 'buffer',
+  });
+}
+
+/**
+ * Split one source on a SplitStream server; failures carry the server's error code
+ */
+async function splitRemotely(source, params, { remote, apiKey }) {
+  const endpoint = `${remote.replace(/\/+$/, '')}/api/v1/process`;
+  const headers = { API_KEY: apiKey, Accept: 'application/json' };
+  let body;
+
+  if (source.file) {
+    body = new FormData();
+    body.append('file', new Blob([await fs.promises.readFile(source.file)]), path.basename(source.file));
+    for (const [field, value] of Object.entries(params)) {
+      body.append(field, value);
+    }
+  } else {
+    headers['Content-Type'] = 'application/json';
+    body = JSON.stringify({ url: source.url, ...params });
+  }
+
+  let response;
+  try {
+    response = await fetch(endpoint, { method: 'POST', headers, body });
+  } catch (error) {
+    throw new ApiError(`Could not reach ${endpoint}: ${error.cause?.message || error.message}`, {
+      code: 'NETWORK_ERROR',
+      statusCode: 502,
+    });
+  }
+
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    const error = payload?.error || {};
+    throw new ApiError(error.message || `Request failed with status ${response.status}`, {
+      code: error.code || 'INTERNAL_ERROR',
+      statusCode: response.status,
+      field: error.field,
+      details: error.details,
+    });
+  }
+  return payload;
+}
+
+/**
+ * Split every source and write its chunks, returning the manifest and the exit code.
+ * `log` receives progress lines (stderr from the command line).
+ * @param {string[]} argv
+ * @param {{ log?: (line: string) => void }} [options]
+ */
+async function run(argv, { log = () => {} } = {}) {
+  let parsed;
+  try {
+    parsed = parseArgs({ args: argv, options: CLI_OPTIONS, allowPositionals: true });
+  } catch (error) {
+    log(`${error.message}\n\n${USAGE}`);
+    return { code: 2, manifest: null };
+  }
+  const { values, positionals } = parsed;
+
+  if (values.help || positionals.length === 0) {
+    log(USAGE);
+    return { code: values.help ? 0 : 2, manifest: null };
+  }
+
+  const params = splitParams(values);
+  const apiKey = values['api-key'] || process.env.SPLITSTREAM_API_KEY;
+  let request;
+  try {
+    if (values.remote && !apiKey) {
+      throw new Error('--remote needs an API key: pass --api-key or set SPLITSTREAM_API_KEY.');
+    }
+    // Check the flags once up front, as if each source were an upload
+    request = await validateProcessRequest({ body: params, uploadedImage: {} });
+  } catch (error) {
+    const flag = error.field ? ` (--${flagName(error.field)})` : '';
+    log(`${error.message}${flag}`);
+    return { code: 2, manifest: null };
+  }
+
+  let sources;
+  try {
+    sources = await collectSources(positionals);
+  } catch (error) {
+    log(error.code === 'ENOENT' ? `No such file or directory: ${error.path}` : error.message);
+    return { code: 2, manifest: null };
+  }
+
+  const outDir = path.resolve(values.out);
+  await fs.promises.mkdir(outDir, { recursive: true });
+
+  const written = new Set();
+  const manifest = { outputDir: outDir, mode: values.remote ? 'remote' : 'local', sources: [] };
+
+  for (const source of sources) {
+    try {
+      const result = values.remote
+        ? await splitRemotely(source, params, { remote: values.remote, apiKey })
+        : await splitLocally(source, request);
+
+      const files = result.chunks.map((chunk) =>
+        chunkFileNameFromTemplate(values.name, { name: source.name, chunk, chunkCount: result.chunks.length })
+      );
+      const clash = files.find((file, i) => written.has(file) || files.indexOf(file) !== i);
+      if (clash) {
+        throw new ValidationError(`The name template gives more than one chunk the file name "${clash}"; include {name} and {index}.`);
+      }
+
+      for (const [i, chunk] of result.chunks.entries()) {
+        const target = path.join(outDir, files[i]);
+        await fs.promises.mkdir(path.dirname(target), { recursive: true });
+        await fs.promises.writeFile(target, chunkBuffer(chunk));
+        written.add(files[i]);
+      }
+      log(`${source.input}: ${result.chunks.length} chunks`);
+
+      manifest.sources.push({
+        source: source.input,
+        ok: true,
+        ...result,
+        chunks: result.chunks.map(({ buffer, base64, ...chunk }, i) => ({ ...chunk, file: files[i] })),
+      });
+    } catch (error) {
+      const apiError = toApiError(error, error.message);
+      log(`${source.input}: ${apiError.message}`);
+      manifest.sources.push({ source: source.input, ok: false, error: apiError.toJSON() });
+    }
+  }
+
+  return { code: manifest.sources.every((entry) => entry.ok) ? 0 : 1, manifest };
+}
+
+module.exports = { run, chunkFileNameFromTemplate };
+
+if (require.main === module) {
+  // The image processor logs as it goes; keep stdout for the manifest
+  console.log = console.error;
+
+  run(process.argv.slice(2), { log: console.error })
+    .then(({ code, manifest }) => {
+      if (manifest) {
+        process.stdout.write(`${JSON.stringify(manifest, null, 2)}\n`);
+      }
+      process.exit(code);
+    })
+    .catch((error) => {
+      console.error(error.message);
+      process.exit(1);
+    });
+}
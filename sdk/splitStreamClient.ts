@@ -0,0 +1,553 @@
+/**
+ * Typed client for the SplitStream v1 API, for Node 18+ and browsers.
+ *
+ * It sends the API key, retries refused requests after the server's Retry-After, applies a
+ * timeout on top of any AbortSignal and decodes chunks to a Buffer in Node or a Blob in the
+ * browser. Splits can also be streamed (chunks arrive as they are cut) or fetched as a ZIP,
+ * many image URLs can be split in one batch request, and a split can be planned first.
+ *
+ *   const client = new SplitStreamClient({ baseUrl: 'https://splitstream.example.com', apiKey });
+ *   const { chunks } = await client.split('https://example.com/tall.png', { chunkHeight: 1200 });
+ */
+
+import {
+  ApiErrorBody,
+  BatchInput,
+  ChunkMetadata,
+  QuotaStatus,
+  ResultSummary,
+  SplitBatchItem,
+  SplitBatchResult,
+  SplitChunk,
+  SplitParams,
+  SplitPlan,
+  SplitProgress,
+  SplitResult,
+  SplitStage,
+  UsageReport,
+} from '../types';
+
+/** An image URL, a File or Blob, or the raw bytes of an image */
+export type ImageInput = string | Blob | Uint8Array;
+
+export type ChunkDataType = 'buffer' | 'blob';
+
+export interface SplitStreamClientOptions {
+  /** Origin of the server; empty for same-origin requests from the browser */
+  baseUrl?: string;
+  /** Sent as the API_KEY header */
+  apiKey?: string;
+  /** Route that splits images; the web UI uses /api/ui/process */
+  processPath?: string;
+  /** Route that splits batches; the web UI uses /api/ui/batch */
+  batchPath?: string;
+  /** Route that plans splits */
+  planPath?: string;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+  /** Per attempt, including reading the body; 0 disables it (default: 120000) */
+  timeoutMs?: number;
+  /** How many times a 429 or 503 is retried (default: 2) */
+  maxRetries?: number;
+  /** Longer Retry-After waits are not sat out; the error is thrown instead (default: 60000) */
+  maxRetryDelayMs?: number;
+  /** Chunk data type; defaults to Buffer in Node and Blob elsewhere */
+  chunkData?: ChunkDataType;
+  fetch?: typeof fetch;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  /** Overrides the client's timeout for this request */
+  timeoutMs?: number;
+  /** Called with the quota left after every attempt, including refused ones */
+  onQuota?: (quota: QuotaStatus) => void;
+}
+
+export interface SplitRequestOptions extends RequestOptions {
+  /** File name sent with uploaded bytes */
+  fileName?: string;
+  /** Streams the split as NDJSON; on by default when onProgress or onChunk is given */
+  stream?: boolean;
+  onProgress?: (progress: SplitProgress) => void;
+  /** Called for every chunk as it arrives, with the summary of the whole split */
+  onChunk?: (chunk: SplitChunk, summary: ResultSummary) => void;
+}
+
+export interface SplitBatchOptions extends RequestOptions {
+  /** Streams the batch as NDJSON; on by default when onItem is given */
+  stream?: boolean;
+  /** Called as each item starts processing and when it completes or fails */
+  onItem?: (item: SplitBatchItem) => void;
+}
+
+/**
+ * A failed request. code is the server's error code (see the API docs), or one of
+ * NETWORK_ERROR, TIMEOUT, ABORTED or UNKNOWN_ERROR for failures on the way there.
+ */
+export class SplitRequestError extends Error {
+  code: string;
+  field: string | null;
+  details: Record<string, unknown> | null;
+  /** HTTP status, when the server answered */
+  status: number | null;
+
+  constructor({ code, message, field = null, details = null }: ApiErrorBody, status: number | null = null) {
+    super(message);
+    this.name = 'SplitRequestError';
+    this.code = code;
+    this.field = field;
+    this.details = details;
+    this.status = status;
+  }
+}
+
+// What the server sends, before the chunks are decoded
+
+/** A chunk with its bytes as a base64 data URI; older servers leave out the grid fields */
+type WireChunk = Pick<ChunkMetadata, 'id' | 'width' | 'height' | 'yOffset'> &
+  Partial<Omit<ChunkMetadata, 'id' | 'width' | 'height' | 'yOffset'>> & { base64: string };
+
+interface WireResult extends ResultSummary {
+  chunks: WireChunk[];
+}
+
+interface WireBatchItem extends Omit<SplitBatchItem, 'result'> {
+  result?: WireResult;
+}
+
+interface WireBatchResult extends Omit<SplitBatchResult, 'items'> {
+  items: WireBatchItem[];
+}
+
+/** Older servers sent errors as a plain string */
+type WireError = ApiErrorBody | string;
+
+/** An NDJSON event of a streamed split */
+type WireProgressEvent =
+  | { stage: 'fetch' | 'decode' | 'resize' }
+  | { stage: 'plan'; total: number; result: ResultSummary }
+  | { stage: 'chunk'; completed: number; total: number; chunk: WireChunk }
+  | { stage: 'done'; result: ResultSummary }
+  | { stage: 'error'; error?: WireError };
+
+/** An NDJSON event of a streamed batch */
+type WireBatchEvent =
+  | ({ stage: 'item' } & WireBatchItem)
+  | { stage: 'done'; result: Omit<SplitBatchResult, 'items'> }
+  | { stage: 'error'; error?: WireError };
+
+const clientError = (code: string, message: string) => new SplitRequestError({ code, message, field: null, details: null });
+
+// Share of the progress bar given to each stage before the chunks start arriving
+const STAGE_PERCENT: Record<SplitStage, number> = {
+  fetch: 5,
+  decode: 10,
+  resize: 15,
+  plan: 20,
+  chunk: 20
+};
+
+const RETRYABLE_STATUSES = [429, 503];
+
+const isNode = typeof window === 'undefined' && typeof Buffer !== 'undefined';
+
+/**
+ * Quota left according to a response's X-RateLimit-* headers, or null when they are missing
+ */
+export const readQuotaHeaders = (response: Response): QuotaStatus | null => {
+  const limit = response.headers.get('X-RateLimit-Limit');
+  const remaining = response.headers.get('X-RateLimit-Remaining');
+  if (limit === null || remaining === null) {
+    return null;
+  }
+  const reset = response.headers.get('X-RateLimit-Reset');
+  return { limit: Number(limit), remaining: Number(remaining), reset: reset ? Number(reset) : null };
+};
+
+/**
+ * Milliseconds the server asked to wait, from Retry-After (seconds or an HTTP date)
+ */
+const retryAfterMs = (response: Response): number | null => {
+  const header = response.headers.get('Retry-After');
+  if (!header) {
+    return null;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+/**
+ * Wait, giving up early when the signal aborts
+ */
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(clientError('ABORTED', 'The request was aborted'));
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(clientError('ABORTED', 'The request was aborted'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * The SplitRequestError for a non-2xx response, tolerating older servers that sent a plain string
+ */
+const responseError = async (response: Response): Promise<SplitRequestError> => {
+  const fallback = `Backend API error: ${response.status}`;
+  const text = await response.text().catch(() => '');
+  let error: WireError | undefined;
+  try {
+    error = (JSON.parse(text) as { error?: WireError }).error;
+  } catch {
+    error = text || response.statusText;
+  }
+  return typeof error === 'object'
+    ? new SplitRequestError(error, response.status)
+    : new SplitRequestError({ code: 'UNKNOWN_ERROR', message: error || fallback, field: null, details: null }, response.status);
+};
+
+/**
+ * The SplitRequestError for an NDJSON 'error' event
+ */
+const streamError = ({ error }: { error?: WireError }, response: Response): SplitRequestError =>
+  typeof error === 'object'
+    ? new SplitRequestError(error, response.status)
+    : clientError('UNKNOWN_ERROR', error || 'Processing failed');
+
+export class SplitStreamClient {
+  private readonly options: Required<Omit<SplitStreamClientOptions, 'apiKey' | 'fetch'>> & Pick<SplitStreamClientOptions, 'apiKey'>;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(options: SplitStreamClientOptions = {}) {
+    this.options = {
+      baseUrl: (options.baseUrl ?? '').replace(/\/+$/, ''),
+      apiKey: options.apiKey,
+      processPath: options.processPath ?? '/api/v1/process',
+      batchPath: options.batchPath ?? '/api/v1/batch',
+      planPath: options.planPath ?? '/api/v1/plan',
+      headers: options.headers ?? {},
+      timeoutMs: options.timeoutMs ?? 120000,
+      maxRetries: options.maxRetries ?? 2,
+      maxRetryDelayMs: options.maxRetryDelayMs ?? 60000,
+      chunkData: options.chunkData ?? (isNode ? 'buffer' : 'blob'),
+    };
+    // Bound so that browsers don't complain about fetch being called on the client
+    this.fetchImpl = options.fetch ?? fetch.bind(globalThis);
+  }
+
+  /**
+   * Split an image and resolve with the decoded chunks
+   */
+  async split(image: ImageInput, params: SplitParams = {}, options: SplitRequestOptions = {}): Promise<SplitResult> {
+    const stream = options.stream ?? Boolean(options.onProgress || options.onChunk);
+    const accept = stream ? 'application/x-ndjson' : 'application/json';
+
+    return this.request(this.options.processPath, { method: 'POST', accept, body: () => this.processBody(image, params, options) }, options, async (response) => {
+      if (response.headers.get('Content-Type')?.includes('application/x-ndjson')) {
+        return this.readProgressStream(response, options);
+      }
+      // Plain JSON, from a request that didn't stream or a server without streaming support
+      return this.decodeResult((await response.json()) as WireResult);
+    });
+  }
+
+  /**
+   * Split many image URLs in one request, counted once per item against the quota. Items may carry
+   * their own parameters over the shared params. An item that can't be split comes back
+   * with status 'failed' and its error; the promise only rejects when the batch itself fails.
+   */
+  async splitBatch(items: BatchInput[], params: SplitParams = {}, options: SplitBatchOptions = {}): Promise<SplitBatchResult> {
+    const stream = options.stream ?? Boolean(options.onItem);
+    const accept = stream ? 'application/x-ndjson' : 'application/json';
+    const fields = Object.entries(params).filter(([, value]) => value !== undefined && value !== null);
+    const body = () => JSON.stringify({ ...Object.fromEntries(fields), items });
+
+    return this.request(this.options.batchPath, { method: 'POST', accept, body }, options, async (response) => {
+      if (response.headers.get('Content-Type')?.includes('application/x-ndjson')) {
+        return this.readBatchStream(response, options);
+      }
+      const batch = (await response.json()) as WireBatchResult;
+      return { ...batch, items: batch.items.map((item) => this.decodeBatchItem(item)) };
+    });
+  }
+
+  /**
+   * Split an image and resolve with a ZIP of every chunk plus a manifest.json
+   */
+  async splitToZip(image: ImageInput, params: SplitParams = {}, options: Omit<SplitRequestOptions, 'stream' | 'onProgress' | 'onChunk'> = {}): Promise<Buffer | Blob> {
+    return this.request(this.options.processPath, { method: 'POST', accept: 'application/zip', body: () => this.processBody(image, params, options) }, options, async (response) =>
+      this.options.chunkData === 'buffer' ? Buffer.from(await response.arrayBuffer()) : response.blob()
+    );
+  }
+
+  /**
+   * Split an image and resolve with a PDF, one page per chunk. With splitBy 'page' the
+   * pages are paperSize sheets that print the image at true scale.
+   */
+  async splitToPdf(image: ImageInput, params: SplitParams = {}, options: Omit<SplitRequestOptions, 'stream' | 'onProgress' | 'onChunk'> = {}): Promise<Buffer | Blob> {
+    return this.request(this.options.processPath, { method: 'POST', accept: 'application/pdf', body: () => this.processBody(image, params, options) }, options, async (response) =>
+      this.options.chunkData === 'buffer' ? Buffer.from(await response.arrayBuffer()) : response.blob()
+    );
+  }
+
+  /**
+   * Dry run of split: where the image would be cut, the estimated size of every chunk and
+   * a small preview, without encoding anything. Counted against the separate plan limit.
+   */
+  async plan(image: ImageInput, params: SplitParams = {}, options: Omit<SplitRequestOptions, 'stream' | 'onProgress' | 'onChunk'> = {}): Promise<SplitPlan> {
+    return this.request(this.options.planPath, { method: 'POST', accept: 'application/json', body: () => this.processBody(image, params, options) }, options, (response) =>
+      response.json() as Promise<SplitPlan>
+    );
+  }
+
+  /**
+   * Quota of this client's API key, or of its IP without one. Doesn't count as a request.
+   */
+  async getUsage(options: RequestOptions = {}): Promise<UsageReport> {
+    return this.request('/api/v1/usage', { method: 'GET', accept: 'application/json' }, options, (response) => response.json() as Promise<UsageReport>);
+  }
+
+  /**
+   * Send a request with auth, timeout and Retry-After handling, and hand the successful
+   * response to read. The timeout covers read too, so a stalled body can't hang forever.
+   */
+  private async request<T>(
+    path: string,
+    init: { method: string; accept: string; body?: () => BodyInit },
+    options: RequestOptions,
+    read: (response: Response) => Promise<T>
+  ): Promise<T> {
+    const timeoutMs = options.timeoutMs ?? this.options.timeoutMs;
+    const headers: Record<string, string> = { ...this.options.headers, Accept: init.accept };
+    if (this.options.apiKey) {
+      headers.API_KEY = this.options.apiKey;
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const controller = new AbortController();
+      let timedOut = false;
+      const timer = timeoutMs > 0 ? setTimeout(() => { timedOut = true; controller.abort(); }, timeoutMs) : null;
+      const onAbort = () => controller.abort();
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
+      try {
+        if (options.signal?.aborted) {
+          throw clientError('ABORTED', 'The request was aborted');
+        }
+        const body = init.body?.();
+        // JSON bodies are strings; FormData sets its own multipart Content-Type
+        const contentType = typeof body === 'string' ? { 'Content-Type': 'application/json' } : {};
+        const response = await this.fetchImpl(this.options.baseUrl + path, {
+          method: init.method,
+          headers: { ...headers, ...contentType },
+          body,
+          signal: controller.signal,
+        });
+
+        const quota = readQuotaHeaders(response);
+        if (quota) {
+          options.onQuota?.(quota);
+        }
+
+        if (response.ok) {
+          return await read(response);
+        }
+
+        const error = await responseError(response);
+        const delay = retryAfterMs(response) ?? 1000 * 2 ** attempt;
+        if (!RETRYABLE_STATUSES.includes(response.status) || attempt >= this.options.maxRetries || delay > this.options.maxRetryDelayMs) {
+          throw error;
+        }
+        await sleep(delay, options.signal);
+      } catch (error) {
+        if (error instanceof SplitRequestError) {
+          throw error;
+        }
+        if (timedOut) {
+          throw clientError('TIMEOUT', `The request took longer than ${timeoutMs} ms`);
+        }
+        if (options.signal?.aborted) {
+          throw clientError('ABORTED', 'The request was aborted');
+        }
+        throw clientError('NETWORK_ERROR', (error instanceof Error && error.message) || 'Could not reach the server');
+      } finally {
+        if (timer) clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
+      }
+    }
+  }
+
+  /**
+   * JSON for an image URL, multipart form data for anything uploaded
+   */
+  private processBody(image: ImageInput, params: SplitParams, options: SplitRequestOptions): BodyInit {
+    const fields = Object.entries(params).filter(([, value]) => value !== undefined && value !== null);
+    if (typeof image === 'string') {
+      return JSON.stringify({ url: image, ...Object.fromEntries(fields) });
+    }
+
+    const formData = new FormData();
+    // Blobs can't hold views of shared memory, so the bytes are copied into a plain ArrayBuffer
+    const blob = image instanceof Blob ? image : new Blob([new Uint8Array(image)]);
+    const fileName = options.fileName ?? (typeof File !== 'undefined' && image instanceof File ? image.name : 'image');
+    formData.append('file', blob, fileName);
+    for (const [key, value] of fields) {
+      formData.append(key, String(value));
+    }
+    return formData;
+  }
+
+  /**
+   * A JSON split result with its chunks decoded
+   */
+  private decodeResult(result: WireResult): SplitResult {
+    return { ...result, chunks: result.chunks.map((chunk) => this.decodeChunk(chunk)) };
+  }
+
+  private decodeBatchItem({ result, ...item }: WireBatchItem): SplitBatchItem {
+    return result ? { ...item, result: this.decodeResult(result) } : item;
+  }
+
+  /**
+   * Turn an API chunk (base64 data URI) into a SplitChunk holding the raw bytes
+   */
+  private decodeChunk(chunk: WireChunk): SplitChunk {
+    const base64 = chunk.base64.includes(',') ? chunk.base64.split(',')[1] : chunk.base64;
+    const mimeType = chunk.mimeType || 'image/png';
+
+    let data: Buffer | Blob;
+    if (this.options.chunkData === 'buffer') {
+      data = Buffer.from(base64, 'base64');
+    } else {
+      const characters = atob(base64);
+      const bytes = new Uint8Array(characters.length);
+      for (let i = 0; i < characters.length; i++) {
+        bytes[i] = characters.charCodeAt(i);
+      }
+      data = new Blob([bytes], { type: mimeType });
+    }
+
+    const metadata: ChunkMetadata = {
+      id: chunk.id,
+      width: chunk.width,
+      height: chunk.height,
+      xOffset: chunk.xOffset ?? 0,
+      yOffset: chunk.yOffset,
+      nominalXOffset: chunk.nominalXOffset ?? chunk.xOffset ?? 0,
+      nominalYOffset: chunk.nominalYOffset ?? chunk.yOffset,
+      row: chunk.row ?? chunk.id,
+      column: chunk.column ?? 0,
+      mimeType,
+    };
+    return { ...metadata, data, sizeBytes: data instanceof Blob ? data.size : data.length };
+  }
+
+  /**
+   * Read an NDJSON progress stream, reporting progress and chunks as they arrive
+   */
+  private async readProgressStream(response: Response, options: SplitRequestOptions): Promise<SplitResult> {
+    const chunks: SplitChunk[] = [];
+    let summary: ResultSummary | null = null;
+    let total: number | null = null;
+
+    const handleEvent = (event: WireProgressEvent): SplitResult | null => {
+      switch (event.stage) {
+        case 'error':
+          throw streamError(event, response);
+        case 'done':
+          return { ...event.result, chunks };
+        case 'plan':
+          summary = event.result;
+          total = event.total;
+          break;
+        case 'chunk': {
+          const chunk = this.decodeChunk(event.chunk);
+          chunks.push(chunk);
+          total = event.total;
+          if (summary) {
+            options.onChunk?.(chunk, { ...summary, chunkCount: event.total });
+          }
+          break;
+        }
+      }
+
+      const percent = event.stage === 'chunk' && total
+        ? STAGE_PERCENT.chunk + ((100 - STAGE_PERCENT.chunk) * chunks.length) / total
+        : STAGE_PERCENT[event.stage];
+      options.onProgress?.({ stage: event.stage, completed: chunks.length, total, percent });
+      return null;
+    };
+
+    return this.readEvents(response, handleEvent);
+  }
+
+  /**
+   * Read an NDJSON batch stream, reporting each item as it starts and finishes
+   */
+  private async readBatchStream(response: Response, options: SplitBatchOptions): Promise<SplitBatchResult> {
+    const finished: SplitBatchItem[] = [];
+
+    return this.readEvents(response, (event: WireBatchEvent) => {
+      switch (event.stage) {
+        case 'error':
+          throw streamError(event, response);
+        case 'done':
+          return { ...event.result, items: finished.sort((a, b) => a.index - b.index) };
+        case 'item': {
+          const { stage, ...item } = event;
+          const decoded = this.decodeBatchItem(item);
+          if (decoded.status !== 'processing') {
+            finished.push(decoded);
+          }
+          options.onItem?.(decoded);
+          return null;
+        }
+        default:
+          return null;
+      }
+    });
+  }
+
+  /**
+   * Hand every event of an NDJSON response to handleEvent until it returns a result
+   */
+  private async readEvents<E, T>(response: Response, handleEvent: (event: E) => T | null): Promise<T> {
+    if (!response.body) {
+      throw clientError('UNKNOWN_ERROR', 'Streaming responses are not supported here');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      buffered += decoder.decode(value, { stream: !done });
+
+      const lines = buffered.split('\n');
+      buffered = done ? '' : lines.pop() ?? '';
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const result = handleEvent(JSON.parse(line) as E);
+        if (result) {
+          return result;
+        }
+      }
+
+      if (done) {
+        throw clientError('NETWORK_ERROR', 'The connection closed before processing finished');
+      }
+    }
+  }
+}
@@ -2,8 +2,27 @@ require('dotenv').config();
 const express = require('express');
 const cors = require('cors');
 const path = require('path');
-const { splitImageApi } = require('./api/imageProcessor.js');
-const { processingRateLimiter, healthCheckRateLimiter } = require('./api/rateLimiter.js');
+const { cachedSplit } = require('./api/resultCache.js');
+const { validateProcessRequest, validateBatchRequest } = require('./api/validation.js');
+const { ApiError, ValidationError, sendError } = require('./api/errors.js');
+const { imageUpload } = require('./api/upload.js');
+const { resolveResponseFormat, chunkEncodingFor, openProgressStream, endWithError, sendResult } = require('./api/responseFormats.js');
+const {
+  processingRateLimiter,
+  healthCheckRateLimiter,
+  apiKeyRateLimiter,
+  batchRateLimiter,
+  apiKeyBatchRateLimiter,
+  planRateLimiter,
+  getUsage,
+  refundCacheHit,
+} = require('./api/rateLimiter.js');
+const { apiKeyAuth, optionalApiKeyAuth } = require('./api/apiKeys.js');
+const { startJob, getJobStore, readJob, publicJob } = require('./api/jobs.js');
+const { describeLimits } = require('./api/limits.js');
+const { getOpenApiSpec } = require('./api/openapi.js');
+const { assertBatchResponseFormat, runBatch } = require('./api/batch.js');
+const { planImageApi } = require('./api/imageProcessor.js');
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -46,22 +65,6 @@ app.use(cors({
 // Parse JSON bodies (as sent by API clients)
 app.use(express.json({ limit: '10mb' }));
 
-// API Key Authentication Middleware
-const apiKeyAuth = (req, res, next) => {
-  const apiKey = req.header('API_KEY');
-  if (!process.env.API_KEY) {
-    // Don't expose that API_KEY is misconfigured - log internally only
-    console.error('API_KEY is not set in the environment variables.');
-    return res.status(500).json({ error: 'Server error: API key not configured.' });
-  }
-  if (!apiKey || apiKey !== process.env.API_KEY) {
-    // Don't reveal whether the key exists or is wrong
-    return res.status(401).json({ error: 'Unauthorized' });
-  }
-  next();
-};
-
-
 // --- API Routes ---
 
 // Health check endpoint - must be before other routes
@@ -69,129 +72,299 @@ app.get('/api/health', healthCheckRateLimiter, (req, res) => {
   res.status(200).json({
     status: 'ok',
     timestamp: new Date().toISOString(),
-    apiKeyConfigured: !!process.env.API_KEY
+    apiKeyConfigured: !!process.env.API_KEY,
+    limits: describeLimits()
   });
 });
 
-// UI endpoint - uses API key from environment internally (no API key required from client)
-app.post('/api/ui/process', processingRateLimiter, async (req, res) => {
-  // Check if API key is configured (silent fail if not)
-  if (!process.env.API_KEY) {
-    console.error('API_KEY not configured - UI endpoint cannot function');
-    return res.status(500).json({ error: 'Server error. Please try again later.' });
+// OpenAPI 3 description of this API, rendered by the docs modal
+app.get('/api/openapi.json', (req, res) => {
+  res.setHeader('Cache-Control', 'public, max-age=300');
+  res.json(getOpenApiSpec());
+});
+
+/**
+ * Short description of the request's image for logs
+ */
+function describeSource(req) {
+  const upload = req.uploadedImage;
+  return upload
+    ? `uploaded image: ${upload.fileName || 'unnamed'} (${upload.buffer.length} bytes)`
+    : `image from URL: ${req.body.url}`;
+}
+
+/**
+ * Start a job for a validated request and answer 202 with where to follow it
+ */
+async function acceptJob(req, res, request) {
+  try {
+    console.log(`[API] Queuing job for ${describeSource(req)}`);
+    const { job } = await startJob(request);
+    res.setHeader('Location', `/api/v1/jobs/${job.id}`);
+    res.status(202).json({
+      ...job,
+      statusUrl: `/api/v1/jobs/${job.id}`,
+      resultUrl: `/api/v1/jobs/${job.id}/result`,
+    });
+  } catch (error) {
+    console.error('[API] Error creating job:', error.message);
+    sendError(res, error, 'Failed to create job. Please try again later.');
   }
+}
+
+/**
+ * Split the image of a validated request and send the result in the requested format,
+ * from the result cache when possible
+ */
+async function processImage(req, res, request, responseFormat, logPrefix) {
+  const { source, height, width, options, noCache } = request;
+  try {
+    console.log(`[${logPrefix}] Processing ${describeSource(req)}`);
+    // An NDJSON stream opens at the first event, which for a URL is its download before the lookup
+    let emit = null;
+    const onProgress = responseFormat === 'ndjson'
+      ? (event) => {
+        emit = emit || openProgressStream(res);
+        emit(event);
+      }
+      : undefined;
+
+    // Identical earlier splits are served from the cache; the header says which happened
+    const split = await cachedSplit(source, height, width, options, { noCache, onProgress });
+    if (!res.headersSent) {
+      res.setHeader('X-Cache', split.cacheStatus);
+    }
+    if (split.cacheStatus === 'HIT') {
+      await refundCacheHit(req, res);
+    }
+    const result = await split.run({
+      // Binary formats send raw bytes, so skip the base64 round trip
+      chunkEncoding: chunkEncodingFor(responseFormat),
+      onProgress,
+    });
+    await sendResult(res, result, responseFormat, { cacheStatus: split.cacheStatus });
+  } catch (error) {
+    // Log error details internally for debugging
+    console.error(`[${logPrefix}] Error processing image:`, error.message);
 
-  const { url, chunkHeight, resizeWidth } = req.body;
+    // A streamed response may already be under way, so the error has to go in the stream
+    if (res.headersSent) {
+      return endWithError(res, responseFormat, error);
+    }
+    sendError(res, error);
+  }
+}
 
-  // Input validation
-  if (!url || !chunkHeight) {
-    return res.status(400).json({ error: 'Missing required parameters: url, chunkHeight' });
+/**
+ * Split every image of a batch request and send the outcomes, all at once as JSON or
+ * item by item as NDJSON. Bad items fail on their own; only a malformed batch is refused.
+ */
+async function processBatch(req, res, logPrefix) {
+  let items;
+  let responseFormat;
+  try {
+    items = await validateBatchRequest(req);
+    ({ format: responseFormat } = resolveResponseFormat(req));
+    assertBatchResponseFormat(responseFormat);
+  } catch (error) {
+    return sendError(res, error);
   }
 
-  // Validate URL format
   try {
-    const urlObj = new URL(url);
-    // Only allow http/https protocols
-    if (!['http:', 'https:'].includes(urlObj.protocol)) {
-      return res.status(400).json({ error: 'Invalid URL protocol. Only http and https are allowed.' });
+    console.log(`[${logPrefix}] Processing batch of ${items.length} images`);
+    const emit = responseFormat === 'ndjson' ? openProgressStream(res) : null;
+    // Streamed results are written out as each item finishes, and only the counts are kept
+    const batch = await runBatch(items, {
+      onItem: emit ? (outcome) => emit({ stage: 'item', ...outcome }) : undefined,
+      // Items are charged one by one, so each cache hit is refunded on its own
+      onCacheHit: () => refundCacheHit(req, res),
+      keepResults: !emit,
+    });
+
+    if (emit) {
+      res.end(`${JSON.stringify({ stage: 'done', result: batch })}\n`);
+      return;
     }
+    res.json(batch);
   } catch (error) {
-    return res.status(400).json({ error: 'Invalid URL format' });
+    console.error(`[${logPrefix}] Error processing batch:`, error.message);
+    if (res.headersSent) {
+      return endWithError(res, responseFormat, error);
+    }
+    sendError(res, error);
   }
+}
 
-  const height = parseInt(chunkHeight, 10);
-  if (isNaN(height) || height <= 0 || height > 10000) {
-    return res.status(400).json({ error: 'Invalid chunkHeight: must be between 1 and 10000 pixels.' });
+/**
+ * Plan the split of a request without encoding any chunk: dimensions, chunk rectangles
+ * with estimated sizes and a small preview, always as JSON
+ */
+async function planImage(req, res, logPrefix) {
+  let request;
+  try {
+    request = await validateProcessRequest(req);
+    if (request.callbackUrl) {
+      throw new ValidationError('callbackUrl is not supported for a plan.', { field: 'callbackUrl' });
+    }
+  } catch (error) {
+    return sendError(res, error);
   }
 
-  const width = resizeWidth ? parseInt(resizeWidth, 10) : null;
-  if (width !== null && (isNaN(width) || width <= 0 || width > 10000)) {
-    return res.status(400).json({ error: 'Invalid resizeWidth: must be between 1 and 10000 pixels.' });
+  try {
+    console.log(`[${logPrefix}] Planning split of ${describeSource(req)}`);
+    const { source, height, width, options } = request;
+    res.json(await planImageApi(source, height, width, options));
+  } catch (error) {
+    console.error(`[${logPrefix}] Error planning split:`, error.message);
+    sendError(res, error);
   }
+}
 
+// UI endpoint - uses API key from environment internally (no API key required from client)
+app.post('/api/ui/process', processingRateLimiter, imageUpload, async (req, res) => {
+  // Check if API key is configured (silent fail if not)
+  if (!process.env.API_KEY) {
+    console.error('API_KEY not configured - UI endpoint cannot function');
+    return sendError(res, new ApiError('Server error. Please try again later.', { code: 'INTERNAL_ERROR', statusCode: 500 }));
+  }
+
+  let request;
+  let responseFormat;
   try {
-    console.log(`[UI] Processing image from URL: ${url}`);
-    // Use the same processing logic as the authenticated endpoint
-    const result = await splitImageApi(url, height, width);
-    res.json(result);
+    request = await validateProcessRequest(req);
+    // Callbacks need a job, and jobs are only created through the v1 API
+    if (request.callbackUrl) {
+      throw new ValidationError('callbackUrl is not supported by the web UI endpoint; use /api/v1/process or /api/v1/jobs.', { field: 'callbackUrl' });
+    }
+    // The web UI asks for NDJSON so it can show chunks as they are produced
+    ({ format: responseFormat } = resolveResponseFormat(req));
   } catch (error) {
-    // Log error details internally for debugging
-    console.error('[UI] Error processing image:', error.message);
-
-    // Provide more informative errors to client based on the error type
-    let userMessage = 'Failed to process image. Please try again later.';
-
-    if (error.message.includes('HTTP')) {
-      userMessage = 'Could not access the image URL. The server returned an error. Check if the URL is publicly accessible.';
-    } else if (error.message.includes('Invalid content type')) {
-      userMessage = 'The URL does not point to a valid image file.';
-    } else if (error.message.includes('timeout')) {
-      userMessage = 'The image took too long to download. Please try a smaller image or different URL.';
-    } else if (error.message.includes('ENOTFOUND') || error.message.includes('DNS')) {
-      userMessage = 'Could not resolve the domain. Please check the URL.';
-    } else if (error.message.includes('ECONNREFUSED')) {
-      userMessage = 'Connection refused by the server. The URL may be temporarily unavailable.';
+    return sendError(res, error);
+  }
+
+  // Use the same processing logic as the authenticated endpoint
+  await processImage(req, res, request, responseFormat, 'UI');
+});
+
+// Authenticated API endpoint (for programmatic use - requires API_KEY header)
+// The quota is charged after API key auth, so it knows whose quota to use;
+// apiKeyAuth limits wrong keys per IP itself
+app.post('/api/v1/process', apiKeyAuth, apiKeyRateLimiter, imageUpload, async (req, res) => {
+  let request;
+  let responseFormat;
+  try {
+    request = await validateProcessRequest(req);
+    // With a callbackUrl the split runs as a job and the result is POSTed there
+    if (request.callbackUrl) {
+      return acceptJob(req, res, request);
     }
+    // JSON (default), streamed ZIP, multipart/mixed or NDJSON progress events
+    ({ format: responseFormat } = resolveResponseFormat(req));
+  } catch (error) {
+    return sendError(res, error);
+  }
+
+  await processImage(req, res, request, responseFormat, 'API');
+});
+
+// Dry run - same parameters as /api/v1/process, answers with the plan instead of chunks.
+// Nothing is encoded, so plans have their own, more generous limit.
+app.post('/api/v1/plan', apiKeyAuth, planRateLimiter, imageUpload, async (req, res) => {
+  await planImage(req, res, 'API');
+});
 
-    res.status(500).json({ error: userMessage });
+// Batch of image URLs for the web UI, each item counted like a request to /api/ui/process
+app.post('/api/ui/batch', batchRateLimiter, async (req, res) => {
+  if (!process.env.API_KEY) {
+    console.error('API_KEY not configured - UI endpoint cannot function');
+    return sendError(res, new ApiError('Server error. Please try again later.', { code: 'INTERNAL_ERROR', statusCode: 500 }));
   }
+  await processBatch(req, res, 'UI');
 });
 
-// Authenticated API endpoint (for programmatic use - requires API_KEY header)
-// Rate limiting applied before API key auth so all requests are counted
-app.post('/api/v1/process', processingRateLimiter, apiKeyAuth, async (req, res) => {
-  const { url, chunkHeight, resizeWidth } = req.body;
+// Batch of image URLs, each with its own parameters, split in one request and counted per item
+app.post('/api/v1/batch', apiKeyAuth, apiKeyBatchRateLimiter, async (req, res) => {
+  await processBatch(req, res, 'API');
+});
 
-  // Input validation
-  if (!url || !chunkHeight) {
-    return res.status(400).json({ error: 'Missing required parameters: url, chunkHeight' });
+// Asynchronous jobs - same parameters as /api/v1/process, answers with a job id straight away
+app.post('/api/v1/jobs', apiKeyAuth, apiKeyRateLimiter, imageUpload, async (req, res) => {
+  let request;
+  try {
+    request = await validateProcessRequest(req);
+  } catch (error) {
+    return sendError(res, error);
   }
+  await acceptJob(req, res, request);
+});
 
-  // Validate URL format
+// Quota of the caller: their API key's when one is sent, their IP's otherwise.
+// Reading it doesn't count against processing.
+app.get('/api/v1/usage', optionalApiKeyAuth, async (req, res) => {
   try {
-    const urlObj = new URL(url);
-    // Only allow http/https protocols
-    if (!['http:', 'https:'].includes(urlObj.protocol)) {
-      return res.status(400).json({ error: 'Invalid URL protocol. Only http and https are allowed.' });
+    const usage = await getUsage(req);
+    res.setHeader('Cache-Control', 'no-store');
+    res.setHeader('X-RateLimit-Limit', usage.limit);
+    res.setHeader('X-RateLimit-Remaining', usage.remaining);
+    if (usage.reset) {
+      res.setHeader('X-RateLimit-Reset', usage.reset);
     }
+    res.status(200).json(usage);
   } catch (error) {
-    return res.status(400).json({ error: 'Invalid URL format' });
+    console.error('[API] Failed to read usage:', error.message);
+    sendError(res, error, 'Could not read usage.');
   }
+});
 
-  const height = parseInt(chunkHeight, 10);
-  if (isNaN(height) || height <= 0 || height > 10000) {
-    return res.status(400).json({ error: 'Invalid chunkHeight: must be between 1 and 10000 pixels.' });
-  }
+const jobNotFound = () => new ApiError('Job not found. It may have expired.', { code: 'JOB_NOT_FOUND', statusCode: 404 });
 
-  const width = resizeWidth ? parseInt(resizeWidth, 10) : null;
-  if (width !== null && (isNaN(width) || width <= 0 || width > 10000)) {
-    return res.status(400).json({ error: 'Invalid resizeWidth: must be between 1 and 10000 pixels.' });
+// Job status and progress
+app.get('/api/v1/jobs/:id', apiKeyAuth, async (req, res) => {
+  try {
+    const store = await getJobStore();
+    const job = await readJob(store, req.params.id);
+    if (!job) {
+      return sendError(res, jobNotFound());
+    }
+    res.json(publicJob(job));
+  } catch (error) {
+    console.error('[API] Error reading job:', error.message);
+    sendError(res, error, 'Failed to read job. Please try again later.');
   }
+});
 
+// Job result, in any of the /api/v1/process response formats except NDJSON
+app.get('/api/v1/jobs/:id/result', apiKeyAuth, async (req, res) => {
   try {
-    console.log(`[API] Processing image from URL: ${url}`);
-    const result = await splitImageApi(url, height, width);
-    res.json(result);
-  } catch (error) {
-    // Log error details internally for debugging
-    console.error('[API] Error processing image:', error.message);
-
-    // Provide more informative errors based on the error type
-    let userMessage = 'Failed to process image. Please try again later.';
-
-    if (error.message.includes('HTTP')) {
-      userMessage = 'Could not access the image URL. The server returned an error. Check if the URL is publicly accessible.';
-    } else if (error.message.includes('Invalid content type')) {
-      userMessage = 'The URL does not point to a valid image file.';
-    } else if (error.message.includes('timeout')) {
-      userMessage = 'The image took too long to download. Please try a smaller image or different URL.';
-    } else if (error.message.includes('ENOTFOUND') || error.message.includes('DNS')) {
-      userMessage = 'Could not resolve the domain. Please check the URL.';
-    } else if (error.message.includes('ECONNREFUSED')) {
-      userMessage = 'Connection refused by the server. The URL may be temporarily unavailable.';
+    const { format: responseFormat } = resolveResponseFormat(req);
+    if (responseFormat === 'ndjson') {
+      throw new ValidationError('Job results cannot be streamed as NDJSON; poll the job for progress instead.', { field: 'responseFormat' });
     }
 
-    res.status(500).json({ error: userMessage });
+    const store = await getJobStore();
+    const job = await readJob(store, req.params.id);
+    if (!job) {
+      return sendError(res, jobNotFound());
+    }
+    if (job.status !== 'completed') {
+      return sendError(res, new ApiError(`Job is ${job.status}, no result is available.`, {
+        code: 'JOB_NOT_COMPLETED',
+        statusCode: 409,
+        details: { status: job.status },
+      }));
+    }
+
+    const result = await store.getResult(job.id);
+    if (!result) {
+      return sendError(res, new ApiError('Job result not found. It may have expired.', { code: 'JOB_RESULT_NOT_FOUND', statusCode: 404 }));
+    }
+    await sendResult(res, result, responseFormat);
+  } catch (error) {
+    console.error('[API] Error reading job result:', error.message);
+    if (res.headersSent) {
+      return res.end();
+    }
+    sendError(res, error, 'Failed to read job result. Please try again later.');
   }
 });
 
@@ -237,11 +410,23 @@ app.get('/output.css', (req, res, next) => {
 app.get('*', (req, res) => {
   // Skip API routes
   if (req.path.startsWith('/api/')) {
-    return res.status(404).json({ error: 'Not found' });
+    return sendError(res, new ApiError('Not found', { code: 'NOT_FOUND', statusCode: 404 }));
   }
   res.sendFile(path.join(__dirname, 'index.html'));
 });
 
+// Errors passed on by middleware, such as a malformed JSON body
+app.use((error, req, res, next) => {
+  if (error.type === 'entity.parse.failed') {
+    return sendError(res, new ValidationError('The request body is not valid JSON.', { code: 'INVALID_JSON' }));
+  }
+  if (error.type === 'entity.too.large') {
+    return sendError(res, new ApiError('The request body is too large.', { code: 'PAYLOAD_TOO_LARGE', statusCode: 413 }));
+  }
+  console.error('[API] Unhandled error:', error.message);
+  sendError(res, error, 'Server error. Please try again later.');
+});
+
 
 // --- Server Startup ---
 // For local development
@@ -0,0 +1,207 @@
+/**
+ * The OpenAPI document served at /api/openapi.json, and the pieces the API docs modal
+ * renders from it: operations, their request parameters and example snippets.
+ */
+
+export type SchemaObject = Record<string, any>;
+
+export interface OpenApiSpec {
+  openapi: string;
+  info: { title: string; version: string; description?: string };
+  paths: Record<string, Record<string, SchemaObject>>;
+  components: {
+    schemas: Record<string, SchemaObject>;
+    responses: Record<string, SchemaObject>;
+    headers: Record<string, SchemaObject>;
+    securitySchemes: Record<string, SchemaObject>;
+  };
+}
+
+export interface ApiParameter {
+  name: string;
+  type: string;
+  required: boolean;
+  description: string;
+}
+
+export interface ApiResponseSummary {
+  status: string;
+  description: string;
+  /** Media types the response can come in */
+  contentTypes: string[];
+}
+
+export interface ApiOperation {
+  id: string;
+  method: string;
+  path: string;
+  summary: string;
+  description?: string;
+  /** Needs an API_KEY header (optional keys don't count) */
+  requiresKey: boolean;
+  parameters: ApiParameter[];
+  responses: ApiResponseSummary[];
+  /** Example JSON body, when the operation takes one */
+  exampleBody?: Record<string, unknown>;
+}
+
+export type SnippetLanguage = 'curl' | 'fetch' | 'python';
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+/**
+ * Load the API description; null when the server doesn't provide one
+ */
+export const fetchApiSpec = async (): Promise<OpenApiSpec | null> => {
+  try {
+    const response = await fetch('/api/openapi.json');
+    return response.ok ? await response.json() : null;
+  } catch (error) {
+    console.error('Failed to load the API description:', error);
+    return null;
+  }
+};
+
+/**
+ * Follow $refs within the document
+ */
+export const resolveRef = (spec: OpenApiSpec, value: SchemaObject): SchemaObject => {
+  let resolved = value;
+  while (resolved?.$ref) {
+    resolved = resolved.$ref
+      .replace(/^#\//, '')
+      .split('/')
+      .reduce((node: any, key: string) => node?.[key], spec);
+  }
+  return resolved ?? {};
+};
+
+/**
+ * Short type label for a parameter, such as "integer 1-10000" or "png | jpeg | webp"
+ */
+const typeLabel = (schema: SchemaObject): string => {
+  if (schema.enum) {
+    return schema.enum.join(' | ');
+  }
+  if (schema.format === 'binary') {
+    return 'file';
+  }
+  if (schema.type === 'array' && schema.items) {
+    return `${schema.items.type}[]`;
+  }
+  if (schema.minimum !== undefined && schema.maximum !== undefined) {
+    return `${schema.type} ${schema.minimum}-${schema.maximum}`;
+  }
+  if (schema.minimum !== undefined) {
+    return `${schema.type} ≥ ${schema.minimum}`;
+  }
+  return schema.format === 'uri' ? 'url' : schema.type;
+};
+
+const describeParameter = (schema: SchemaObject): string =>
+  schema.default !== undefined ? `${schema.description ?? ''} (default: ${schema.default})` : schema.description ?? '';
+
+/**
+ * Path, query and JSON body parameters of an operation
+ */
+const operationParameters = (spec: OpenApiSpec, operation: SchemaObject): ApiParameter[] => {
+  const parameters: ApiParameter[] = (operation.parameters ?? []).map((parameter: SchemaObject) => ({
+    name: parameter.name,
+    type: typeLabel(parameter.schema ?? {}),
+    required: !!parameter.required,
+    description: parameter.description ?? `${parameter.in} parameter`,
+  }));
+
+  const body = operation.requestBody?.content?.['application/json'];
+  if (body) {
+    const schema = resolveRef(spec, body.schema);
+    for (const [name, property] of Object.entries<SchemaObject>(schema.properties ?? {})) {
+      parameters.push({
+        name,
+        type: typeLabel(property),
+        required: (schema.required ?? []).includes(name),
+        description: describeParameter(property),
+      });
+    }
+  }
+  return parameters;
+};
+
+/**
+ * Every operation in the document, in the order the paths are listed
+ */
+export const listOperations = (spec: OpenApiSpec): ApiOperation[] =>
+  Object.entries(spec.paths).flatMap(([path, methods]) =>
+    HTTP_METHODS.filter((method) => methods[method]).map((method) => {
+      const operation = methods[method];
+      const security: SchemaObject[] = operation.security ?? [];
+      return {
+        id: operation.operationId ?? `${method} ${path}`,
+        method: method.toUpperCase(),
+        path,
+        summary: operation.summary ?? path,
+        description: operation.description,
+        requiresKey: security.length > 0 && security.every((requirement) => 'ApiKey' in requirement),
+        parameters: operationParameters(spec, operation),
+        responses: Object.entries<SchemaObject>(operation.responses ?? {}).map(([status, response]) => {
+          const resolved = resolveRef(spec, response);
+          return { status, description: resolved.description ?? '', contentTypes: Object.keys(resolved.content ?? {}) };
+        }),
+        exampleBody: operation.requestBody?.content?.['application/json']?.example,
+      };
+    })
+  );
+
+/**
+ * A Python literal for a JSON value
+ */
+const toPython = (value: unknown, indent = ''): string => {
+  if (value === null || value === undefined) return 'None';
+  if (value === true) return 'True';
+  if (value === false) return 'False';
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => toPython(item, indent)).join(', ')}]`;
+  }
+  if (typeof value === 'object') {
+    const inner = `${indent}    `;
+    const entries = Object.entries(value).map(([key, item]) => `${inner}${JSON.stringify(key)}: ${toPython(item, inner)},`);
+    return `{\n${entries.join('\n')}\n${indent}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * Example request for an operation against the given origin
+ */
+export const buildSnippet = (operation: ApiOperation, language: SnippetLanguage, origin: string): string => {
+  const url = origin + operation.path.replace(/\{(\w+)\}/g, (_, name) => `<${name}>`);
+  const body = operation.exampleBody;
+
+  if (language === 'curl') {
+    const lines = [`curl -X ${operation.method} "${url}"`];
+    if (operation.requiresKey) lines.push(`  -H "API_KEY: your-api-key"`);
+    if (body) {
+      lines.push(`  -H "Content-Type: application/json"`);
+      lines.push(`  -d '${JSON.stringify(body, null, 2).replace(/\n/g, '\n  ')}'`);
+    }
+    return lines.join(' \\\n');
+  }
+
+  if (language === 'fetch') {
+    const headers = [
+      ...(body ? [`'Content-Type': 'application/json'`] : []),
+      ...(operation.requiresKey ? [`API_KEY: 'your-api-key'`] : []),
+    ];
+    const options = [
+      `  method: '${operation.method}',`,
+      ...(headers.length ? [`  headers: { ${headers.join(', ')} },`] : []),
+      ...(body ? [`  body: JSON.stringify(${JSON.stringify(body, null, 2).replace(/\n/g, '\n  ')}),`] : []),
+    ];
+    return `const response = await fetch('${url}', {\n${options.join('\n')}\n});\nconst data = await response.json();`;
+  }
+
+  const args = [`    "${url}",`];
+  if (operation.requiresKey) args.push(`    headers={"API_KEY": "your-api-key"},`);
+  if (body) args.push(`    json=${toPython(body, '    ')},`);
+  return `import requests\n\nresponse = requests.${operation.method.toLowerCase()}(\n${args.join('\n')}\n)\nresponse.raise_for_status()\nprint(response.json())`;
+};
@@ -1,88 +1,162 @@
-import { ProcessedChunk, ProcessingResult } from '../types';
+import { BatchItem, ProcessedChunk, ProcessingResult, QuotaStatus, SplitBatchItem, SplitChunk, SplitHandlers, SplitOptions, SplitResult } from '../types';
+import { ImageInput, SplitRequestError, SplitStreamClient } from '../sdk/splitStreamClient';
+
+export { SplitRequestError };
+
+// The web UI goes through the unauthenticated UI route, limited per IP. A refused request
+// is shown straight away with the quota meter rather than retried in the background.
+const client = new SplitStreamClient({ processPath: '/api/ui/process', batchPath: '/api/ui/batch', chunkData: 'blob', maxRetries: 0 });
 
 /**
- * Process image via backend API (server-side processing)
- * This avoids CORS issues and works with any image URL
+ * Give a decoded chunk an object URL so it can be shown and downloaded
  */
-export const splitImage = async (
-  imageUrl: string, 
-  targetChunkHeight: number,
-  resizeWidth: number | null
-): Promise<ProcessingResult> => {
+const toProcessedChunk = ({ data, ...metadata }: SplitChunk): ProcessedChunk => {
+  const blob = data as Blob;
+  return { ...metadata, blob, dataUrl: URL.createObjectURL(blob) };
+};
+
+/**
+ * Current processing quota for this browser's IP, without spending a request
+ */
+export const fetchQuota = async (): Promise<QuotaStatus | null> => {
   try {
-    const response = await fetch('/api/ui/process', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        url: imageUrl,
-        chunkHeight: targetChunkHeight,
-        resizeWidth: resizeWidth
-      })
-    });
+    const { limit, remaining, reset } = await client.getUsage();
+    return { limit, remaining, reset };
+  } catch (error) {
+    console.error('Failed to load quota:', error);
+    return null;
+  }
+};
 
-    if (!response.ok) {
-      let errorMessage = `Backend API error: ${response.status}`;
-      try {
-        const errorData = await response.json();
-        errorMessage = errorData.error || errorMessage;
-      } catch (parseError) {
-        // If response is not JSON, try to get text
-        try {
-          const text = await response.text();
-          errorMessage = text || errorMessage;
-        } catch (textError) {
-          // If all else fails, use status text
-          errorMessage = response.statusText || errorMessage;
-        }
-      }
-      throw new Error(errorMessage);
+/**
+ * Split an image through the backend, streaming progress so chunks can be shown
+ * while the rest are still being cut
+ */
+const requestSplit = async (
+  image: ImageInput,
+  targetChunkHeight: number | null,
+  resizeWidth: number | null,
+  options: SplitOptions,
+  handlers: SplitHandlers
+): Promise<ProcessingResult> => {
+  // Chunks already shown keep their object URLs when the final result arrives
+  const shown = new Map<number, ProcessedChunk>();
+  const show = (chunk: SplitChunk) => {
+    if (!shown.has(chunk.id)) {
+      shown.set(chunk.id, toProcessedChunk(chunk));
     }
+    return shown.get(chunk.id)!;
+  };
 
-    const apiResult = await response.json();
-    
-    // Convert base64 chunks to Blobs for consistency
-    const chunks: ProcessedChunk[] = apiResult.chunks.map((chunk: any) => {
-      // Convert base64 to blob
-      const base64Data = chunk.base64.includes(',') 
-        ? chunk.base64.split(',')[1] 
-        : chunk.base64;
-      
-      const byteCharacters = atob(base64Data);
-      const byteNumbers = new Array(byteCharacters.length);
-      for (let i = 0; i < byteCharacters.length; i++) {
-        byteNumbers[i] = byteCharacters.charCodeAt(i);
+  try {
+    const result: SplitResult = await client.split(
+      image,
+      { chunkHeight: targetChunkHeight, resizeWidth, ...options },
+      {
+        stream: true,
+        onQuota: handlers.onQuota,
+        onProgress: handlers.onProgress,
+        onChunk: (chunk, summary) => {
+          show(chunk);
+          handlers.onPartialResult?.({ ...summary, chunks: [...shown.values()] });
+        },
       }
-      const byteArray = new Uint8Array(byteNumbers);
-      const blob = new Blob([byteArray], { type: 'image/png' });
-      const dataUrl = URL.createObjectURL(blob);
+    );
+    return { ...result, chunks: result.chunks.map(show) };
+  } catch (error: any) {
+    console.error('Image processing error:', error);
+    // Keep the server's code and field; only the message gets the prefix
+    const failure = error instanceof SplitRequestError
+      ? error
+      : new SplitRequestError({ code: 'UNKNOWN_ERROR', message: error.message || 'Unknown error occurred', field: null, details: null });
+    failure.message = `Image processing failed: ${failure.message}`;
+    throw failure;
+  }
+};
 
-      return {
-        id: chunk.id,
-        blob,
-        dataUrl,
-        height: chunk.height,
-        yOffset: chunk.yOffset,
-        sizeBytes: blob.size
-      };
-    });
+/**
+ * Process image via backend API (server-side processing)
+ * This avoids CORS issues and works with any image URL
+ */
+export const splitImage = async (
+  imageUrl: string, 
+  targetChunkHeight: number | null,
+  resizeWidth: number | null,
+  options: SplitOptions = {},
+  handlers: SplitHandlers = {}
+): Promise<ProcessingResult> => requestSplit(imageUrl, targetChunkHeight, resizeWidth, options, handlers);
 
-    return {
-      originalUrl: apiResult.originalUrl,
-      totalWidth: apiResult.totalWidth,
-      totalHeight: apiResult.totalHeight,
-      chunkHeight: apiResult.chunkHeight,
-      resizeWidth: apiResult.resizeWidth,
-      chunkCount: apiResult.chunkCount,
-      chunks,
-      processingTimeMs: apiResult.processingTimeMs
+/**
+ * Process a local image file (picked, dropped or pasted) via the backend API.
+ * The file is uploaded as multipart form data, so nothing has to be hosted first.
+ */
+export const splitImageFile = async (
+  file: File,
+  targetChunkHeight: number | null,
+  resizeWidth: number | null,
+  options: SplitOptions = {},
+  handlers: SplitHandlers = {}
+): Promise<ProcessingResult> => requestSplit(file, targetChunkHeight, resizeWidth, options, handlers);
+
+/**
+ * Split a list of image URLs in one request; each image counts against the quota.
+ * onItem is called as each image starts and as it completes or fails, with its chunks
+ * ready to show; the promise only rejects when the batch as a whole is refused.
+ */
+export const splitImageBatch = async (
+  urls: string[],
+  targetChunkHeight: number | null,
+  resizeWidth: number | null,
+  options: SplitOptions = {},
+  handlers: { onItem?: (item: BatchItem) => void; onQuota?: (quota: QuotaStatus) => void } = {}
+): Promise<BatchItem[]> => {
+  // Items already reported as finished keep their object URLs when the final result arrives
+  const finished = new Map<number, BatchItem>();
+  const toBatchItem = ({ index, status, result, error }: SplitBatchItem): BatchItem => {
+    if (finished.has(index)) {
+      return finished.get(index)!;
+    }
+    const item: BatchItem = {
+      index,
+      url: urls[index],
+      status,
+      error,
+      result: result && { ...result, chunks: result.chunks.map(toProcessedChunk) },
     };
+    if (status !== 'processing') {
+      finished.set(index, item);
+    }
+    return item;
+  };
+
+  try {
+    const batch = await client.splitBatch(
+      urls,
+      { chunkHeight: targetChunkHeight, resizeWidth, ...options },
+      { onQuota: handlers.onQuota, onItem: (item) => handlers.onItem?.(toBatchItem(item)) }
+    );
+    return batch.items.map(toBatchItem);
   } catch (error: any) {
-    // Preserve the original error message
-    const errorMessage = error.message || 'Unknown error occurred';
-    console.error('Image processing error:', error);
-    throw new Error(`Image processing failed: ${errorMessage}`);
+    console.error('Batch processing error:', error);
+    const failure = error instanceof SplitRequestError
+      ? error
+      : new SplitRequestError({ code: 'UNKNOWN_ERROR', message: error.message || 'Unknown error occurred', field: null, details: null });
+    failure.message = `Batch processing failed: ${failure.message}`;
+    throw failure;
+  }
+};
+
+/**
+ * File extension to use when downloading a chunk of the given MIME type
+ */
+export const getFileExtension = (mimeType: string) => {
+  switch (mimeType) {
+    case 'image/jpeg':
+      return 'jpg';
+    case 'image/webp':
+      return 'webp';
+    default:
+      return 'png';
   }
 };
 
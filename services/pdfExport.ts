@@ -0,0 +1,59 @@
+import { ProcessedChunk, ProcessingResult } from '../types';
+import { pagePlacement, serializePdf } from '../api/pdfWriter.js';
+
+/**
+ * PDF export of a split in the browser, one page per chunk. The layout and the file are
+ * written by api/pdfWriter.js, exactly as for the API's responseFormat 'pdf'; only the
+ * image data of each chunk is made here, from the chunks the page already has.
+ */
+
+interface PdfImage {
+  filter: 'DCTDecode' | 'FlateDecode';
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+/**
+ * Image data for a chunk: JPEG bytes as they are, anything else drawn onto white
+ * and deflated as raw RGB so it stays lossless
+ */
+const pdfImage = async (chunk: ProcessedChunk): Promise<PdfImage> => {
+  if (chunk.mimeType === 'image/jpeg') {
+    return { filter: 'DCTDecode', data: new Uint8Array(await chunk.blob.arrayBuffer()), width: chunk.width, height: chunk.height };
+  }
+
+  const bitmap = await createImageBitmap(chunk.blob);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const context = canvas.getContext('2d')!;
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const rgba = context.getImageData(0, 0, canvas.width, canvas.height).data;
+  const rgb = new Uint8Array((rgba.length / 4) * 3);
+  for (let source = 0, target = 0; source < rgba.length; source += 4, target += 3) {
+    rgb[target] = rgba[source];
+    rgb[target + 1] = rgba[source + 1];
+    rgb[target + 2] = rgba[source + 2];
+  }
+
+  // 'deflate' is the zlib format FlateDecode expects
+  const deflated = new Blob([rgb]).stream().pipeThrough(new CompressionStream('deflate'));
+  return { filter: 'FlateDecode', data: new Uint8Array(await new Response(deflated).arrayBuffer()), width: canvas.width, height: canvas.height };
+};
+
+/**
+ * Build a PDF of a result's chunks, one page each
+ */
+export const createPdf = async (result: ProcessingResult): Promise<Blob> => {
+  const pages = [];
+  for (const chunk of result.chunks) {
+    pages.push({ placement: pagePlacement(result, chunk), image: await pdfImage(chunk) });
+  }
+  // The parts are all freshly allocated, so none of them is a view of shared memory
+  return new Blob(serializePdf(pages) as BlobPart[], { type: 'application/pdf' });
+};
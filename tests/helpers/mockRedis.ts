@@ -1,8 +1,12 @@
 /**
  * Mock Redis implementation for testing
  * Simulates Upstash Redis behavior in tests
+ *
+ * EVAL runs the actual Lua scripts (via fengari), with redis.call backed by this store.
  */
 
+import { lua, lauxlib, lualib, to_luastring } from 'fengari';
+
 interface RedisEntry {
   value: any;
   expiresAt: number | null;
@@ -57,6 +61,19 @@ export class MockRedisClient {
     return true;
   }
 
+  async sadd(key: string, ...members: string[]): Promise<number> {
+    // No await before the write, so concurrent calls can't lose members (SADD is atomic)
+    const set: Set<string> = this.store.get(key)?.value || new Set();
+    const added = members.filter((member) => !set.has(member)).length;
+    members.forEach((member) => set.add(member));
+    this.store.set(key, { value: set, expiresAt: this.store.get(key)?.expiresAt || null });
+    return added;
+  }
+
+  async smembers(key: string): Promise<string[]> {
+    return [...((await this.get(key)) || [])];
+  }
+
   async del(key: string): Promise<number> {
     return this.store.delete(key) ? 1 : 0;
   }
@@ -65,6 +82,140 @@ export class MockRedisClient {
     this.store.clear();
   }
 
+  /**
+   * Run a Lua script atomically, like Upstash's redis.eval(script, keys, args)
+   */
+  async eval(script: string, keys: string[], args: unknown[]): Promise<any> {
+    const L = lauxlib.luaL_newstate();
+    lualib.luaL_openlibs(L);
+
+    const pushStrings = (name: string, values: unknown[]) => {
+      lua.lua_createtable(L, values.length, 0);
+      values.forEach((value, i) => {
+        lua.lua_pushstring(L, to_luastring(String(value)));
+        lua.lua_rawseti(L, -2, i + 1);
+      });
+      lua.lua_setglobal(L, to_luastring(name));
+    };
+    pushStrings('KEYS', keys);
+    pushStrings('ARGV', args);
+
+    lua.lua_createtable(L, 0, 1);
+    lua.lua_pushcfunction(L, (state: any) => {
+      const argv: string[] = [];
+      for (let i = 1; i <= lua.lua_gettop(state); i++) {
+        argv.push(lua.lua_tojsstring(state, i));
+      }
+      try {
+        pushLuaValue(state, this.call(argv[0].toUpperCase(), argv.slice(1)));
+      } catch (error: any) {
+        return lauxlib.luaL_error(state, to_luastring(error.message));
+      }
+      return 1;
+    });
+    lua.lua_setfield(L, -2, to_luastring('call'));
+    lua.lua_setglobal(L, to_luastring('redis'));
+
+    if (lauxlib.luaL_loadstring(L, to_luastring(script)) !== lua.LUA_OK || lua.lua_pcall(L, 0, 1, 0) !== lua.LUA_OK) {
+      throw new Error(`ERR Error running script: ${lua.lua_tojsstring(L, -1)}`);
+    }
+    return readLuaValue(L, -1);
+  }
+
+  /**
+   * The synchronous commands available to scripts
+   */
+  private call(command: string, args: string[]): any {
+    const [key] = args;
+    const entry = this.liveEntry(key);
+    const now = Date.now();
+
+    switch (command) {
+      case 'GET':
+        return entry ? String(entry.value) : null;
+      case 'SET':
+        this.store.set(key, { value: args[1], expiresAt: null });
+        return 'OK';
+      case 'DEL':
+        return this.store.delete(key) ? 1 : 0;
+      case 'INCR': {
+        const value = Number(entry?.value || 0) + 1;
+        this.store.set(key, { value, expiresAt: entry?.expiresAt || null });
+        return value;
+      }
+      case 'DECR':
+      case 'DECRBY': {
+        const value = Number(entry?.value || 0) - Number(command === 'DECR' ? 1 : args[1]);
+        this.store.set(key, { value, expiresAt: entry?.expiresAt || null });
+        return value;
+      }
+      case 'PEXPIRE':
+        if (!entry) return 0;
+        entry.expiresAt = now + Number(args[1]);
+        return 1;
+      case 'PTTL':
+        if (!entry) return -2;
+        return entry.expiresAt ? entry.expiresAt - now : -1;
+      case 'ZADD': {
+        const set: Map<string, number> = entry?.value instanceof Map ? entry.value : new Map();
+        const added = set.has(args[2]) ? 0 : 1;
+        set.set(args[2], Number(args[1]));
+        this.store.set(key, { value: set, expiresAt: entry?.expiresAt || null });
+        return added;
+      }
+      case 'ZREM': {
+        if (!entry) return 0;
+        return args.slice(1).filter((member) => entry.value.delete(member)).length;
+      }
+      case 'ZCARD':
+        return entry ? entry.value.size : 0;
+      case 'ZREMRANGEBYSCORE': {
+        if (!entry) return 0;
+        const [min, max] = args.slice(1).map((bound) => (bound === '-inf' ? -Infinity : bound === '+inf' ? Infinity : Number(bound)));
+        let removed = 0;
+        for (const [member, score] of entry.value) {
+          if (score >= min && score <= max) {
+            entry.value.delete(member);
+            removed++;
+          }
+        }
+        return removed;
+      }
+      case 'ZRANGE': {
+        if (!entry) return [];
+        const sorted = [...entry.value.entries()].sort((a, b) => a[1] - b[1] || a[0].localeCompare(b[0]));
+        const index = (value: string) => (Number(value) < 0 ? sorted.length + Number(value) : Number(value));
+        const range = sorted.slice(index(args[1]), index(args[2]) + 1);
+        return args[3]?.toUpperCase() === 'WITHSCORES'
+          ? range.flatMap(([member, score]) => [member, String(score)])
+          : range.map(([member]) => member);
+      }
+      case 'HMGET':
+        return args.slice(1).map((field) => entry?.value[field] ?? null);
+      case 'HSET': {
+        const hash = entry?.value && typeof entry.value === 'object' ? entry.value : {};
+        let added = 0;
+        for (let i = 1; i < args.length; i += 2) {
+          added += args[i] in hash ? 0 : 1;
+          hash[args[i]] = args[i + 1];
+        }
+        this.store.set(key, { value: hash, expiresAt: entry?.expiresAt || null });
+        return added;
+      }
+      default:
+        throw new Error(`ERR unknown command '${command}' in mock`);
+    }
+  }
+
+  private liveEntry(key: string): RedisEntry | undefined {
+    const entry = this.store.get(key);
+    if (entry && entry.expiresAt && entry.expiresAt <= Date.now()) {
+      this.store.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
   // Check internal state (useful for testing)
   _getStore(): Map<string, RedisEntry> {
     return this.store;
@@ -79,6 +230,53 @@ export class MockRedisClient {
   }
 }
 
+/**
+ * Push a command reply onto the Lua stack the way Redis converts it (nil becomes false)
+ */
+function pushLuaValue(L: any, value: any): void {
+  if (value === null || value === undefined) {
+    lua.lua_pushboolean(L, false);
+  } else if (Array.isArray(value)) {
+    lua.lua_createtable(L, value.length, 0);
+    value.forEach((item, i) => {
+      pushLuaValue(L, item);
+      lua.lua_rawseti(L, -2, i + 1);
+    });
+  } else if (typeof value === 'number') {
+    lua.lua_pushinteger(L, value);
+  } else {
+    lua.lua_pushstring(L, to_luastring(String(value)));
+  }
+}
+
+/**
+ * Convert a script's return value the way Redis does (numbers are truncated to integers)
+ */
+function readLuaValue(L: any, index: number): any {
+  switch (lua.lua_type(L, index)) {
+    case lua.LUA_TNUMBER:
+      return Math.trunc(lua.lua_tonumber(L, index));
+    case lua.LUA_TSTRING:
+      return lua.lua_tojsstring(L, index);
+    case lua.LUA_TBOOLEAN:
+      return lua.lua_toboolean(L, index) ? 1 : null;
+    case lua.LUA_TTABLE: {
+      const items = [];
+      for (let i = 1; ; i++) {
+        lua.lua_rawgeti(L, index, i);
+        if (lua.lua_isnil(L, -1)) {
+          lua.lua_pop(L, 1);
+          return items;
+        }
+        items.push(readLuaValue(L, -1));
+        lua.lua_pop(L, 1);
+      }
+    }
+    default:
+      return null;
+  }
+}
+
 /**
  * Factory function to create a mock Redis client
  */
@@ -0,0 +1,91 @@
+/**
+ * Checks values against the schemas of an OpenAPI 3.0 document.
+ *
+ * Covers the subset of JSON Schema that api/openapi.js uses: $ref, allOf, nullable,
+ * type, enum, required, properties, items, minimum and maximum.
+ */
+
+type Schema = Record<string, any>;
+
+export function resolveRef(spec: Schema, value: Schema): Schema {
+  let resolved = value;
+  while (resolved && resolved.$ref) {
+    const path = resolved.$ref.replace(/^#\//, '').split('/');
+    resolved = path.reduce((node: any, key: string) => node?.[key], spec);
+    if (!resolved) {
+      throw new Error(`Unresolvable $ref ${value.$ref}`);
+    }
+  }
+  return resolved;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+/**
+ * Every way the value breaks the schema, as "path: problem" lines (empty when it conforms)
+ */
+export function schemaErrors(spec: Schema, schemaOrRef: Schema, value: unknown, path = '$'): string[] {
+  const schema = resolveRef(spec, schemaOrRef);
+
+  if (value === null) {
+    return schema.nullable ? [] : [`${path}: must not be null`];
+  }
+  if (schema.allOf) {
+    return schema.allOf.flatMap((part: Schema) => schemaErrors(spec, part, value, path));
+  }
+
+  const errors: string[] = [];
+  const actual = typeOf(value);
+  if (schema.type && actual !== schema.type && !(schema.type === 'number' && actual === 'integer')) {
+    return [`${path}: expected ${schema.type}, got ${actual}`];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path}: ${JSON.stringify(value)} is not one of ${schema.enum.join(', ')}`);
+  }
+  if (schema.minimum !== undefined && (value as number) < schema.minimum) {
+    errors.push(`${path}: below the minimum of ${schema.minimum}`);
+  }
+  if (schema.maximum !== undefined && (value as number) > schema.maximum) {
+    errors.push(`${path}: above the maximum of ${schema.maximum}`);
+  }
+
+  if (actual === 'object') {
+    const object = value as Record<string, unknown>;
+    for (const name of schema.required || []) {
+      if (!(name in object)) {
+        errors.push(`${path}.${name}: is required`);
+      }
+    }
+    for (const [name, property] of Object.entries(schema.properties || {})) {
+      if (object[name] !== undefined) {
+        errors.push(...schemaErrors(spec, property as Schema, object[name], `${path}.${name}`));
+      }
+    }
+  }
+  if (actual === 'array' && schema.items) {
+    (value as unknown[]).forEach((item, index) => {
+      errors.push(...schemaErrors(spec, schema.items, item, `${path}[${index}]`));
+    });
+  }
+  return errors;
+}
+
+/**
+ * The documented response of an operation for a status, with its refs resolved
+ */
+export function documentedResponse(spec: Schema, method: string, path: string, status: number): Schema {
+  const operation = spec.paths[path]?.[method.toLowerCase()];
+  if (!operation) {
+    throw new Error(`${method} ${path} is not documented`);
+  }
+  const response = operation.responses[String(status)];
+  if (!response) {
+    throw new Error(`${method} ${path} does not document status ${status}`);
+  }
+  return resolveRef(spec, response);
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import app from '../../server.js';
+import { createApiKey, setApiKeyEnabled, createFileKeyStore } from '../../api/apiKeys.js';
+
+describe('API Keys - Integration Tests', () => {
+  let dir: string;
+  let store: ReturnType<typeof createFileKeyStore>;
+
+  beforeAll(() => {
+    // The server reads the same key file, just like it picks up keys made with the CLI
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'splitstream-keys-'));
+    process.env.API_KEYS_FILE = path.join(dir, 'keys.json');
+    store = createFileKeyStore(process.env.API_KEYS_FILE);
+  });
+
+  afterAll(() => {
+    delete process.env.API_KEYS_FILE;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  // Missing parameters fail validation after auth and rate limiting, so nothing is downloaded
+  const callWith = (key: string, ip: string) =>
+    request(app).post('/api/v1/process').set('API_KEY', key).set('X-Forwarded-For', ip).send({});
+
+  it('should accept a managed key and refuse unknown ones', async () => {
+    const { key } = await createApiKey(store, { name: 'ci' });
+
+    expect((await callWith(key, '10.6.1.1')).status).toBe(400);
+    expect((await callWith('ss_000000000000_AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA', '10.6.1.1')).status).toBe(401);
+  });
+
+  it('should refuse a key once it is revoked', async () => {
+    const { key, record } = await createApiKey(store, { name: 'ci' });
+    expect((await callWith(key, '10.6.1.2')).status).toBe(400);
+
+    await setApiKeyEnabled(store, record.id, false);
+    const res = await callWith(key, '10.6.1.2');
+    expect(res.status).toBe(401);
+    expect(res.body.error).toEqual({ code: 'UNAUTHORIZED', message: 'Unauthorized', field: null, details: null });
+  });
+
+  it('should count requests against the key quota, whatever the IP', async () => {
+    const { key } = await createApiKey(store, { name: 'ci', quotaPerHour: 2 });
+
+    const first = await callWith(key, '10.6.1.3');
+    expect(first.headers['x-ratelimit-limit']).toBe('2');
+    expect((await callWith(key, '10.6.1.4')).status).toBe(400);
+
+    const limited = await callWith(key, '10.6.1.5');
+    expect(limited.status).toBe(429);
+
+    // Another key from the same IP has its own quota
+    const { key: otherKey } = await createApiKey(store, { name: 'other', quotaPerHour: 2 });
+    expect((await callWith(otherKey, '10.6.1.5')).status).toBe(400);
+  });
+
+  it('should keep the environment key on the per-IP limit', async () => {
+    const res = await callWith(process.env.API_KEY as string, '10.6.1.6');
+
+    expect(res.status).toBe(400);
+    expect(res.headers['x-ratelimit-limit']).toBe('10');
+  });
+
+  it('should refuse an IP that keeps sending wrong keys, even with a valid key', async () => {
+    const { key } = await createApiKey(store, { name: 'ci' });
+    const wrongKey = 'ss_000000000000_AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA';
+
+    for (let attempt = 0; attempt < 20; attempt++) {
+      expect((await callWith(wrongKey, '10.6.8.1')).status).toBe(401);
+    }
+    const refused = await callWith(key, '10.6.8.1');
+    expect(refused.status).toBe(429);
+    expect(refused.body.error.code).toBe('RATE_LIMITED');
+    expect(Number(refused.headers['retry-after'])).toBeGreaterThan(0);
+
+    // Other IPs are not affected
+    expect((await callWith(key, '10.6.8.2')).status).toBe(400);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import request from 'supertest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import Jimp from 'jimp';
+import app from '../../server.js';
+import { documentedResponse, schemaErrors } from '../helpers/openapiContract';
+
+describe('Batch Processing - Integration Tests', () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  const batch = (ip: string) =>
+    request(app)
+      .post('/api/v1/batch')
+      .set('API_KEY', process.env.API_KEY as string)
+      .set('X-Forwarded-For', ip);
+
+  beforeAll(async () => {
+    // The images are served from loopback, which the SSRF guard blocks by default
+    process.env.FETCH_ALLOW_PRIVATE_NETWORKS = 'true';
+    const tall = await new Jimp(30, 250, 0x2266aaff).getBufferAsync(Jimp.MIME_PNG);
+    const short = await new Jimp(30, 120, 0xaa6622ff).getBufferAsync(Jimp.MIME_PNG);
+
+    server = http.createServer((req, res) => {
+      const image = req.url === '/tall.png' ? tall : req.url === '/short.png' ? short : null;
+      if (!image) {
+        res.statusCode = 404;
+        return res.end('Not found');
+      }
+      res.setHeader('Content-Type', 'image/png');
+      res.end(image);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    delete process.env.FETCH_ALLOW_PRIVATE_NETWORKS;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should split every item, report failures per item and count each of them', async () => {
+    const res = await batch('10.6.6.1').send({
+      chunkHeight: 100,
+      items: [
+        `${baseUrl}/tall.png`,
+        { url: `${baseUrl}/short.png`, chunkHeight: 60, outputFormat: 'jpeg' },
+        `${baseUrl}/missing.png`,
+        { url: `${baseUrl}/tall.png`, chunkHeight: 0 },
+      ],
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.headers['x-ratelimit-remaining']).toBe('6');
+    expect(res.body).toMatchObject({ itemCount: 4, completed: 2, failed: 2 });
+    expect(res.body.items.map((item: any) => [item.index, item.status])).toEqual([
+      [0, 'completed'],
+      [1, 'completed'],
+      [2, 'failed'],
+      [3, 'failed'],
+    ]);
+    expect(res.body.items[0].result).toMatchObject({ originalUrl: `${baseUrl}/tall.png`, chunkCount: 3 });
+    expect(res.body.items[1].result).toMatchObject({ chunkCount: 2, outputFormat: 'jpeg' });
+    expect(res.body.items[2]).toMatchObject({ url: `${baseUrl}/missing.png`, error: { code: 'FETCH_FAILED', details: { status: 404 } } });
+    expect(res.body.items[3].error).toMatchObject({ code: 'INVALID_PARAMETER', field: 'chunkHeight' });
+
+    const spec = (await request(app).get('/api/openapi.json')).body;
+    const schema = documentedResponse(spec, 'POST', '/api/v1/batch', 200).content['application/json'].schema;
+    expect(schemaErrors(spec, schema, res.body)).toEqual([]);
+  });
+
+  it('should stream an event per item as it starts and finishes', async () => {
+    const res = await request(app)
+      .post('/api/ui/batch')
+      .set('X-Forwarded-For', '10.6.6.2')
+      .set('Accept', 'application/x-ndjson')
+      .send({ chunkHeight: 100, items: [`${baseUrl}/tall.png`, `${baseUrl}/short.png`] });
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toContain('application/x-ndjson');
+    const events = res.text.trim().split('\n').map((line) => JSON.parse(line));
+
+    for (const index of [0, 1]) {
+      const statuses = events.filter((event) => event.index === index).map((event) => event.status);
+      expect(statuses).toEqual(['processing', 'completed']);
+    }
+    expect(events.find((event) => event.index === 1 && event.status === 'completed').result.chunkCount).toBe(2);
+    expect(events[events.length - 1]).toMatchObject({ stage: 'done', result: { itemCount: 2, completed: 2, failed: 0 } });
+    expect(events[events.length - 1].result.items).toBeUndefined();
+  });
+
+  it('should refuse malformed batches', async () => {
+    const missing = await batch('10.6.6.3').send({ chunkHeight: 100 });
+    expect(missing.status).toBe(400);
+    expect(missing.body.error).toMatchObject({ code: 'MISSING_PARAMETER', field: 'items' });
+
+    const tooMany = await batch('10.6.6.3').send({ chunkHeight: 100, items: Array(51).fill(`${baseUrl}/tall.png`) });
+    expect(tooMany.status).toBe(400);
+    expect(tooMany.body.error).toMatchObject({ code: 'INVALID_PARAMETER', field: 'items', details: { max: 50 } });
+
+    const zip = await batch('10.6.6.3').send({ chunkHeight: 100, items: [`${baseUrl}/tall.png`], responseFormat: 'zip' });
+    expect(zip.status).toBe(400);
+    expect(zip.body.error).toMatchObject({ field: 'responseFormat', details: { allowed: ['json', 'ndjson'] } });
+  });
+
+  it('should fail items that ask for a callback', async () => {
+    const res = await batch('10.6.6.4').send({
+      items: [{ url: `${baseUrl}/tall.png`, chunkHeight: 100, callbackUrl: 'https://example.com/hook' }],
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.body.items[0]).toMatchObject({ status: 'failed', error: { code: 'INVALID_PARAMETER', field: 'callbackUrl' } });
+  });
+
+  it('should refuse a batch larger than the quota left without using any of it', async () => {
+    const items = Array(8).fill(`${baseUrl}/short.png`);
+    expect((await batch('10.6.6.5').send({ chunkHeight: 100, items })).headers['x-ratelimit-remaining']).toBe('2');
+
+    const refused = await batch('10.6.6.5').send({ chunkHeight: 100, items: items.slice(0, 3) });
+    expect(refused.status).toBe(429);
+    expect(refused.headers['x-ratelimit-remaining']).toBe('2');
+
+    const fits = await batch('10.6.6.5').send({ chunkHeight: 100, items: items.slice(0, 2) });
+    expect(fits.status).toBe(200);
+    expect(fits.headers['x-ratelimit-remaining']).toBe('0');
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import Jimp from 'jimp';
+import app from '../../server.js';
+import { run } from '../../scripts/splitstream.js';
+
+describe('splitstream CLI - Integration Tests', () => {
+  let workDir: string;
+  let inputDir: string;
+  let server: http.Server;
+  let baseUrl: string;
+
+  const outDir = (name: string) => path.join(workDir, name);
+
+  beforeAll(async () => {
+    workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'splitstream-cli-'));
+    inputDir = path.join(workDir, 'input');
+    await fs.promises.mkdir(inputDir);
+    await new Jimp(40, 250, 0x2266aaff).writeAsync(path.join(inputDir, 'tall.png'));
+    await new Jimp(40, 120, 0xaa6622ff).writeAsync(path.join(inputDir, 'short.png'));
+    await fs.promises.writeFile(path.join(inputDir, 'notes.txt'), 'not an image');
+
+    server = http.createServer(app);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('should split every image in a directory and describe the files in the manifest', async () => {
+    const out = outDir('local');
+    const { code, manifest } = await run([inputDir, '--chunk-height', '100', '--format', 'jpeg', '--overlap', '10', '--out', out]);
+
+    expect(code).toBe(0);
+    expect(manifest.mode).toBe('local');
+    expect(manifest.sources.map((entry: any) => entry.source)).toEqual([
+      path.join(inputDir, 'short.png'),
+      path.join(inputDir, 'tall.png'),
+    ]);
+    expect(manifest.sources[1]).toMatchObject({ ok: true, chunkCount: 3, outputFormat: 'jpeg', overlap: 10 });
+    expect(manifest.sources[1].chunks[1]).toMatchObject({ file: 'tall_2.jpg', yOffset: 90, height: 110 });
+    expect(manifest.sources[1].chunks[1].buffer).toBeUndefined();
+    expect((await fs.promises.readdir(out)).sort()).toEqual(['short_1.jpg', 'short_2.jpg', 'tall_1.jpg', 'tall_2.jpg', 'tall_3.jpg']);
+
+    const chunk = await Jimp.read(path.join(out, 'tall_3.jpg'));
+    expect([chunk.getWidth(), chunk.getHeight()]).toEqual([40, 60]);
+  });
+
+  it('should name chunks from the template', async () => {
+    const out = outDir('template');
+    const { code } = await run([
+      path.join(inputDir, 'tall.png'),
+      '--split-by', 'grid', '--columns', '2', '--rows', '2',
+      '--name', '{name}-r{row}c{column}-{width}x{height}.{ext}',
+      '--out', out,
+    ]);
+
+    expect(code).toBe(0);
+    expect((await fs.promises.readdir(out)).sort()).toEqual([
+      'tall-r1c1-20x125.png',
+      'tall-r1c2-20x125.png',
+      'tall-r2c1-20x125.png',
+      'tall-r2c2-20x125.png',
+    ]);
+  });
+
+  it('should reject invalid flags before writing anything', async () => {
+    const logged: string[] = [];
+    const log = (line: string) => logged.push(line);
+
+    expect(await run([inputDir, '--split-by', 'count', '--out', outDir('invalid')], { log })).toEqual({ code: 2, manifest: null });
+    expect(logged[0]).toBe('Missing required parameter: count (--count)');
+    expect(fs.existsSync(outDir('invalid'))).toBe(false);
+
+    expect((await run([inputDir, '--chunk-height', '100', '--remote', baseUrl], { log })).code).toBe(2);
+    expect(logged[1]).toMatch(/needs an API key/);
+  });
+
+  it('should keep going when an image fails and report it with its error code', async () => {
+    const broken = path.join(workDir, 'broken.png');
+    await fs.promises.writeFile(broken, 'not really a png');
+
+    const { code, manifest } = await run([broken, path.join(inputDir, 'short.png'), '--chunk-height', '100', '--out', outDir('partial')]);
+
+    expect(code).toBe(1);
+    expect(manifest.sources[0]).toMatchObject({ ok: false, error: { code: 'IMAGE_DECODE_FAILED' } });
+    expect(manifest.sources[1]).toMatchObject({ ok: true, chunkCount: 2 });
+  });
+
+  it('should refuse a template that gives chunks the same file name', async () => {
+    const { code, manifest } = await run([inputDir, '--chunk-height', '100', '--name', '{name}.{ext}', '--out', outDir('clash')]);
+
+    expect(code).toBe(1);
+    expect(manifest.sources[0].error).toMatchObject({ code: 'INVALID_PARAMETER', message: expect.stringContaining('"short.png"') });
+  });
+
+  it('should split through /api/v1/process with --remote', async () => {
+    const out = outDir('remote');
+    const source = path.join(inputDir, 'tall.png');
+
+    const { code, manifest } = await run([source, '--chunk-height', '100', '--out', out, '--remote', baseUrl, '--api-key', process.env.API_KEY as string]);
+
+    expect(code).toBe(0);
+    expect(manifest.mode).toBe('remote');
+    expect(manifest.sources[0]).toMatchObject({ ok: true, originalFileName: 'tall.png', chunkCount: 3 });
+    expect((await fs.promises.readdir(out)).sort()).toEqual(['tall_1.png', 'tall_2.png', 'tall_3.png']);
+
+    const rejected = await run([source, '--chunk-height', '100', '--out', out, '--remote', baseUrl, '--api-key', 'wrong']);
+    expect(rejected.code).toBe(1);
+    expect(rejected.manifest.sources[0].error).toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import request from 'supertest';
+import Jimp from 'jimp';
+import app from '../../server.js';
+
+const API_KEY = () => process.env.API_KEY as string;
+
+/**
+ * Poll a job until it leaves the queued/running states
+ */
+async function waitForJob(id: string) {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const res = await request(app).get(`/api/v1/jobs/${id}`).set('API_KEY', API_KEY());
+    if (!['queued', 'running'].includes(res.body.status)) {
+      return res;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  throw new Error(`Job ${id} did not finish`);
+}
+
+describe('Jobs API - Integration Tests', () => {
+  let pngBuffer: Buffer;
+
+  beforeAll(async () => {
+    pngBuffer = await new Jimp(40, 250, 0x224466ff).getBufferAsync(Jimp.MIME_PNG);
+  });
+
+  it('should accept a job, report progress and serve the result', async () => {
+    const created = await request(app)
+      .post('/api/v1/jobs')
+      .set('API_KEY', API_KEY())
+      .set('X-Forwarded-For', '10.3.0.1')
+      .attach('file', pngBuffer, 'tall.png')
+      .field('chunkHeight', '100');
+
+    expect(created.status).toBe(202);
+    expect(created.body.status).toBe('queued');
+    expect(created.headers.location).toBe(`/api/v1/jobs/${created.body.id}`);
+
+    const status = await waitForJob(created.body.id);
+    expect(status.body).toMatchObject({ status: 'completed', progress: { percent: 100, completed: 3, total: 3 } });
+    expect(status.body.expiresAt).toBeDefined();
+
+    const result = await request(app).get(created.body.resultUrl).set('API_KEY', API_KEY());
+    expect(result.status).toBe(200);
+    expect(result.body.originalFileName).toBe('tall.png');
+    expect(result.body.chunks.map((c: any) => c.height)).toEqual([100, 100, 50]);
+  });
+
+  it('should validate parameters before creating a job', async () => {
+    const res = await request(app)
+      .post('/api/v1/jobs')
+      .set('API_KEY', API_KEY())
+      .set('X-Forwarded-For', '10.3.0.2')
+      .send({ url: 'ftp://example.com/image.png', chunkHeight: 100 });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toMatchObject({ code: 'INVALID_PARAMETER', field: 'url' });
+    expect(res.body.error.message).toMatch(/protocol/);
+  });
+
+  it('should report failed jobs and refuse to serve their result', async () => {
+    const created = await request(app)
+      .post('/api/v1/jobs')
+      .set('API_KEY', API_KEY())
+      .set('X-Forwarded-For', '10.3.0.3')
+      .attach('file', Buffer.from('not an image'), { filename: 'broken.png', contentType: 'image/png' })
+      .field('chunkHeight', '100');
+
+    const status = await waitForJob(created.body.id);
+    expect(status.body).toMatchObject({
+      status: 'failed',
+      error: { code: 'IMAGE_DECODE_FAILED', message: 'The uploaded file is not a supported image.' },
+    });
+
+    const result = await request(app).get(created.body.resultUrl).set('API_KEY', API_KEY());
+    expect(result.status).toBe(409);
+    expect(result.body.error).toMatchObject({ code: 'JOB_NOT_COMPLETED', details: { status: 'failed' } });
+  });
+
+  it('should return 404 for unknown jobs and require the API key', async () => {
+    const missing = await request(app).get('/api/v1/jobs/does-not-exist').set('API_KEY', API_KEY());
+    expect(missing.status).toBe(404);
+
+    const unauthorized = await request(app).get('/api/v1/jobs/does-not-exist');
+    expect(unauthorized.status).toBe(401);
+  });
+});
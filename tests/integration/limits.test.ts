@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import request from 'supertest';
+import app from '../../server.js';
+
+describe('Image Limits - Integration Tests', () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    // The oversized image is served from loopback, which the SSRF guard blocks by default
+    process.env.FETCH_ALLOW_PRIVATE_NETWORKS = 'true';
+    server = http.createServer((req, res) => {
+      res.setHeader('Content-Type', 'image/png');
+      res.setHeader('Content-Length', String(1024 * 1024 * 1024));
+      // Never send the gigabyte; the declared length alone must be refused
+      res.end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    delete process.env.FETCH_ALLOW_PRIVATE_NETWORKS;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should report the limits on the health endpoint', async () => {
+    const res = await request(app).get('/api/health').set('X-Forwarded-For', '10.6.0.1');
+
+    expect(res.body.limits).toEqual({
+      maxUploadBytes: 10 * 1024 * 1024,
+      maxDownloadBytes: 20 * 1024 * 1024,
+      maxImagePixels: 50000000,
+      maxBatchItems: 50,
+    });
+  });
+
+  it('should answer 413 when the download is larger than the limit', async () => {
+    const res = await request(app)
+      .post('/api/v1/process')
+      .set('API_KEY', process.env.API_KEY as string)
+      .set('X-Forwarded-For', '10.6.0.2')
+      .send({ url: `${baseUrl}/huge.png`, chunkHeight: 100 });
+
+    expect(res.status).toBe(413);
+    expect(res.body.error.code).toBe('IMAGE_TOO_LARGE');
+  });
+
+  it('should answer 422 for an upload whose header claims too many pixels', async () => {
+    const ihdr = Buffer.alloc(25);
+    ihdr.writeUInt32BE(13, 0);
+    ihdr.write('IHDR', 4, 'ascii');
+    ihdr.writeUInt32BE(50000, 8);
+    ihdr.writeUInt32BE(50000, 12);
+    const bomb = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), ihdr]);
+
+    const res = await request(app)
+      .post('/api/v1/process')
+      .set('API_KEY', process.env.API_KEY as string)
+      .set('X-Forwarded-For', '10.6.0.3')
+      .attach('file', bomb, 'bomb.png')
+      .field('chunkHeight', '100');
+
+    expect(res.status).toBe(422);
+    expect(res.body.error.code).toBe('IMAGE_DIMENSIONS_EXCEEDED');
+    expect(res.body.error.message).toMatch(/50000x50000/);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import request from 'supertest';
+import Jimp from 'jimp';
+import app from '../../server.js';
+import { PROCESS_REQUEST_SCHEMA } from '../../api/validation.js';
+import { documentedResponse, resolveRef, schemaErrors } from '../helpers/openapiContract';
+
+function binaryParser(res: any, callback: (err: Error | null, body: Buffer) => void) {
+  const data: Buffer[] = [];
+  res.on('data', (chunk: Buffer) => data.push(chunk));
+  res.on('end', () => callback(null, Buffer.concat(data)));
+}
+
+describe('OpenAPI Contract - Integration Tests', () => {
+  let spec: any;
+  let pngBuffer: Buffer;
+
+  beforeAll(async () => {
+    spec = (await request(app).get('/api/openapi.json')).body;
+    pngBuffer = await new Jimp(20, 250, 0x884422ff).getBufferAsync(Jimp.MIME_PNG);
+  });
+
+  /**
+   * Check a real response against what the spec documents for its status
+   */
+  const expectDocumented = (method: string, path: string, res: request.Response) => {
+    const documented = documentedResponse(spec, method, path, res.status);
+    const schema = documented.content?.['application/json']?.schema;
+    expect(schema, `${method} ${path} ${res.status} has no JSON schema`).toBeDefined();
+    expect(schemaErrors(spec, schema, res.body)).toEqual([]);
+
+    for (const header of Object.keys(documented.headers || {})) {
+      // Reset is only sent once part of the quota is used
+      if (header !== 'X-RateLimit-Reset' && header !== 'Location') {
+        expect(res.headers[header.toLowerCase()], `${header} on ${method} ${path}`).toBeDefined();
+      }
+    }
+  };
+
+  it('should serve an OpenAPI 3 document whose refs all resolve', () => {
+    expect(spec.openapi).toMatch(/^3\./);
+    expect(spec.components.securitySchemes.ApiKey).toMatchObject({ type: 'apiKey', in: 'header', name: 'API_KEY' });
+
+    const refs = JSON.stringify(spec).match(/"\$ref":"[^"]+"/g) || [];
+    for (const match of refs) {
+      expect(() => resolveRef(spec, { $ref: match.slice(8, -1) })).not.toThrow();
+    }
+  });
+
+  it('should document every parameter the routes validate', () => {
+    const properties = spec.components.schemas.ProcessRequest.properties;
+
+    expect(Object.keys(properties).sort()).toEqual([...Object.keys(PROCESS_REQUEST_SCHEMA), 'responseFormat'].sort());
+    expect(spec.components.schemas.ProcessRequest.required).toEqual(['url', 'chunkHeight']);
+    expect(properties.chunkHeight).toMatchObject({ type: 'integer', minimum: 1, maximum: 10000 });
+  });
+
+  it('should match the health and usage responses', async () => {
+    expectDocumented('GET', '/api/health', await request(app).get('/api/health').set('X-Forwarded-For', '10.6.4.1'));
+    expectDocumented('GET', '/api/v1/usage', await request(app).get('/api/v1/usage').set('X-Forwarded-For', '10.6.4.1'));
+  });
+
+  it('should match successful and failed process responses', async () => {
+    const processUpload = () =>
+      request(app)
+        .post('/api/v1/process')
+        .set('API_KEY', process.env.API_KEY as string)
+        .set('X-Forwarded-For', '10.6.4.2');
+
+    expectDocumented('POST', '/api/v1/process', await processUpload().attach('file', pngBuffer, 'tall.png').field('chunkHeight', '100'));
+    expectDocumented('POST', '/api/v1/process', await processUpload().send({ url: 'https://example.com/a.png' }));
+    expectDocumented('POST', '/api/v1/process', await request(app).post('/api/v1/process').send({}));
+  });
+
+  it('should match every NDJSON progress event', async () => {
+    const res = await request(app)
+      .post('/api/ui/process')
+      .set('X-Forwarded-For', '10.6.4.3')
+      .set('Accept', 'application/x-ndjson')
+      .attach('file', pngBuffer, 'tall.png')
+      .field('chunkHeight', '100')
+      .buffer(true)
+      .parse(binaryParser);
+
+    expect(documentedResponse(spec, 'POST', '/api/ui/process', res.status).content['application/x-ndjson']).toBeDefined();
+    for (const line of res.body.toString().trim().split('\n')) {
+      expect(schemaErrors(spec, { $ref: '#/components/schemas/ProgressEvent' }, JSON.parse(line))).toEqual([]);
+    }
+  });
+
+  it('should match the job responses', async () => {
+    const accepted = await request(app)
+      .post('/api/v1/jobs')
+      .set('API_KEY', process.env.API_KEY as string)
+      .set('X-Forwarded-For', '10.6.4.4')
+      .attach('file', pngBuffer, 'tall.png')
+      .field('chunkHeight', '100');
+    expectDocumented('POST', '/api/v1/jobs', accepted);
+
+    const job = await request(app).get(`/api/v1/jobs/${accepted.body.id}`).set('API_KEY', process.env.API_KEY as string);
+    expectDocumented('GET', '/api/v1/jobs/{id}', job);
+
+    const missing = await request(app).get('/api/v1/jobs/missing/result').set('API_KEY', process.env.API_KEY as string);
+    expectDocumented('GET', '/api/v1/jobs/{id}/result', missing);
+  });
+
+  it('should match the rate limit response', async () => {
+    let res: request.Response;
+    do {
+      res = await request(app).post('/api/ui/process').set('X-Forwarded-For', '10.6.4.5').send({});
+    } while (res.status === 400);
+
+    expect(res.status).toBe(429);
+    expectDocumented('POST', '/api/ui/process', res);
+    expect(res.headers['retry-after']).toBeDefined();
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import request from 'supertest';
+import Jimp from 'jimp';
+import app from '../../server.js';
+import { documentedResponse, schemaErrors } from '../helpers/openapiContract';
+
+describe('Split Plans - Integration Tests', () => {
+  let pngBuffer: Buffer;
+
+  const plan = (ip: string) =>
+    request(app)
+      .post('/api/v1/plan')
+      .set('API_KEY', process.env.API_KEY as string)
+      .set('X-Forwarded-For', ip);
+
+  beforeAll(async () => {
+    pngBuffer = await new Jimp(40, 250, 0x336699ff).getBufferAsync(Jimp.MIME_PNG);
+  });
+
+  it('should answer with the chunk boundaries, estimated sizes and a preview', async () => {
+    const res = await plan('10.6.7.1').field('chunkHeight', '100').field('overlap', '10').attach('file', pngBuffer, 'tall.png');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ originalFileName: 'tall.png', totalWidth: 40, totalHeight: 250, chunkCount: 3 });
+    expect(res.body.chunks.map((c: any) => [c.yOffset, c.height])).toEqual([[0, 100], [90, 110], [190, 60]]);
+    expect(res.body.chunks.every((c: any) => c.estimatedBytes > 0 && !('base64' in c))).toBe(true);
+    expect(res.body.preview).toMatchObject({ mimeType: 'image/jpeg', width: 40, height: 250 });
+
+    const spec = (await request(app).get('/api/openapi.json')).body;
+    const schema = documentedResponse(spec, 'POST', '/api/v1/plan', 200).content['application/json'].schema;
+    expect(schemaErrors(spec, schema, res.body)).toEqual([]);
+  });
+
+  it('should count against the plan limit, not the processing quota', async () => {
+    const res = await plan('10.6.7.2')
+      .field('chunkHeight', '100')
+      .attach('file', pngBuffer, 'tall.png');
+
+    expect(res.status).toBe(200);
+    expect(res.headers['x-ratelimit-limit']).toBe('60');
+    expect(res.headers['x-ratelimit-remaining']).toBe('59');
+
+    const usage = await request(app).get('/api/v1/usage').set('X-Forwarded-For', '10.6.7.2');
+    expect(usage.body).toMatchObject({ scope: 'ip', used: 0, remaining: 10 });
+  });
+
+  it('should validate like a split and refuse callbacks', async () => {
+    const invalid = await plan('10.6.7.3').field('chunkHeight', '0').attach('file', pngBuffer, 'tall.png');
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.error).toMatchObject({ code: 'INVALID_PARAMETER', field: 'chunkHeight' });
+
+    const callback = await plan('10.6.7.3').send({ url: 'https://example.com/tall.png', chunkHeight: 100, callbackUrl: 'https://example.com/hook' });
+    expect(callback.status).toBe(400);
+    expect(callback.body.error).toMatchObject({ field: 'callbackUrl' });
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import request from 'supertest';
+import Jimp from 'jimp';
+import app from '../../server.js';
+
+/**
+ * Collects the raw response body into a Buffer instead of letting supertest parse it
+ */
+function binaryParser(res: any, callback: (err: Error | null, body: Buffer) => void) {
+  const data: Buffer[] = [];
+  res.on('data', (chunk: Buffer) => data.push(chunk));
+  res.on('end', () => callback(null, Buffer.concat(data)));
+}
+
+describe('Response Formats - Integration Tests', () => {
+  let pngBuffer: Buffer;
+
+  beforeAll(async () => {
+    pngBuffer = await new Jimp(40, 250, 0x884422ff).getBufferAsync(Jimp.MIME_PNG);
+  });
+
+  const processUpload = (ip: string) =>
+    request(app)
+      .post('/api/v1/process')
+      .set('API_KEY', process.env.API_KEY as string)
+      .set('X-Forwarded-For', ip)
+      .attach('file', pngBuffer, 'tall.png')
+      .field('chunkHeight', '100');
+
+  it('should return JSON with data URIs by default', async () => {
+    const res = await processUpload('10.2.0.1');
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toMatch(/application\/json/);
+    expect(res.body.chunks[0].base64).toMatch(/^data:image\/png;base64,/);
+  });
+
+  it('should stream a ZIP archive when responseFormat is zip', async () => {
+    const res = await processUpload('10.2.0.2')
+      .field('responseFormat', 'zip')
+      .buffer(true)
+      .parse(binaryParser);
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toBe('application/zip');
+    expect(res.body.subarray(0, 2).toString()).toBe('PK');
+    // File names are stored uncompressed in the ZIP directory
+    const listing = res.body.toString('latin1');
+    expect(listing).toContain('chunk_1_100px.png');
+    expect(listing).toContain('chunk_3_50px.png');
+    expect(listing).toContain('manifest.json');
+  });
+
+  it('should honour the Accept header for multipart/mixed', async () => {
+    const res = await processUpload('10.2.0.3')
+      .set('Accept', 'multipart/mixed')
+      .buffer(true)
+      .parse(binaryParser);
+
+    expect(res.status).toBe(200);
+    const boundary = res.headers['content-type'].match(/boundary=(.+)$/)[1];
+    const parts = res.body.toString('latin1').split(`--${boundary}`).slice(1, -1);
+
+    expect(parts).toHaveLength(4);
+    const metadata = JSON.parse(parts[0].split('\r\n\r\n')[1]);
+    expect(metadata.chunkCount).toBe(3);
+    expect(metadata.chunks[0].base64).toBeUndefined();
+    expect(metadata.chunks[0].fileName).toBe('chunk_1_100px.png');
+    expect(parts[1]).toContain('Content-Type: image/png');
+    expect(parts[1]).toContain('\x89PNG');
+  });
+
+  it('should stream NDJSON progress events ending with the result', async () => {
+    const res = await processUpload('10.2.0.5')
+      .set('Accept', 'application/x-ndjson')
+      .buffer(true)
+      .parse(binaryParser);
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toMatch(/application\/x-ndjson/);
+    const events = res.body.toString().trim().split('\n').map((line: string) => JSON.parse(line));
+
+    expect(events.map((e: any) => e.stage)).toEqual(['decode', 'plan', 'chunk', 'chunk', 'chunk', 'done']);
+    expect(events[2].chunk.base64).toMatch(/^data:image\/png;base64,/);
+    expect(events[5].result.chunkCount).toBe(3);
+    expect(events[5].result.chunks).toBeUndefined();
+  });
+
+  it('should stream progress from the UI endpoint too', async () => {
+    const res = await request(app)
+      .post('/api/ui/process')
+      .set('X-Forwarded-For', '10.2.0.6')
+      .query({ responseFormat: 'ndjson' })
+      .attach('file', pngBuffer, 'tall.png')
+      .field('chunkHeight', '100')
+      .buffer(true)
+      .parse(binaryParser);
+
+    const lines = res.body.toString().trim().split('\n');
+    expect(JSON.parse(lines[lines.length - 1]).stage).toBe('done');
+  });
+
+  it('should report a failure after streaming has started as an error event', async () => {
+    const res = await request(app)
+      .post('/api/v1/process')
+      .set('API_KEY', process.env.API_KEY as string)
+      .set('X-Forwarded-For', '10.2.0.7')
+      .set('Accept', 'application/x-ndjson')
+      .attach('file', Buffer.from('not really a png'), { filename: 'broken.png', contentType: 'image/png' })
+      .field('chunkHeight', '100')
+      .buffer(true)
+      .parse(binaryParser);
+
+    const events = res.body.toString().trim().split('\n').map((line: string) => JSON.parse(line));
+    expect(events[events.length - 1]).toEqual({
+      stage: 'error',
+      error: { code: 'IMAGE_DECODE_FAILED', message: 'The uploaded file is not a supported image.', field: null, details: null },
+    });
+  });
+
+  it('should return a PDF with a page per chunk', async () => {
+    const res = await processUpload('10.2.0.8')
+      .set('Accept', 'application/pdf')
+      .buffer(true)
+      .parse(binaryParser);
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toBe('application/pdf');
+    expect(res.headers['content-disposition']).toMatch(/^attachment; filename="splitstream_\d+\.pdf"$/);
+    const text = res.body.toString('latin1');
+    expect(text.startsWith('%PDF-')).toBe(true);
+    expect(text).toContain('/Count 3');
+    expect(text).toContain('/MediaBox [0 0 40 100]');
+    expect(text).toContain('/MediaBox [0 0 40 50]');
+  });
+
+  it('should print page splits on sheets of paper', async () => {
+    const res = await processUpload('10.2.0.9')
+      .field('splitBy', 'page')
+      .field('paperSize', 'letter')
+      .field('dpi', '72')
+      .field('responseFormat', 'pdf')
+      .buffer(true)
+      .parse(binaryParser);
+
+    expect(res.status).toBe(200);
+    const text = res.body.toString('latin1');
+    expect(text).toContain('/Count 1');
+    expect(text).toContain('/MediaBox [0 0 612 792]');
+    // 40 x 250 pixels at 72 DPI, hanging from the 10mm top margin
+    expect(text).toContain('q 40 0 0 250 28.35 513.65 cm /Im0 Do Q');
+  });
+
+  it('should reject unknown response formats', async () => {
+    const res = await processUpload('10.2.0.4').field('responseFormat', 'tar');
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toMatchObject({ code: 'INVALID_PARAMETER', field: 'responseFormat' });
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import request from 'supertest';
+import Jimp from 'jimp';
+import app from '../../server.js';
+
+describe('Result Cache - Integration Tests', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let pngBuffer: Buffer;
+  // Served at /changing.png, so a test can replace the image behind a URL
+  let changing: Buffer;
+  const served: string[] = [];
+
+  beforeAll(async () => {
+    delete process.env.RESULT_CACHE;
+    // The images are served from loopback, which the SSRF guard blocks by default
+    process.env.FETCH_ALLOW_PRIVATE_NETWORKS = 'true';
+    pngBuffer = await new Jimp(40, 250, 0x228844ff).getBufferAsync(Jimp.MIME_PNG);
+    changing = await new Jimp(40, 250, 0x448822ff).getBufferAsync(Jimp.MIME_PNG);
+
+    server = http.createServer((req, res) => {
+      served.push(`${req.method} ${req.url}`);
+      res.setHeader('Content-Type', 'image/png');
+      res.end(req.url === '/changing.png' ? changing : pngBuffer);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    process.env.RESULT_CACHE = 'off';
+    delete process.env.FETCH_ALLOW_PRIVATE_NETWORKS;
+    delete process.env.RATE_LIMIT_CACHE_HITS;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const processUpload = (ip: string, image: Buffer) =>
+    request(app)
+      .post('/api/v1/process')
+      .set('API_KEY', process.env.API_KEY as string)
+      .set('X-Forwarded-For', ip)
+      .attach('file', image, 'tall.png')
+      .field('chunkHeight', '100');
+
+  it('should answer a repeated upload from the cache', async () => {
+    const miss = await processUpload('10.6.3.1', pngBuffer);
+    const hit = await processUpload('10.6.3.1', pngBuffer);
+
+    expect(miss.headers['x-cache']).toBe('MISS');
+    expect(hit.status).toBe(200);
+    expect(hit.headers['x-cache']).toBe('HIT');
+    expect(hit.body.chunks.map((chunk: any) => chunk.base64)).toEqual(miss.body.chunks.map((chunk: any) => chunk.base64));
+  });
+
+  it('should skip the cache with noCache', async () => {
+    const res = await processUpload('10.6.3.2', pngBuffer).field('noCache', 'true');
+
+    expect(res.status).toBe(200);
+    expect(res.headers['x-cache']).toBe('BYPASS');
+  });
+
+  it('should not count cache hits when RATE_LIMIT_CACHE_HITS is free', async () => {
+    process.env.RATE_LIMIT_CACHE_HITS = 'free';
+    const image = await new Jimp(40, 250, 0x442288ff).getBufferAsync(Jimp.MIME_PNG);
+
+    const miss = await processUpload('10.6.3.3', image);
+    const hit = await processUpload('10.6.3.3', image);
+    const usage = await request(app).get('/api/v1/usage').set('X-Forwarded-For', '10.6.3.3');
+
+    expect(miss.headers['x-ratelimit-remaining']).toBe('9');
+    expect(hit.headers['x-cache']).toBe('HIT');
+    expect(hit.headers['x-ratelimit-remaining']).toBe('9');
+    expect(usage.body).toMatchObject({ used: 1, remaining: 9 });
+    delete process.env.RATE_LIMIT_CACHE_HITS;
+  });
+
+  it('should refund batch items answered from the cache when RATE_LIMIT_CACHE_HITS is free', async () => {
+    process.env.RATE_LIMIT_CACHE_HITS = 'free';
+    const batch = (items: string[]) =>
+      request(app)
+        .post('/api/v1/batch')
+        .set('API_KEY', process.env.API_KEY as string)
+        .set('X-Forwarded-For', '10.6.3.7')
+        .send({ items, chunkHeight: 50 });
+
+    await batch([`${baseUrl}/first.png`]);
+    const res = await batch([`${baseUrl}/again.png`, `${baseUrl}/changing.png`]);
+    const usage = await request(app).get('/api/v1/usage').set('X-Forwarded-For', '10.6.3.7');
+
+    expect(res.body.items.map((item: any) => item.cacheStatus)).toEqual(['HIT', 'MISS']);
+    expect(res.headers['x-ratelimit-remaining']).toBe('8');
+    expect(usage.body).toMatchObject({ used: 2, remaining: 8 });
+    delete process.env.RATE_LIMIT_CACHE_HITS;
+  });
+
+  it('should download a URL once per request and miss when its image changes', async () => {
+    served.length = 0;
+    const processUrl = () =>
+      request(app)
+        .post('/api/v1/process')
+        .set('API_KEY', process.env.API_KEY as string)
+        .set('X-Forwarded-For', '10.6.3.4')
+        .send({ url: `${baseUrl}/changing.png`, chunkHeight: 100 });
+
+    expect((await processUrl()).headers['x-cache']).toBe('MISS');
+    const hit = await processUrl();
+    expect(hit.headers['x-cache']).toBe('HIT');
+    expect(hit.body.originalUrl).toBe(`${baseUrl}/changing.png`);
+    expect(served).toEqual(['GET /changing.png', 'GET /changing.png']);
+
+    changing = await new Jimp(40, 250, 0x884422ff).getBufferAsync(Jimp.MIME_PNG);
+    expect((await processUrl()).headers['x-cache']).toBe('MISS');
+  });
+
+  it('should stream the download of a URL before looking it up', async () => {
+    const streamUrl = () =>
+      request(app)
+        .post('/api/v1/process')
+        .set('API_KEY', process.env.API_KEY as string)
+        .set('X-Forwarded-For', '10.6.3.6')
+        .set('Accept', 'application/x-ndjson')
+        .send({ url: `${baseUrl}/streamed.png`, chunkHeight: 125 })
+        .buffer(true);
+    const events = (res: request.Response) => res.text.trim().split('\n').map((line: string) => JSON.parse(line));
+
+    const miss = events(await streamUrl());
+    const hit = events(await streamUrl());
+
+    expect(miss.map((event: any) => event.stage)).toEqual(['fetch', 'decode', 'plan', 'chunk', 'chunk', 'done']);
+    expect(miss[0]).toEqual({ stage: 'fetch', url: `${baseUrl}/streamed.png` });
+    expect(miss[5].cacheStatus).toBe('MISS');
+    expect(hit.map((event: any) => event.stage)).toEqual(['fetch', 'plan', 'chunk', 'chunk', 'done']);
+    expect(hit[4].cacheStatus).toBe('HIT');
+  });
+
+  it('should hash the content of URLs', async () => {
+    served.length = 0;
+    const processUrl = (path: string) =>
+      request(app)
+        .post('/api/v1/process')
+        .set('API_KEY', process.env.API_KEY as string)
+        .set('X-Forwarded-For', '10.6.3.5')
+        .send({ url: `${baseUrl}${path}`, chunkHeight: 100, splitMode: 'smart' });
+
+    const miss = await processUrl('/plain.png');
+    const hit = await processUrl('/copy.png');
+
+    expect(miss.headers['x-cache']).toBe('MISS');
+    expect(miss.body.originalUrl).toBe(`${baseUrl}/plain.png`);
+    // Same bytes under another URL are the same image
+    expect(hit.headers['x-cache']).toBe('HIT');
+    expect(hit.body.originalUrl).toBe(`${baseUrl}/copy.png`);
+    expect(served.filter((line) => line.startsWith('GET'))).toEqual(['GET /plain.png', 'GET /copy.png']);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import Jimp from 'jimp';
+import app from '../../server.js';
+import { SplitStreamClient } from '../../sdk/splitStreamClient';
+
+describe('SplitStream Client - Integration Tests', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let pngBuffer: Buffer;
+
+  const clientFor = (ip: string) =>
+    new SplitStreamClient({ baseUrl, apiKey: process.env.API_KEY, headers: { 'X-Forwarded-For': ip } });
+
+  beforeAll(async () => {
+    pngBuffer = await new Jimp(30, 250, 0x2266aaff).getBufferAsync(Jimp.MIME_PNG);
+    server = http.createServer(app);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should upload bytes and decode the chunks to images', async () => {
+    const result = await clientFor('10.6.5.1').split(pngBuffer, { chunkHeight: 100 }, { fileName: 'tall.png' });
+
+    expect(result).toMatchObject({ originalFileName: 'tall.png', chunkCount: 3, totalHeight: 250 });
+    const image = await Jimp.read(result.chunks[2].data as Buffer);
+    expect([image.getWidth(), image.getHeight()]).toEqual([30, 50]);
+  });
+
+  it('should stream chunks as they are cut', async () => {
+    const seen: number[] = [];
+    const percents: number[] = [];
+    const result = await clientFor('10.6.5.2').split(pngBuffer, { chunkHeight: 100 }, {
+      onChunk: (chunk, summary) => seen.push(chunk.id, summary.chunkCount),
+      onProgress: (progress) => percents.push(progress.percent),
+    });
+
+    expect(seen).toEqual([0, 3, 1, 3, 2, 3]);
+    expect(percents[percents.length - 1]).toBe(100);
+    expect(result.chunks).toHaveLength(3);
+  });
+
+  it('should fetch a ZIP of the chunks', async () => {
+    const zip = (await clientFor('10.6.5.3').splitToZip(pngBuffer, { chunkHeight: 100 })) as Buffer;
+
+    expect(zip.subarray(0, 2).toString()).toBe('PK');
+  });
+
+  it('should surface the server error code and report the quota', async () => {
+    const client = clientFor('10.6.5.4');
+
+    await expect(client.split(pngBuffer, { splitBy: 'count' })).rejects.toMatchObject({
+      code: 'MISSING_PARAMETER',
+      field: 'count',
+      status: 400,
+    });
+    expect(await client.getUsage()).toMatchObject({ scope: 'ip', used: 1, remaining: 9 });
+  });
+});
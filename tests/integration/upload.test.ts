@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import request from 'supertest';
+import Jimp from 'jimp';
+import app from '../../server.js';
+
+describe('Image Upload - Integration Tests', () => {
+  let pngBuffer: Buffer;
+
+  beforeAll(async () => {
+    pngBuffer = await new Jimp(50, 250, 0x336699ff).getBufferAsync(Jimp.MIME_PNG);
+  });
+
+  it('should split an image uploaded as multipart form data', async () => {
+    const res = await request(app)
+      .post('/api/v1/process')
+      .set('API_KEY', process.env.API_KEY as string)
+      .set('X-Forwarded-For', '10.1.0.1')
+      .attach('file', pngBuffer, 'tall.png')
+      .field('chunkHeight', '100');
+
+    expect(res.status).toBe(200);
+    expect(res.body.originalUrl).toBeNull();
+    expect(res.body.originalFileName).toBe('tall.png');
+    expect(res.body.chunks.map((c: any) => c.height)).toEqual([100, 100, 50]);
+  });
+
+  it('should split an image sent as a raw binary body with query parameters', async () => {
+    const res = await request(app)
+      .post('/api/ui/process?chunkHeight=125&fileName=raw.png')
+      .set('X-Forwarded-For', '10.1.0.2')
+      .set('Content-Type', 'image/png')
+      .send(pngBuffer);
+
+    expect(res.status).toBe(200);
+    expect(res.body.originalFileName).toBe('raw.png');
+    expect(res.body.chunkCount).toBe(2);
+  });
+
+  it('should reject uploads that are not images', async () => {
+    const res = await request(app)
+      .post('/api/v1/process')
+      .set('API_KEY', process.env.API_KEY as string)
+      .set('X-Forwarded-For', '10.1.0.3')
+      .attach('file', Buffer.from('definitely not an image'), 'notes.txt')
+      .field('chunkHeight', '100');
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('IMAGE_DECODE_FAILED');
+    expect(res.body.error.message).toMatch(/not a supported image/);
+  });
+
+  it('should still require either a url or a file', async () => {
+    const res = await request(app)
+      .post('/api/v1/process')
+      .set('API_KEY', process.env.API_KEY as string)
+      .set('X-Forwarded-For', '10.1.0.4')
+      .send({ chunkHeight: 100 });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toMatchObject({ code: 'MISSING_PARAMETER', field: 'url' });
+    expect(res.body.error.message).toMatch(/Missing required parameter: url/);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import request from 'supertest';
+import app from '../../server.js';
+
+describe('SSRF Protection - Integration Tests', () => {
+  it('should reject cloud metadata URLs with a URL_BLOCKED error', async () => {
+    const res = await request(app)
+      .post('/api/v1/process')
+      .set('API_KEY', process.env.API_KEY as string)
+      .set('X-Forwarded-For', '10.5.0.1')
+      .send({ url: 'http://169.254.169.254/latest/meta-data/', chunkHeight: 100 });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toMatchObject({ code: 'URL_BLOCKED', field: 'url' });
+    expect(res.body.error.message).toMatch(/^Blocked url:/);
+  });
+
+  it('should reject internal services on the UI endpoint too', async () => {
+    const res = await request(app)
+      .post('/api/ui/process')
+      .set('X-Forwarded-For', '10.5.0.2')
+      .send({ url: 'http://localhost:6379/', chunkHeight: 100 });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('URL_BLOCKED');
+  });
+
+  it('should reject callbacks to private addresses', async () => {
+    const res = await request(app)
+      .post('/api/v1/jobs')
+      .set('API_KEY', process.env.API_KEY as string)
+      .set('X-Forwarded-For', '10.5.0.3')
+      .attach('file', Buffer.from('irrelevant'), { filename: 'a.png', contentType: 'image/png' })
+      .field('chunkHeight', '100')
+      .field('callbackUrl', 'http://10.0.0.1/hooks');
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toMatchObject({ code: 'URL_BLOCKED', field: 'callbackUrl' });
+  });
+});
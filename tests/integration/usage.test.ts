@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import app from '../../server.js';
+import { createApiKey, createFileKeyStore } from '../../api/apiKeys.js';
+
+describe('Usage API - Integration Tests', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'splitstream-keys-'));
+    process.env.API_KEYS_FILE = path.join(dir, 'keys.json');
+  });
+
+  afterAll(() => {
+    delete process.env.API_KEYS_FILE;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should report the IP quota without spending it', async () => {
+    const ip = '10.6.2.1';
+    const before = await request(app).get('/api/v1/usage').set('X-Forwarded-For', ip);
+
+    expect(before.status).toBe(200);
+    expect(before.body).toMatchObject({ scope: 'ip', limit: 10, used: 0, remaining: 10, reset: null });
+
+    // A refused request still counts, without downloading anything
+    await request(app).post('/api/ui/process').set('X-Forwarded-For', ip).send({});
+    const after = await request(app).get('/api/v1/usage').set('X-Forwarded-For', ip);
+
+    expect(after.body).toMatchObject({ used: 1, remaining: 9 });
+    expect(after.body.reset).toBeGreaterThan(Date.now() / 1000);
+    expect(after.headers['x-ratelimit-remaining']).toBe('9');
+    expect(after.headers['cache-control']).toBe('no-store');
+  });
+
+  it('should report the quota of a managed API key', async () => {
+    const { key } = await createApiKey(createFileKeyStore(process.env.API_KEYS_FILE), { name: 'ci', quotaPerHour: 50 });
+
+    await request(app).post('/api/v1/process').set('API_KEY', key).set('X-Forwarded-For', '10.6.2.2').send({});
+    const res = await request(app).get('/api/v1/usage').set('API_KEY', key).set('X-Forwarded-For', '10.6.2.3');
+
+    expect(res.body).toMatchObject({ scope: 'key', limit: 50, used: 1, remaining: 49 });
+  });
+
+  it('should refuse an invalid API key', async () => {
+    const res = await request(app).get('/api/v1/usage').set('API_KEY', 'wrong').set('X-Forwarded-For', '10.6.2.4');
+    expect(res.status).toBe(401);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import request from 'supertest';
+import Jimp from 'jimp';
+import app from '../../server.js';
+import { signPayload, deliverWebhook } from '../../api/webhooks.js';
+import { startJob } from '../../api/jobs.js';
+
+interface ReceivedHook {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('Webhook Callbacks - Integration Tests', () => {
+  let receiver: http.Server;
+  let receiverUrl: string;
+  let received: ReceivedHook[];
+  // Status codes to answer with, in order; 200 once they run out
+  let responses: number[];
+  let waiters: Array<() => void>;
+
+  const waitForHooks = (count: number) =>
+    new Promise<void>((resolve) => {
+      const check = () => (received.length >= count ? resolve() : waiters.push(check));
+      check();
+    });
+
+  beforeAll(async () => {
+    // The receiver runs on loopback, which the SSRF guard blocks by default
+    process.env.FETCH_ALLOW_PRIVATE_NETWORKS = 'true';
+    receiver = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responses.shift() ?? 200;
+        res.end();
+        waiters.splice(0).forEach((wake) => wake());
+      });
+    });
+    await new Promise<void>((resolve) => receiver.listen(0, '127.0.0.1', resolve));
+    receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hooks`;
+  });
+
+  afterAll(async () => {
+    delete process.env.FETCH_ALLOW_PRIVATE_NETWORKS;
+    await new Promise((resolve) => receiver.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    responses = [];
+    waiters = [];
+  });
+
+  it('should accept the request and POST a signed result to the callback', async () => {
+    const pngBuffer = await new Jimp(30, 200, 0x44aa66ff).getBufferAsync(Jimp.MIME_PNG);
+    const res = await request(app)
+      .post('/api/v1/process')
+      .set('API_KEY', process.env.API_KEY as string)
+      .set('X-Forwarded-For', '10.4.0.1')
+      .attach('file', pngBuffer, 'tall.png')
+      .field('chunkHeight', '100')
+      .field('callbackUrl', receiverUrl);
+
+    expect(res.status).toBe(202);
+    await waitForHooks(1);
+
+    const [hook] = received;
+    const timestamp = hook.headers['x-splitstream-timestamp'] as string;
+    expect(hook.headers['x-splitstream-signature']).toBe(signPayload(hook.body, timestamp));
+
+    const payload = JSON.parse(hook.body);
+    expect(payload).toMatchObject({ jobId: res.body.id, status: 'completed', result: { chunkCount: 2 } });
+    expect(payload.result.chunks[0].base64).toMatch(/^data:image\/png;base64,/);
+  });
+
+  it('should send a failure payload when the split fails', async () => {
+    await request(app)
+      .post('/api/v1/jobs')
+      .set('API_KEY', process.env.API_KEY as string)
+      .set('X-Forwarded-For', '10.4.0.2')
+      .attach('file', Buffer.from('not an image'), { filename: 'broken.png', contentType: 'image/png' })
+      .field('chunkHeight', '100')
+      .field('callbackUrl', receiverUrl);
+
+    await waitForHooks(1);
+    expect(JSON.parse(received[0].body)).toMatchObject({ status: 'failed', error: { code: 'IMAGE_DECODE_FAILED' } });
+  });
+
+  it('should retry with backoff until the receiver answers 2xx', async () => {
+    responses = [500, 503];
+    const outcome = await deliverWebhook(receiverUrl, { hello: 'world' }, { maxAttempts: 5, baseDelayMs: 5 });
+
+    expect(outcome).toEqual({ delivered: true, attempts: 3, status: 200 });
+    expect(received.map((hook) => hook.headers['x-splitstream-attempt'])).toEqual(['1', '2', '3']);
+  });
+
+  it('should give up after the maximum number of attempts', async () => {
+    responses = [500, 500, 500];
+    const outcome = await deliverWebhook(receiverUrl, { hello: 'world' }, { maxAttempts: 3, baseDelayMs: 5 });
+
+    expect(outcome).toEqual({ delivered: false, attempts: 3, status: 500 });
+  });
+
+  it('should stop retrying once the delivery budget is spent', async () => {
+    responses = [500, 500, 500, 500, 500];
+    // Attempts at about 0 and 50 ms; the next would start after 150 ms, past the budget
+    const outcome = await deliverWebhook(receiverUrl, { hello: 'world' }, { maxAttempts: 5, baseDelayMs: 50, budgetMs: 120 });
+
+    expect(outcome).toEqual({ delivered: false, attempts: 2, status: 500 });
+    expect(received).toHaveLength(2);
+  });
+
+  it('should refuse callbacks when no signing key is configured', async () => {
+    const { API_KEY, WEBHOOK_SECRET } = process.env;
+    delete process.env.API_KEY;
+    delete process.env.WEBHOOK_SECRET;
+    try {
+      await expect(startJob({ url: 'https://example.com/image.png', chunkHeight: 100, callbackUrl: receiverUrl })).rejects.toMatchObject({
+        code: 'INVALID_PARAMETER',
+        field: 'callbackUrl',
+      });
+      // Deliveries already queued are dropped without retrying
+      expect(await deliverWebhook(receiverUrl, { hello: 'world' }, { maxAttempts: 3, baseDelayMs: 5 })).toEqual({
+        delivered: false,
+        attempts: 0,
+        status: null,
+      });
+      expect(received).toHaveLength(0);
+    } finally {
+      process.env.API_KEY = API_KEY;
+      if (WEBHOOK_SECRET !== undefined) process.env.WEBHOOK_SECRET = WEBHOOK_SECRET;
+    }
+  });
+
+  it('should reject callback URLs that are not http or https', async () => {
+    const res = await request(app)
+      .post('/api/v1/process')
+      .set('API_KEY', process.env.API_KEY as string)
+      .set('X-Forwarded-For', '10.4.0.3')
+      .send({ url: 'https://example.com/image.png', chunkHeight: 100, callbackUrl: 'file:///etc/passwd' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toMatchObject({ code: 'INVALID_PARAMETER', field: 'callbackUrl' });
+  });
+
+  it('should refuse callbacks on the web UI endpoint', async () => {
+    const res = await request(app)
+      .post('/api/ui/process')
+      .set('X-Forwarded-For', '10.4.0.4')
+      .send({ url: 'https://example.com/image.png', chunkHeight: 100, callbackUrl: receiverUrl });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toMatchObject({ code: 'INVALID_PARAMETER', field: 'callbackUrl' });
+    expect(received).toHaveLength(0);
+  });
+});
@@ -6,6 +6,8 @@ beforeAll(() => {
   process.env.NODE_ENV = 'test';
   process.env.API_KEY = 'test-api-key-12345';
   process.env.RATE_LIMIT_PER_HOUR = '10';
+  // Tests that reuse an image expect it to be processed every time; the cache tests turn it back on
+  process.env.RESULT_CACHE = 'off';
 });
 
 afterAll(() => {
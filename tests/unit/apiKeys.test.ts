@@ -0,0 +1,98 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createApiKey,
+  listApiKeys,
+  setApiKeyEnabled,
+  verifyApiKey,
+  createFileKeyStore,
+  createRedisKeyStore,
+  __internal,
+} from '../../api/apiKeys.js';
+import { createMockRedis } from '../helpers/mockRedis';
+
+const { touchApiKey } = __internal;
+
+describe('API Keys - Unit Tests', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should only store a hash of the key', async () => {
+    const redis = createMockRedis();
+    const store = createRedisKeyStore(redis);
+
+    const { key, record } = await createApiKey(store, { name: 'ci', quotaPerHour: 50 });
+
+    expect(key).toMatch(/^ss_[0-9a-f]{12}_/);
+    expect(record).not.toHaveProperty('hash');
+    expect(record).toMatchObject({ name: 'ci', quotaPerHour: 50, enabled: true, lastUsedAt: null });
+    const stored = redis._getEntry(`apikey:${record.id}`)?.value as string;
+    expect(stored).not.toContain(key);
+    expect(JSON.parse(stored).hash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should verify keys and refuse wrong, malformed and revoked ones', async () => {
+    const store = createRedisKeyStore(createMockRedis());
+    const { key, record } = await createApiKey(store, { name: 'ci' });
+
+    expect(await verifyApiKey(store, key)).toMatchObject({ id: record.id });
+    expect(await verifyApiKey(store, `${key.slice(0, -1)}${key.endsWith('A') ? 'B' : 'A'}`)).toBeNull();
+    expect(await verifyApiKey(store, 'not-a-key')).toBeNull();
+
+    expect(await setApiKeyEnabled(store, record.id, false)).toMatchObject({ enabled: false });
+    expect(await verifyApiKey(store, key)).toBeNull();
+    expect(await setApiKeyEnabled(store, 'unknown', false)).toBeNull();
+  });
+
+  it('should reject keys without a name or with an invalid quota', async () => {
+    const store = createRedisKeyStore(createMockRedis());
+    await expect(createApiKey(store, { name: '' })).rejects.toThrow(/name/);
+    await expect(createApiKey(store, { name: 'x', quotaPerHour: 0 })).rejects.toThrow(/quotaPerHour/);
+  });
+
+  it('should list every key created at the same time in Redis', async () => {
+    const store = createRedisKeyStore(createMockRedis());
+
+    await Promise.all(['a', 'b', 'c'].map((name) => createApiKey(store, { name })));
+
+    expect((await listApiKeys(store)).map((k: { name: string }) => k.name).sort()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should keep keys in a JSON file for local development', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'splitstream-keys-'));
+    const filePath = path.join(dir, 'keys.json');
+    try {
+      const { key, record } = await createApiKey(createFileKeyStore(filePath), { name: 'local' });
+      await createApiKey(createFileKeyStore(filePath), { name: 'second' });
+
+      // A fresh store sees what another process wrote
+      const store = createFileKeyStore(filePath);
+      expect((await listApiKeys(store)).map((k: { name: string }) => k.name)).toEqual(['local', 'second']);
+      expect(await verifyApiKey(store, key)).toMatchObject({ id: record.id });
+      expect(fs.readFileSync(filePath, 'utf8')).not.toContain(key);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should record last use at most once a minute', async () => {
+    vi.useFakeTimers();
+    const store = createRedisKeyStore(createMockRedis());
+    const { record } = await createApiKey(store, { name: 'ci' });
+
+    await touchApiKey(store, await store.getKey(record.id));
+    const firstUse = (await store.getKey(record.id)).lastUsedAt;
+    expect(firstUse).not.toBeNull();
+
+    vi.advanceTimersByTime(30 * 1000);
+    await touchApiKey(store, await store.getKey(record.id));
+    expect((await store.getKey(record.id)).lastUsedAt).toBe(firstUse);
+
+    vi.advanceTimersByTime(31 * 1000);
+    await touchApiKey(store, await store.getKey(record.id));
+    expect((await store.getKey(record.id)).lastUsedAt).not.toBe(firstUse);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { runBatch, __internal } from '../../api/batch.js';
+import { ValidationError } from '../../api/errors.js';
+
+const { mapWithConcurrency } = __internal;
+
+describe('Batch - Unit Tests', () => {
+  it('should never run more than the limit at once and keep the order', async () => {
+    let running = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (delay: number) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      running--;
+      return delay * 2;
+    });
+
+    expect(results).toEqual([60, 20, 40, 10, 30]);
+    expect(peak).toBe(2);
+  });
+
+  it('should report items that failed validation without processing them', async () => {
+    const events: any[] = [];
+    const error = new ValidationError('Missing required parameter: chunkHeight', { field: 'chunkHeight', code: 'MISSING_PARAMETER' });
+
+    const batch = await runBatch([{ index: 0, url: 'https://example.com/a.png', error }], { onItem: (outcome) => events.push(outcome) });
+
+    expect(batch).toMatchObject({ itemCount: 1, completed: 0, failed: 1 });
+    expect(events).toEqual([
+      {
+        index: 0,
+        url: 'https://example.com/a.png',
+        status: 'failed',
+        error: { code: 'MISSING_PARAMETER', message: 'Missing required parameter: chunkHeight', field: 'chunkHeight', details: null },
+      },
+    ]);
+  });
+
+  it('should only keep the counts when the outcomes are sent on as they finish', async () => {
+    const error = new ValidationError('Missing required parameter: chunkHeight', { field: 'chunkHeight', code: 'MISSING_PARAMETER' });
+    const events: any[] = [];
+
+    const batch = await runBatch([{ index: 0, url: null, error }], { onItem: (outcome) => events.push(outcome), keepResults: false });
+
+    expect(batch).toEqual({ itemCount: 1, completed: 0, failed: 1, processingTimeMs: expect.any(Number) });
+    expect(events).toHaveLength(1);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { Readable } from 'stream';
+import Jimp from 'jimp';
+import sharp from 'sharp';
+import { readImageDimensions } from '../../api/imageHeader.js';
+import { __internal } from '../../api/imageProcessor.js';
+
+const { readLimitedBody, assertPixelLimit } = __internal;
+
+/**
+ * A PNG that is nothing but a header claiming the given size
+ */
+function createForgedPng(width: number, height: number) {
+  const ihdr = Buffer.alloc(25);
+  ihdr.writeUInt32BE(13, 0);
+  ihdr.write('IHDR', 4, 'ascii');
+  ihdr.writeUInt32BE(width, 8);
+  ihdr.writeUInt32BE(height, 12);
+  ihdr.writeUInt8(8, 16);
+  ihdr.writeUInt8(6, 17);
+  return Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), ihdr]);
+}
+
+/**
+ * Minimal stand-in for a node-fetch response
+ */
+function fakeResponse(parts: Buffer[], contentLength?: number) {
+  return {
+    headers: new Map(contentLength === undefined ? [] : [['content-length', String(contentLength)]]),
+    body: Readable.from(parts),
+  };
+}
+
+describe('Image Header - Unit Tests', () => {
+  describe('Dimension parsing', () => {
+    it.each([
+      [Jimp.MIME_PNG, 'png'],
+      [Jimp.MIME_JPEG, 'jpeg'],
+      [Jimp.MIME_BMP, 'bmp'],
+      [Jimp.MIME_GIF, 'gif'],
+      [Jimp.MIME_TIFF, 'tiff'],
+    ])('should read %s dimensions without decoding', async (mime, format) => {
+      const buffer = await new Jimp(37, 21, 0x336699ff).getBufferAsync(mime);
+      expect(readImageDimensions(buffer)).toEqual({ format, width: 37, height: 21 });
+    });
+
+    it('should read lossy and lossless webp dimensions', async () => {
+      const raw = sharp({ create: { width: 37, height: 21, channels: 4, background: '#336699' } });
+      expect(readImageDimensions(await raw.clone().webp().toBuffer())).toMatchObject({ width: 37, height: 21 });
+      expect(readImageDimensions(await raw.clone().webp({ lossless: true }).toBuffer())).toMatchObject({ width: 37, height: 21 });
+    });
+
+    it('should return null for unknown or truncated data', () => {
+      expect(readImageDimensions(Buffer.from('definitely not an image'))).toBeNull();
+      expect(readImageDimensions(Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46]))).toBeNull();
+    });
+  });
+
+  describe('Limits', () => {
+    it('should refuse a forged header before decoding', () => {
+      expect(() => assertPixelLimit(createForgedPng(50000, 50000), 1000000)).toThrow(
+        expect.objectContaining({ code: 'IMAGE_DIMENSIONS_EXCEEDED', statusCode: 422 })
+      );
+      expect(() => assertPixelLimit(createForgedPng(1000, 1000), 1000000)).not.toThrow();
+    });
+
+    it('should refuse a declared Content-Length over the limit', async () => {
+      await expect(readLimitedBody(fakeResponse([Buffer.alloc(10)], 5000), 1000)).rejects.toMatchObject({
+        code: 'IMAGE_TOO_LARGE',
+        statusCode: 413,
+      });
+    });
+
+    it('should stop streaming once the limit is passed, whatever the headers say', async () => {
+      const parts = [Buffer.alloc(400), Buffer.alloc(400), Buffer.alloc(400)];
+      await expect(readLimitedBody(fakeResponse(parts, 100), 1000)).rejects.toMatchObject({ code: 'IMAGE_TOO_LARGE' });
+      expect((await readLimitedBody(fakeResponse(parts.slice(0, 2)), 1000)).length).toBe(800);
+    });
+  });
+});
@@ -0,0 +1,397 @@
+import { describe, it, expect } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import Jimp from 'jimp';
+import { splitImageApi, planImageApi, __internal } from '../../api/imageProcessor.js';
+import { validateSplitOptions, parseAspectRatio } from '../../api/validation.js';
+
+const { findSmartCut, resolveChunkCount, planCuts, planColumns, encodeChunk, findUniformBorders } = __internal;
+
+/**
+ * Builds a white image with black "text lines" covering the given row ranges
+ */
+function createStripedImage(width: number, height: number, busyRows: Array<[number, number]>) {
+  const image = new Jimp(width, height, 0xffffffff);
+  for (const [from, to] of busyRows) {
+    for (let y = from; y < to; y++) {
+      for (let x = 0; x < width; x++) {
+        // Alternate pixels so the rows carry horizontal detail like glyphs do
+        image.setPixelColor(x % 2 === 0 ? 0x000000ff : 0xffffffff, x, y);
+      }
+    }
+  }
+  return image;
+}
+
+describe('Image Processor - Unit Tests', () => {
+  describe('Fixed split planning', () => {
+    it('should cut at exact multiples of the chunk height', () => {
+      const image = createStripedImage(20, 250, []);
+      expect(planCuts(image.bitmap, 100)).toEqual([0, 100, 200, 250]);
+    });
+
+    it('should ignore tolerance when splitMode is fixed', () => {
+      const image = createStripedImage(20, 300, [[90, 110]]);
+      expect(planCuts(image.bitmap, 100, { splitMode: 'fixed', smartTolerance: 50 })).toEqual([0, 100, 200, 300]);
+    });
+  });
+
+  describe('Smart split planning', () => {
+    it('should move a cut out of a line of text', () => {
+      const image = createStripedImage(40, 300, [[85, 115]]);
+      const cut = findSmartCut(image.bitmap, 100, 30, 1, 299);
+
+      expect(cut < 85 || cut > 115).toBe(true);
+      expect(Math.abs(cut - 100)).toBeLessThanOrEqual(30);
+    });
+
+    it('should keep the target cut when the surrounding rows are uniform', () => {
+      const image = createStripedImage(40, 300, []);
+      expect(findSmartCut(image.bitmap, 100, 30, 1, 299)).toBe(100);
+    });
+
+    it('should cap the search window at half a chunk so cuts never cross', () => {
+      const image = createStripedImage(40, 400, [[60, 140]]);
+      const boundaries = planCuts(image.bitmap, 100, { splitMode: 'smart', smartTolerance: 500 });
+
+      for (let i = 1; i < boundaries.length; i++) {
+        expect(boundaries[i]).toBeGreaterThan(boundaries[i - 1]);
+      }
+      expect(Math.abs(boundaries[1] - 100)).toBeLessThanOrEqual(50);
+      expect(boundaries[boundaries.length - 1]).toBe(400);
+    });
+  });
+
+  describe('Split option parsing', () => {
+    it('should default to fixed mode', () => {
+      expect(validateSplitOptions({})).toEqual({ splitBy: 'height', splitMode: 'fixed', outputFormat: 'png' });
+    });
+
+    it('should apply the default tolerance in smart mode', () => {
+      expect(validateSplitOptions({ splitMode: 'smart' })).toEqual({ splitBy: 'height', splitMode: 'smart', smartTolerance: 100, outputFormat: 'png' });
+    });
+
+    it('should reject unknown modes and invalid tolerances', () => {
+      expect(() => validateSplitOptions({ splitMode: 'magic' })).toThrow(expect.objectContaining({ field: 'splitMode', code: 'INVALID_PARAMETER' }));
+      expect(() => validateSplitOptions({ splitMode: 'smart', smartTolerance: -1 })).toThrow(/smartTolerance/);
+    });
+  });
+
+  describe('Chunk encoding', () => {
+    it.each([
+      ['png', 'image/png'],
+      ['jpeg', 'image/jpeg'],
+      ['webp', 'image/webp'],
+    ])('should encode %s chunks that decode back to the same size', async (format, mimeType) => {
+      const image = createStripedImage(30, 20, [[5, 10]]);
+      const buffer = await encodeChunk(image, format, 80);
+
+      if (format === 'webp') {
+        expect(buffer.subarray(8, 12).toString('ascii')).toBe('WEBP');
+      } else {
+        const decoded = await Jimp.read(buffer);
+        expect(decoded.getMIME()).toBe(mimeType);
+        expect(decoded.bitmap.width).toBe(30);
+        expect(decoded.bitmap.height).toBe(20);
+      }
+    });
+
+    it('should accept jpg as an alias and validate quality', () => {
+      expect(validateSplitOptions({ outputFormat: 'JPG', quality: '70' })).toMatchObject({ outputFormat: 'jpeg', quality: 70 });
+      expect(() => validateSplitOptions({ outputFormat: 'gif' })).toThrow(/outputFormat/);
+      expect(() => validateSplitOptions({ outputFormat: 'webp', quality: 0 })).toThrow(/quality/);
+    });
+  });
+
+  describe('Chunk overlap', () => {
+    it('should repeat the tail of the previous chunk and record both offsets', async () => {
+      const buffer = await createStripedImage(10, 250, []).getBufferAsync(Jimp.MIME_PNG);
+      const result = await splitImageApi(buffer, 100, null, { overlap: 20 });
+
+      expect(result.overlap).toBe(20);
+      expect(result.chunks.map((c: any) => [c.nominalYOffset, c.yOffset, c.height])).toEqual([
+        [0, 0, 100],
+        [100, 80, 120],
+        [200, 180, 70],
+      ]);
+    });
+
+    it('should reject an overlap that is not smaller than chunkHeight', () => {
+      expect(() => validateSplitOptions({ overlap: 100 }, { chunkHeight: 100 })).toThrow(/overlap/);
+      expect(validateSplitOptions({ overlap: 99 }, { chunkHeight: 100 })).toMatchObject({ overlap: 99 });
+    });
+  });
+
+  describe('Split by count and aspect ratio', () => {
+    it('should spread the remainder evenly when splitting into N parts', () => {
+      const image = createStripedImage(10, 1003, []);
+      const boundaries = planCuts(image.bitmap, null, { splitBy: 'count', count: 5 });
+      const heights = boundaries.slice(1).map((y: number, i: number) => y - boundaries[i]);
+
+      expect(heights).toHaveLength(5);
+      expect(Math.max(...heights) - Math.min(...heights)).toBeLessThanOrEqual(1);
+      expect(boundaries[boundaries.length - 1]).toBe(1003);
+    });
+
+    it('should pick the chunk count closest to the target aspect ratio', () => {
+      // 800 wide at 4:5 means 1000 px slides, so 4100 px tall gives 4 slides
+      expect(resolveChunkCount(800, 4100, { splitBy: 'aspectRatio', aspectRatio: 0.8 })).toBe(4);
+      expect(resolveChunkCount(800, 300, { splitBy: 'aspectRatio', aspectRatio: 0.8 })).toBe(1);
+      expect(resolveChunkCount(800, 4100, { splitBy: 'height' })).toBeNull();
+    });
+
+    it('should report the computed chunk height', async () => {
+      const buffer = await createStripedImage(10, 300, []).getBufferAsync(Jimp.MIME_PNG);
+      const result = await splitImageApi(buffer, null, null, { splitBy: 'count', count: 3 });
+
+      expect(result.splitBy).toBe('count');
+      expect(result.chunkHeight).toBe(100);
+      expect(result.chunkCount).toBe(3);
+    });
+
+    it('should parse aspect ratios in several notations', () => {
+      expect(parseAspectRatio('4:5')).toBeCloseTo(0.8);
+      expect(parseAspectRatio('16/9')).toBeCloseTo(16 / 9);
+      expect(parseAspectRatio('1.5')).toBeCloseTo(1.5);
+      expect(parseAspectRatio('wide')).toBeNull();
+      expect(() => validateSplitOptions({ splitBy: 'count' })).toThrow(expect.objectContaining({ field: 'count', code: 'MISSING_PARAMETER' }));
+      expect(() => validateSplitOptions({ splitBy: 'aspectRatio', aspectRatio: '0:5' })).toThrow(/aspectRatio/);
+    });
+  });
+
+  describe('Grid tiling', () => {
+    it('should tile by rows and columns with x and y offsets', async () => {
+      const buffer = await createStripedImage(300, 200, []).getBufferAsync(Jimp.MIME_PNG);
+      const result = await splitImageApi(buffer, null, null, { splitBy: 'grid', rows: 2, columns: 3 });
+
+      expect(result.rows).toBe(2);
+      expect(result.columns).toBe(3);
+      expect(result.chunks.map((c: any) => [c.row, c.column, c.xOffset, c.yOffset, c.width, c.height])).toEqual([
+        [0, 0, 0, 0, 100, 100],
+        [0, 1, 100, 0, 100, 100],
+        [0, 2, 200, 0, 100, 100],
+        [1, 0, 0, 100, 100, 100],
+        [1, 1, 100, 100, 100, 100],
+        [1, 2, 200, 100, 100, 100],
+      ]);
+    });
+
+    it('should tile by tile size and apply overlap on both axes', async () => {
+      const buffer = await createStripedImage(250, 150, []).getBufferAsync(Jimp.MIME_PNG);
+      const result = await splitImageApi(buffer, null, null, { splitBy: 'grid', tileWidth: 100, tileHeight: 100, overlap: 10 });
+      const last = result.chunks[result.chunks.length - 1];
+
+      expect(result.chunks).toHaveLength(6);
+      expect([last.nominalXOffset, last.xOffset, last.width]).toEqual([200, 190, 60]);
+      expect([last.nominalYOffset, last.yOffset, last.height]).toEqual([100, 90, 60]);
+    });
+
+    it('should refuse grids with more tiles than the chunk limit', async () => {
+      const buffer = await createStripedImage(300, 200, []).getBufferAsync(Jimp.MIME_PNG);
+
+      // 30 x 20 tiles of 10 pixels
+      await expect(splitImageApi(buffer, null, null, { splitBy: 'grid', tileWidth: 10, tileHeight: 10 })).rejects.toMatchObject({
+        field: 'tileWidth',
+        details: { tiles: 600, max: 500 },
+      });
+      // 100 columns by 100 rows are each allowed, but not together
+      await expect(splitImageApi(buffer, null, null, { splitBy: 'grid', rows: 100, columns: 100 })).rejects.toThrow(/10000 tiles/);
+    });
+
+    it('should refuse strip splits with more chunks than the chunk limit', async () => {
+      const buffer = await createStripedImage(100, 1000, []).getBufferAsync(Jimp.MIME_PNG);
+
+      // A 100:1 slide is one pixel tall
+      await expect(splitImageApi(buffer, null, null, { splitBy: 'aspectRatio', aspectRatio: 100 })).rejects.toMatchObject({
+        code: 'INVALID_PARAMETER',
+        field: 'aspectRatio',
+        details: { chunks: 1000, max: 500 },
+      });
+      await expect(splitImageApi(buffer, 1, null)).rejects.toMatchObject({ field: 'chunkHeight', details: { chunks: 1000 } });
+      await expect(splitImageApi(buffer, 2, null)).resolves.toMatchObject({ chunkCount: 500 });
+    });
+
+    it('should only split columns in grid mode', () => {
+      expect(planColumns(300, { splitBy: 'height' })).toEqual([0, 300]);
+      expect(planColumns(300, { splitBy: 'grid', tileWidth: 120 })).toEqual([0, 120, 240, 300]);
+    });
+
+    it('should require a size or a count for each axis', () => {
+      expect(() => validateSplitOptions({ splitBy: 'grid', columns: 2 })).toThrow(/tileHeight or rows/);
+      expect(validateSplitOptions({ splitBy: 'grid', tileWidth: 500, rows: 4 })).toMatchObject({ tileWidth: 500, rows: 4 });
+    });
+  });
+
+  describe('Explicit cuts', () => {
+    it('should cut exactly where asked, ignoring cuts outside the image', async () => {
+      const buffer = await createStripedImage(10, 300, [[85, 115]]).getBufferAsync(Jimp.MIME_PNG);
+      const result = await splitImageApi(buffer, 100, null, { cuts: [90, 250, 300, 400], splitMode: 'smart', smartTolerance: 50 });
+
+      expect(result).toMatchObject({ chunkHeight: null, cuts: [90, 250] });
+      expect(result.chunks.map((c: any) => [c.yOffset, c.height])).toEqual([[0, 90], [90, 160], [250, 50]]);
+    });
+
+    it('should replace the rows of a grid and keep its columns', async () => {
+      const buffer = await createStripedImage(200, 300, []).getBufferAsync(Jimp.MIME_PNG);
+      const options = validateSplitOptions({ splitBy: 'grid', columns: 2, cuts: '120' });
+      const result = await splitImageApi(buffer, null, null, options);
+
+      expect([result.rows, result.columns]).toEqual([2, 2]);
+      expect(result.chunks.map((c: any) => [c.row, c.column, c.height])).toEqual([[0, 0, 120], [0, 1, 120], [1, 0, 180], [1, 1, 180]]);
+    });
+  });
+
+  describe('Page splits', () => {
+    // A4 at 72 DPI with 10mm margins leaves 538 x 785 printable pixels
+    const page = { splitBy: 'page', paperSize: 'a4', dpi: 72, pageMargin: 10 };
+
+    it('should cut chunks as tall as the printable area, overlap included', async () => {
+      const buffer = await createStripedImage(400, 2000, []).getBufferAsync(Jimp.MIME_PNG);
+
+      const plain = await splitImageApi(buffer, null, null, page);
+      expect(plain).toMatchObject({ chunkHeight: 785, paperSize: 'a4', dpi: 72, pageMargin: 10, resizeWidth: null });
+      expect(plain.chunks.map((c: any) => c.height)).toEqual([785, 785, 430]);
+
+      const overlapped = await splitImageApi(buffer, null, null, { ...page, overlap: 15 });
+      expect(overlapped.chunks.map((c: any) => c.height)).toEqual([770, 785, 475]);
+    });
+
+    it('should scale images wider than the printable area down to fit it', async () => {
+      const buffer = await createStripedImage(1076, 200, []).getBufferAsync(Jimp.MIME_PNG);
+      const result = await splitImageApi(buffer, null, null, page);
+
+      expect([result.resizeWidth, result.totalWidth, result.totalHeight]).toEqual([538, 538, 100]);
+    });
+
+    it('should only move smart cuts upwards', () => {
+      const image = createStripedImage(40, 300, [[85, 115]]);
+      const boundaries = planCuts(image.bitmap, 100, { splitBy: 'page', splitMode: 'smart', smartTolerance: 30 });
+
+      expect(boundaries[1]).toBeLessThan(85);
+      expect(boundaries[1]).toBeGreaterThanOrEqual(70);
+    });
+
+    it('should default the print settings and bound the overlap by the page height', () => {
+      expect(validateSplitOptions({ splitBy: 'page' })).toMatchObject({ paperSize: 'a4', dpi: 150, pageMargin: 10 });
+      expect(validateSplitOptions({ splitBy: 'page', paperSize: 'Letter' })).toMatchObject({ paperSize: 'letter' });
+      expect(() => validateSplitOptions({ splitBy: 'page', paperSize: 'a3' })).toThrow(/paperSize/);
+      expect(() => validateSplitOptions({ ...page, overlap: 785 })).toThrow(/overlap/);
+      expect(validateSplitOptions({ splitBy: 'height', dpi: 20 })).not.toHaveProperty('dpi');
+    });
+  });
+
+  describe('Border trimming', () => {
+    /**
+     * A checkerboard framed by a white band on top (slightly off-white in its first 15 rows),
+     * a black band below and 5 grey columns on the left
+     */
+    function createFramedImage() {
+      const image = new Jimp(60, 300, 0xffffffff);
+      image.scan(0, 30, 60, 240, (x, y, idx) => image.bitmap.data.writeUInt32BE((x + y) % 2 ? 0xffffffff : 0x000000ff, idx));
+      image.scan(0, 0, 60, 15, (x, y, idx) => image.bitmap.data.writeUInt32BE(0xfafafaff, idx));
+      image.scan(0, 270, 60, 30, (x, y, idx) => image.bitmap.data.writeUInt32BE(0x000000ff, idx));
+      image.scan(0, 30, 5, 240, (x, y, idx) => image.bitmap.data.writeUInt32BE(0x808080ff, idx));
+      return image;
+    }
+
+    it('should find each side\'s uniform border within the tolerance', () => {
+      const image = createFramedImage();
+
+      expect(findUniformBorders(image.bitmap, 8)).toEqual({ top: 30, bottom: 30, left: 5, right: 0 });
+      // Without tolerance the off-white rows are a border of their own, and the white rows are content
+      expect(findUniformBorders(image.bitmap, 0)).toEqual({ top: 15, bottom: 30, left: 0, right: 0 });
+      expect(findUniformBorders(new Jimp(20, 20, 0xffffffff).bitmap, 0)).toEqual({ top: 0, bottom: 0, left: 0, right: 0 });
+    });
+
+    it('should trim before resizing and report what came off', async () => {
+      const buffer = await createFramedImage().getBufferAsync(Jimp.MIME_PNG);
+
+      const trimmed = await splitImageApi(buffer, 100, 110, { trim: 'auto', trimTolerance: 8, trimTop: 10, trimRight: 5 });
+      expect(trimmed.trimmed).toEqual({ top: 30, bottom: 30, left: 5, right: 5 });
+      // 50 x 240 pixels are left, then resized to 110 wide
+      expect([trimmed.totalWidth, trimmed.totalHeight]).toEqual([110, 528]);
+
+      const untouched = await splitImageApi(buffer, 100, null);
+      expect(untouched).toMatchObject({ trimmed: null, totalWidth: 60, totalHeight: 300 });
+    });
+
+    it('should refuse insets that leave nothing of the image', async () => {
+      const buffer = await createStripedImage(60, 100, []).getBufferAsync(Jimp.MIME_PNG);
+
+      await expect(splitImageApi(buffer, 50, null, { trimTop: 60, trimBottom: 40 })).rejects.toMatchObject({
+        code: 'INVALID_PARAMETER',
+        statusCode: 400,
+        field: 'trimTop',
+        details: { axis: 'height', height: 100, trimTop: 60, trimBottom: 40 },
+      });
+      await expect(splitImageApi(buffer, 50, null, { trimRight: 60 })).rejects.toMatchObject({
+        field: 'trimRight',
+        message: expect.stringContaining("trimRight must leave some of the image's 60 pixels of width"),
+        details: { axis: 'width', width: 60, trimLeft: 0, trimRight: 60 },
+      });
+    });
+  });
+
+  describe('Dry runs', () => {
+    it('should plan the same chunks as the split without encoding them', async () => {
+      const buffer = await createStripedImage(60, 400, [[85, 115], [190, 260]]).getBufferAsync(Jimp.MIME_PNG);
+      const options = { splitMode: 'smart', smartTolerance: 30, overlap: 10, outputFormat: 'jpeg', quality: 80 };
+
+      const plan = await planImageApi(buffer, 100, 30, options);
+      const result = await splitImageApi(buffer, 100, 30, options);
+
+      const { chunks: planned, estimatedTotalBytes, preview, processingTimeMs, ...summary } = plan;
+      const { chunks, processingTimeMs: splitTimeMs, ...resultSummary } = result;
+      expect(summary).toEqual(resultSummary);
+      expect(planned.map(({ estimatedBytes, ...rect }: any) => rect)).toEqual(chunks.map(({ base64, ...rect }: any) => rect));
+      expect(planned.every((chunk: any) => chunk.estimatedBytes > 0 && !('base64' in chunk))).toBe(true);
+      expect(estimatedTotalBytes).toBe(planned.reduce((sum: number, chunk: any) => sum + chunk.estimatedBytes, 0));
+      expect(preview).toMatchObject({ mimeType: 'image/jpeg', width: 30, height: 200 });
+      expect(preview.base64).toMatch(/^data:image\/jpeg;base64,/);
+    });
+  });
+
+  describe('Progress events', () => {
+    it('should report decode, plan and every chunk in order', async () => {
+      const buffer = await createStripedImage(10, 250, []).getBufferAsync(Jimp.MIME_PNG);
+      const events: any[] = [];
+      const result = await splitImageApi(buffer, 50, 5, { onProgress: (event: any) => events.push(event) });
+
+      expect(events.map((e) => e.stage)).toEqual(['decode', 'resize', 'plan', 'chunk', 'chunk', 'chunk']);
+      expect(events[2]).toMatchObject({ total: 3, result: { totalWidth: 5, totalHeight: 125, chunkHeight: 50 } });
+      expect(events[5]).toMatchObject({ completed: 3, total: 3 });
+      expect(events[5].chunk).toBe(result.chunks[2]);
+    });
+  });
+  describe('Typed errors', () => {
+    it('should throw IMAGE_DECODE_FAILED for bytes that are not an image', async () => {
+      await expect(splitImageApi(Buffer.from('not an image'), 100, null)).rejects.toMatchObject({
+        code: 'IMAGE_DECODE_FAILED',
+        statusCode: 400,
+      });
+    });
+
+    it('should throw FETCH_FAILED with the upstream status once every retry has failed', async () => {
+      // Loopback is blocked by the SSRF guard by default
+      process.env.FETCH_ALLOW_PRIVATE_NETWORKS = 'true';
+      const server = http.createServer((req, res) => {
+        res.statusCode = 404;
+        res.end();
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/missing.png`;
+
+      try {
+        await expect(splitImageApi(url, 100, null)).rejects.toMatchObject({
+          code: 'FETCH_FAILED',
+          statusCode: 502,
+          field: 'url',
+          details: { status: 404 },
+        });
+      } finally {
+        delete process.env.FETCH_ALLOW_PRIVATE_NETWORKS;
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+  });
+});
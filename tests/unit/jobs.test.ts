@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import Jimp from 'jimp';
+import { createMemoryJobStore, createRedisJobStore, readJob, JOB_STALL_SECONDS, __internal } from '../../api/jobs.js';
+import { createMockRedis } from '../helpers/mockRedis';
+
+const { progressPercent, runJob } = __internal;
+
+describe('Jobs - Unit Tests', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('Job stores', () => {
+    it('should expire in-memory jobs after the TTL', async () => {
+      vi.useFakeTimers();
+      const store = createMemoryJobStore(60);
+      await store.saveJob({ id: 'a', status: 'queued' });
+
+      vi.advanceTimersByTime(59 * 1000);
+      expect(await store.getJob('a')).toMatchObject({ status: 'queued' });
+
+      vi.advanceTimersByTime(2 * 1000);
+      expect(await store.getJob('a')).toBeNull();
+    });
+
+    it('should round-trip jobs and results through Redis with a TTL', async () => {
+      const redis = createMockRedis();
+      const store = createRedisJobStore(redis, 120);
+
+      await store.saveJob({ id: 'b', status: 'completed' });
+      await store.saveResult('b', { chunkCount: 2 });
+
+      expect(await store.getJob('b')).toEqual({ id: 'b', status: 'completed' });
+      expect(await store.getResult('b')).toEqual({ chunkCount: 2 });
+      expect(await store.getJob('missing')).toBeNull();
+      expect(redis._getEntry('job:b:result')?.expiresAt).toBeGreaterThan(Date.now() + 119 * 1000);
+    });
+
+    it('should store a result over 1 MB in Redis one chunk per key', async () => {
+      const redis = createMockRedis();
+      const set = vi.spyOn(redis, 'set');
+      const store = createRedisJobStore(redis, 120, 1024 * 1024);
+      const chunks = Array.from({ length: 3 }, (_, id) => ({ id, data: 'A'.repeat(600 * 1024) }));
+
+      await store.saveResult('h', { chunkCount: 3, chunks });
+
+      expect(set).toHaveBeenCalledTimes(4);
+      for (const [, value] of set.mock.calls) {
+        expect(Buffer.byteLength(value as string)).toBeLessThanOrEqual(1024 * 1024);
+      }
+      expect(await store.getResult('h')).toEqual({ chunkCount: 3, chunks });
+      expect(redis._getEntry('job:h:result:2')?.expiresAt).toBeGreaterThan(Date.now() + 119 * 1000);
+    });
+
+    it('should fail a job whose chunk is too large for Redis', async () => {
+      const store = createRedisJobStore(createMockRedis(), 120, 100);
+      const buffer = await new Jimp(10, 300, 0xffffffff).getBufferAsync(Jimp.MIME_PNG);
+      const job = { id: 'i', status: 'queued', progress: { stage: 'queued', completed: 0, total: null, percent: 0 } };
+
+      await runJob(store, job, { source: buffer, height: 100, width: null, options: {}, noCache: true });
+
+      expect(await store.getJob('i')).toMatchObject({
+        status: 'failed',
+        error: { code: 'JOB_RESULT_TOO_LARGE', details: { maxEntryBytes: 100 } },
+      });
+      expect(await store.getResult('i')).toBeNull();
+    });
+  });
+
+  describe('Running jobs', () => {
+    it('should weight progress by stage and then by chunks encoded', () => {
+      expect(progressPercent({ stage: 'decode' })).toBe(10);
+      expect(progressPercent({ stage: 'chunk', completed: 1, total: 4 })).toBe(40);
+      expect(progressPercent({ stage: 'chunk', completed: 4, total: 4 })).toBe(100);
+    });
+
+    it('should store the result and mark the job completed', async () => {
+      const store = createMemoryJobStore();
+      const buffer = await new Jimp(10, 300, 0xffffffff).getBufferAsync(Jimp.MIME_PNG);
+      const job = { id: 'c', status: 'queued', progress: { stage: 'queued', completed: 0, total: null, percent: 0 } };
+
+      await runJob(store, job, { source: buffer, height: 100, width: null, options: {}, noCache: false });
+
+      expect(await store.getJob('c')).toMatchObject({ status: 'completed', progress: { percent: 100, total: 3 } });
+      expect((await store.getResult('c')).chunkCount).toBe(3);
+    });
+
+    it('should never let a late progress write undo the final status', async () => {
+      const memory = createMemoryJobStore();
+      // Writes of a running job take a while, so one started early could land last
+      const store = {
+        ...memory,
+        async saveJob(job: any) {
+          const snapshot = { ...job };
+          await new Promise((resolve) => setTimeout(resolve, snapshot.status === 'running' ? 20 : 0));
+          await memory.saveJob(snapshot);
+        },
+      };
+      const buffer = await new Jimp(10, 300, 0xffffffff).getBufferAsync(Jimp.MIME_PNG);
+      const job = { id: 'e', status: 'queued', progress: { stage: 'queued', completed: 0, total: null, percent: 0 } };
+
+      await runJob(store, job, { source: buffer, height: 100, width: null, options: {}, noCache: false });
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(await memory.getJob('e')).toMatchObject({ status: 'completed', progress: { stage: 'done', percent: 100 } });
+    });
+
+    it('should fail jobs that stopped making progress', async () => {
+      const store = createMemoryJobStore();
+      const stalledAt = new Date(Date.now() - (JOB_STALL_SECONDS + 1) * 1000).toISOString();
+      const progress = { stage: 'decode', completed: 0, total: null, percent: 10 };
+      await store.saveJob({ id: 'f', status: 'running', progress, updatedAt: stalledAt });
+      await store.saveJob({ id: 'g', status: 'running', progress, updatedAt: new Date().toISOString() });
+
+      expect(await readJob(store, 'f')).toMatchObject({ status: 'failed', error: { code: 'JOB_INTERRUPTED', details: { stage: 'decode' } } });
+      expect(await store.getJob('f')).toMatchObject({ status: 'failed' });
+      expect(await readJob(store, 'g')).toMatchObject({ status: 'running' });
+      expect(await readJob(store, 'missing')).toBeNull();
+    });
+
+    it('should record a client-safe error when the split fails', async () => {
+      const store = createMemoryJobStore();
+      const job = { id: 'd', status: 'queued', progress: { stage: 'queued', completed: 0, total: null, percent: 0 } };
+
+      await runJob(store, job, { source: Buffer.from('nope'), height: 100, width: null, options: {}, noCache: false });
+
+      expect(await store.getJob('d')).toMatchObject({
+        status: 'failed',
+        error: { code: 'IMAGE_DECODE_FAILED', message: 'The uploaded file is not a supported image.' },
+      });
+      expect(await store.getResult('d')).toBeNull();
+    });
+  });
+});
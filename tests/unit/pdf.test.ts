@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import zlib from 'zlib';
+import Jimp from 'jimp';
+import { renderPdf, __internal } from '../../api/pdf.js';
+
+const { pagePlacement } = __internal;
+
+/**
+ * Byte offsets listed in the cross-reference table of a PDF
+ */
+function xrefOffsets(pdf: Buffer) {
+  const text = pdf.toString('latin1');
+  const table = text.slice(text.lastIndexOf('\nxref\n'));
+  return [...table.matchAll(/^(\d{10}) 00000 n $/gm)].map((match) => Number(match[1]));
+}
+
+describe('PDF Export - Unit Tests', () => {
+  it('should place page split chunks inside the margins at true scale', () => {
+    // A4 at 150 DPI with 10mm margins: 1122 printable pixels are 538.56pt wide
+    const result = { splitBy: 'page', paperSize: 'a4', dpi: 150, pageMargin: 10 };
+    const placement = pagePlacement(result, { width: 1122, height: 300 });
+
+    expect(placement.pageWidth).toBeCloseTo(595.28, 2);
+    expect(placement.pageHeight).toBeCloseTo(841.89, 2);
+    expect(placement.x).toBeCloseTo(28.35, 2);
+    expect(placement.width).toBeCloseTo(538.56, 2);
+    expect(placement.height).toBe(144);
+    expect(placement.y).toBeCloseTo(841.89 - 28.35 - 144, 2);
+  });
+
+  it('should size pages to their chunk for other splits', () => {
+    expect(pagePlacement({ splitBy: 'height' }, { width: 40, height: 100 })).toEqual({
+      pageWidth: 40, pageHeight: 100, x: 0, y: 0, width: 40, height: 100,
+    });
+  });
+
+  it('should write one page per chunk with a valid cross-reference table', async () => {
+    const png = await new Jimp(4, 3, 0x336699ff).getBufferAsync(Jimp.MIME_PNG);
+    const jpeg = await new Jimp(4, 2, 0x336699ff).getBufferAsync(Jimp.MIME_JPEG);
+    const result = {
+      splitBy: 'height',
+      chunks: [
+        { id: 0, mimeType: 'image/png', width: 4, height: 3, buffer: png },
+        { id: 1, mimeType: 'image/jpeg', width: 4, height: 2, buffer: jpeg },
+      ],
+    };
+
+    const pdf = await renderPdf(result, (chunk: any) => chunk.buffer);
+    const text = pdf.toString('latin1');
+
+    expect(text.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(text).toContain('/Count 2');
+    expect(text).toContain('/MediaBox [0 0 4 3]');
+    expect(text).toContain('/Filter /DCTDecode /Length ' + jpeg.length);
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+
+    const offsets = xrefOffsets(pdf);
+    expect(offsets).toHaveLength(8);
+    offsets.forEach((offset, index) => {
+      expect(text.startsWith(`${index + 1} 0 obj\n`, offset)).toBe(true);
+    });
+
+    // The PNG chunk is stored as deflated RGB
+    const image = text.indexOf('/Filter /FlateDecode');
+    const start = text.indexOf('stream\n', image) + 'stream\n'.length;
+    const length = Number(text.slice(image).match(/\/Length (\d+)/)![1]);
+    const rgb = zlib.inflateSync(pdf.subarray(start, start + length));
+    expect([...rgb.subarray(0, 3)]).toEqual([0x33, 0x66, 0x99]);
+    expect(rgb.length).toBe(4 * 3 * 3);
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { STRATEGIES, resolveStrategy, checkMemory, checkRedis, peekMemory, peekRedis, refundMemory, refundRedis } from '../../api/rateLimitStrategies.js';
+import { createMockRedis, MockRedisClient } from '../helpers/mockRedis';
+
+const WINDOW = 60 * 60 * 1000;
+const LIMIT = 5;
+const KEY = 'ratelimit:processing:1-2-3-4';
+// Start halfway through a window so window boundaries are easy to reason about
+const START = 100 * WINDOW + WINDOW / 2;
+
+type Check = ((limit?: number) => Promise<{ allowed: boolean; remaining: number; resetTime: number; retryAfter?: number; charge?: any }>) & {
+  peek: () => Promise<{ used: number; remaining: number; resetTime: number | null }>;
+  refund: (charge: any) => Promise<void>;
+};
+
+const backends: Array<[string, (strategy: string) => Check]> = [
+  [
+    'in-memory',
+    (strategy) => {
+      const entries = new Map();
+      const check = async (limit = LIMIT) => checkMemory(strategy, entries, KEY, limit, WINDOW, Date.now());
+      return Object.assign(check, {
+        peek: async () => peekMemory(strategy, entries, KEY, LIMIT, WINDOW, Date.now()),
+        refund: async (charge: any) => refundMemory(strategy, entries, KEY, LIMIT, WINDOW, charge),
+      });
+    },
+  ],
+  [
+    'redis',
+    (strategy) => {
+      const redis = createMockRedis();
+      const check = (limit = LIMIT) => checkRedis(strategy, redis, KEY, limit, WINDOW, Date.now());
+      return Object.assign(check, {
+        peek: () => peekRedis(strategy, redis, KEY, LIMIT, WINDOW, Date.now()),
+        refund: (charge: any) => refundRedis(strategy, redis, KEY, LIMIT, WINDOW, charge, Date.now()),
+      });
+    },
+  ],
+];
+
+describe('Rate Limit Strategies - Unit Tests', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(START);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe.each(STRATEGIES)('%s', (strategy) => {
+    describe.each(backends)('%s', (backend, createCheck) => {
+      let check: Check;
+
+      beforeEach(() => {
+        check = createCheck(strategy);
+      });
+
+      it('should allow the limit, then refuse with Retry-After', async () => {
+        const results = [];
+        for (let i = 0; i <= LIMIT; i++) {
+          results.push(await check());
+        }
+
+        expect(results.slice(0, LIMIT).every((result) => result.allowed)).toBe(true);
+        expect(results.slice(0, LIMIT).map((result) => result.remaining)).toEqual([4, 3, 2, 1, 0]);
+        expect(results[LIMIT]).toMatchObject({ allowed: false, remaining: 0 });
+        expect(results[LIMIT].retryAfter).toBeGreaterThan(0);
+        expect(results[LIMIT].resetTime).toBeGreaterThan(Date.now());
+      });
+
+      it('should allow a request exactly when Retry-After has passed, not before', async () => {
+        for (let i = 0; i < LIMIT; i++) {
+          vi.advanceTimersByTime(60 * 1000);
+          await check();
+        }
+        const refused = await check();
+        expect(refused.allowed).toBe(false);
+
+        vi.advanceTimersByTime(refused.retryAfter! * 1000 - 2000);
+        expect((await check()).allowed).toBe(false);
+
+        vi.advanceTimersByTime(2000);
+        expect((await check()).allowed).toBe(true);
+      });
+
+      it('should report usage without counting a request', async () => {
+        expect(await check.peek()).toEqual({ used: 0, remaining: LIMIT, resetTime: null });
+
+        await check();
+        await check();
+        const usage = await check.peek();
+        expect(usage).toMatchObject({ used: 2, remaining: LIMIT - 2 });
+        expect(usage.resetTime).toBeGreaterThan(Date.now());
+        expect(await check.peek()).toEqual(usage);
+
+        // The peeks left the quota alone
+        const results = [];
+        for (let i = 0; i < LIMIT - 2; i++) {
+          results.push(await check());
+        }
+        expect(results.every((result) => result.allowed)).toBe(true);
+        expect(await check.peek()).toMatchObject({ used: LIMIT, remaining: 0 });
+      });
+
+      it('should take back a refunded request', async () => {
+        const results = [];
+        for (let i = 0; i < LIMIT; i++) {
+          vi.advanceTimersByTime(1000);
+          results.push(await check());
+        }
+        expect((await check()).allowed).toBe(false);
+
+        await check.refund(results[LIMIT - 1].charge);
+        expect(await check.peek()).toMatchObject({ remaining: 1 });
+        expect((await check()).allowed).toBe(true);
+        expect((await check()).allowed).toBe(false);
+      });
+
+      it('should count every concurrent request exactly once', async () => {
+        const results = await Promise.all(Array.from({ length: LIMIT * 2 }, () => check()));
+        expect(results.filter((result) => result.allowed)).toHaveLength(LIMIT);
+      });
+
+      it('should recover the full quota after a quiet window', async () => {
+        for (let i = 0; i <= LIMIT; i++) {
+          await check();
+        }
+        vi.advanceTimersByTime(2 * WINDOW);
+
+        const results = [];
+        for (let i = 0; i < LIMIT; i++) {
+          results.push(await check());
+        }
+        expect(results.every((result) => result.allowed)).toBe(true);
+      });
+
+      if (backend === 'redis') {
+        it('should only leave keys that expire', async () => {
+          const redis = createMockRedis();
+          await checkRedis(strategy, redis, KEY, LIMIT, WINDOW, Date.now());
+
+          const entries = [...(redis as MockRedisClient)._getStore().values()];
+          expect(entries.length).toBeGreaterThan(0);
+          expect(entries.every((entry) => entry.expiresAt && entry.expiresAt <= Date.now() + 2 * WINDOW)).toBe(true);
+        });
+      }
+    });
+  });
+
+  describe('Window boundaries', () => {
+    // One request opens the window; the rest of the quota is spent just before it ends,
+    // then the client tries again just after. Returns how many of the burst got through.
+    async function burstAcrossBoundary(strategy: string) {
+      const check = backends[1][1](strategy);
+      vi.setSystemTime(100 * WINDOW);
+      await check();
+
+      let allowed = 0;
+      vi.setSystemTime(101 * WINDOW - 1000);
+      for (let i = 0; i < LIMIT; i++) {
+        allowed += (await check()).allowed ? 1 : 0;
+      }
+      vi.setSystemTime(101 * WINDOW + 1000);
+      for (let i = 0; i < LIMIT; i++) {
+        allowed += (await check()).allowed ? 1 : 0;
+      }
+      return allowed;
+    }
+
+    it('should let a fixed window allow almost twice the limit within seconds', async () => {
+      expect(await burstAcrossBoundary('fixed-window')).toBe(2 * LIMIT - 1);
+    });
+
+    it.each(['sliding-window', 'sliding-log', 'token-bucket'])('should hold a burst to the limit with %s', async (strategy) => {
+      expect(await burstAcrossBoundary(strategy)).toBeLessThanOrEqual(LIMIT);
+    });
+  });
+
+  describe('Retry-After', () => {
+    it('should report the rest of the fixed window', async () => {
+      const check = backends[1][1]('fixed-window');
+      for (let i = 0; i < LIMIT; i++) {
+        await check();
+      }
+      vi.advanceTimersByTime(10 * 60 * 1000);
+
+      const refused = await check();
+      expect(refused.retryAfter).toBe(50 * 60);
+      expect(refused.resetTime).toBe(START + WINDOW);
+    });
+
+    it('should report when the token bucket has refilled one token', async () => {
+      const check = backends[0][1]('token-bucket');
+      for (let i = 0; i < LIMIT; i++) {
+        await check();
+      }
+      // One token per 12 minutes at 5 per hour
+      expect((await check()).retryAfter).toBe(12 * 60);
+    });
+  });
+
+  describe('Configuration', () => {
+    it('should default to fixed-window and ignore unknown strategies', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(resolveStrategy(undefined)).toBe('fixed-window');
+      expect(resolveStrategy('sliding-log')).toBe('sliding-log');
+      expect(resolveStrategy('leaky')).toBe('fixed-window');
+      expect(warn).toHaveBeenCalled();
+    });
+  });
+});
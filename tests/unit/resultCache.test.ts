@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import Jimp from 'jimp';
+import {
+  cachedSplit,
+  setResultCache,
+  createMemoryResultCache,
+  createRedisResultCache,
+  __internal,
+} from '../../api/resultCache.js';
+import { createMockRedis } from '../helpers/mockRedis';
+
+const { cacheKey } = __internal;
+
+describe('Result Cache - Unit Tests', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('Stores', () => {
+    it('should evict the least recently used entry beyond the entry limit', async () => {
+      const cache = createMemoryResultCache({ maxEntries: 2 });
+      await cache.set('a', '{"n":1}');
+      await cache.set('b', '{"n":2}');
+      // Reading "a" makes "b" the least recently used
+      await cache.get('a');
+      await cache.set('c', '{"n":3}');
+
+      expect(await cache.get('a')).toEqual({ n: 1 });
+      expect(await cache.get('b')).toBeNull();
+      expect(await cache.get('c')).toEqual({ n: 3 });
+    });
+
+    it('should evict entries beyond the byte limit and expire them after the TTL', async () => {
+      vi.useFakeTimers();
+      const cache = createMemoryResultCache({ maxBytes: 30, ttlSeconds: 60 });
+      await cache.set('a', JSON.stringify({ data: 'x'.repeat(10) }));
+      await cache.set('b', JSON.stringify({ data: 'y'.repeat(10) }));
+
+      expect(await cache.get('a')).toBeNull();
+      expect(cache.stats()).toEqual({ entries: 1, bytes: 21 });
+
+      vi.advanceTimersByTime(61 * 1000);
+      expect(await cache.get('b')).toBeNull();
+    });
+
+    it('should round-trip results through Redis with a TTL', async () => {
+      const redis = createMockRedis();
+      const cache = createRedisResultCache(redis, 120);
+
+      await cache.set('k', JSON.stringify({ chunkCount: 2 }));
+
+      expect(await cache.get('k')).toEqual({ chunkCount: 2 });
+      expect(await cache.get('missing')).toBeNull();
+      expect(redis._getEntry('splitcache:k')?.expiresAt).toBeGreaterThan(Date.now() + 119 * 1000);
+    });
+
+    it('should not send results over the entry limit to Redis', async () => {
+      const redis = createMockRedis();
+      const cache = createRedisResultCache(redis, 120, 20);
+
+      await cache.set('big', JSON.stringify({ data: 'x'.repeat(20) }));
+
+      expect(await cache.get('big')).toBeNull();
+    });
+  });
+
+  describe('Cache keys', () => {
+    it('should change with the split parameters but not with delivery options', () => {
+      const key = cacheKey('sha256:abc', 100, null, { splitMode: 'fixed', outputFormat: 'png' });
+
+      expect(cacheKey('sha256:abc', 100, null, { outputFormat: 'png', splitMode: 'fixed', chunkEncoding: 'buffer', fileName: 'a.png' })).toBe(key);
+      expect(cacheKey('sha256:abc', 100, 50, { splitMode: 'fixed', outputFormat: 'png' })).not.toBe(key);
+      expect(cacheKey('sha256:abc', 100, null, { splitMode: 'smart', outputFormat: 'png' })).not.toBe(key);
+      expect(cacheKey('sha256:def', 100, null, { splitMode: 'fixed', outputFormat: 'png' })).not.toBe(key);
+    });
+  });
+
+  describe('Cached splits', () => {
+    let pngBuffer: Buffer;
+
+    beforeAll(async () => {
+      pngBuffer = await new Jimp(30, 250, 0x336699ff).getBufferAsync(Jimp.MIME_PNG);
+    });
+
+    beforeEach(() => {
+      delete process.env.RESULT_CACHE;
+      setResultCache(createMemoryResultCache());
+    });
+
+    afterEach(() => {
+      process.env.RESULT_CACHE = 'off';
+    });
+
+    it('should serve a repeated upload from the cache in any chunk encoding', async () => {
+      const miss = await cachedSplit(pngBuffer, 100, null, { fileName: 'first.png' });
+      expect(miss.cacheStatus).toBe('MISS');
+      const fresh = await miss.run();
+
+      const hit = await cachedSplit(pngBuffer, 100, null, { fileName: 'second.png' });
+      expect(hit.cacheStatus).toBe('HIT');
+      const cached = await hit.run({ chunkEncoding: 'buffer' });
+
+      expect(cached.chunkCount).toBe(fresh.chunkCount);
+      expect(cached.originalFileName).toBe('second.png');
+      expect(cached.chunks[0].buffer.toString('base64')).toBe(fresh.chunks[0].base64.split(',')[1]);
+    });
+
+    it('should replay progress events on a hit', async () => {
+      await (await cachedSplit(pngBuffer, 100, null)).run();
+
+      const events: any[] = [];
+      await (await cachedSplit(pngBuffer, 100, null)).run({ onProgress: (event: any) => events.push(event) });
+
+      expect(events.map((event) => event.stage)).toEqual(['plan', 'chunk', 'chunk', 'chunk']);
+      expect(events[0]).toMatchObject({ total: 3, result: { chunkHeight: 100 } });
+      expect(events[3]).toMatchObject({ completed: 3, total: 3 });
+    });
+
+    it('should skip the lookup with noCache but refresh the entry', async () => {
+      const cache = createMemoryResultCache();
+      setResultCache(cache);
+
+      const bypass = await cachedSplit(pngBuffer, 100, null, {}, { noCache: true });
+      expect(bypass.cacheStatus).toBe('BYPASS');
+      await bypass.run();
+
+      expect(cache.stats().entries).toBe(1);
+      expect((await cachedSplit(pngBuffer, 100, null)).cacheStatus).toBe('HIT');
+    });
+
+    it('should bypass the cache when RESULT_CACHE is off', async () => {
+      process.env.RESULT_CACHE = 'off';
+      await (await cachedSplit(pngBuffer, 100, null)).run();
+
+      expect((await cachedSplit(pngBuffer, 100, null)).cacheStatus).toBe('BYPASS');
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { SplitStreamClient, SplitRequestError } from '../../sdk/splitStreamClient';
+
+const PNG_BASE64 = Buffer.from('fake png bytes').toString('base64');
+
+const jsonResponse = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+const splitResult = {
+  originalUrl: 'https://example.com/a.png',
+  totalWidth: 10,
+  totalHeight: 20,
+  chunkHeight: 20,
+  chunkCount: 1,
+  processingTimeMs: 5,
+  chunks: [{ id: 0, base64: `data:image/png;base64,${PNG_BASE64}`, mimeType: 'image/png', width: 10, height: 20, xOffset: 0, yOffset: 0 }],
+};
+
+/**
+ * A fetch that never answers, only rejecting once its signal aborts
+ */
+const hangingFetch = (async (url: string, init: RequestInit) =>
+  new Promise((resolve, reject) => {
+    init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+  })) as unknown as typeof fetch;
+
+describe('SplitStream Client - Unit Tests', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should send the API key and decode chunks to Buffers', async () => {
+    const fetchMock = vi.fn(async () => jsonResponse(200, splitResult, { 'X-RateLimit-Limit': '10', 'X-RateLimit-Remaining': '9' }));
+    const client = new SplitStreamClient({ baseUrl: 'https://api.test/', apiKey: 'ss_key', fetch: fetchMock as any });
+    const onQuota = vi.fn();
+
+    const result = await client.split('https://example.com/a.png', { chunkHeight: 20, resizeWidth: null }, { onQuota });
+
+    const [url, init] = fetchMock.mock.calls[0] as any[];
+    expect(url).toBe('https://api.test/api/v1/process');
+    expect(init.headers).toMatchObject({ API_KEY: 'ss_key', 'Content-Type': 'application/json' });
+    expect(JSON.parse(init.body)).toEqual({ url: 'https://example.com/a.png', chunkHeight: 20 });
+    expect(Buffer.isBuffer(result.chunks[0].data)).toBe(true);
+    expect(result.chunks[0].data.toString()).toBe('fake png bytes');
+    expect(result.chunks[0]).toMatchObject({ row: 0, column: 0, sizeBytes: 14 });
+    expect(onQuota).toHaveBeenCalledWith({ limit: 10, remaining: 9, reset: null });
+  });
+
+  it('should decode chunks to Blobs when asked', async () => {
+    const client = new SplitStreamClient({ chunkData: 'blob', fetch: (async () => jsonResponse(200, splitResult)) as any });
+
+    const { chunks } = await client.split('https://example.com/a.png', { chunkHeight: 20 });
+
+    expect(chunks[0].data).toBeInstanceOf(Blob);
+    expect((chunks[0].data as Blob).type).toBe('image/png');
+    expect(await (chunks[0].data as Blob).text()).toBe('fake png bytes');
+  });
+
+  it('should retry a 429 after Retry-After', async () => {
+    vi.useFakeTimers();
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(429, { error: { code: 'RATE_LIMITED', message: 'Slow down', field: null, details: null } }, { 'Retry-After': '3' }))
+      .mockResolvedValueOnce(jsonResponse(200, splitResult));
+    const client = new SplitStreamClient({ fetch: fetchMock });
+
+    const pending = client.split('https://example.com/a.png', { chunkHeight: 20 });
+    await vi.advanceTimersByTimeAsync(2900);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect((await pending).chunkCount).toBe(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should give up when the server asks to wait longer than maxRetryDelayMs', async () => {
+    const fetchMock = vi.fn(async () =>
+      jsonResponse(429, { error: { code: 'RATE_LIMITED', message: 'Slow down', field: null, details: { retryAfter: 3600 } } }, { 'Retry-After': '3600' })
+    );
+    const client = new SplitStreamClient({ fetch: fetchMock as any });
+
+    await expect(client.split('https://example.com/a.png', { chunkHeight: 20 })).rejects.toMatchObject({
+      code: 'RATE_LIMITED',
+      status: 429,
+      details: { retryAfter: 3600 },
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry errors other than 429 and 503', async () => {
+    const fetchMock = vi.fn(async () =>
+      jsonResponse(400, { error: { code: 'MISSING_PARAMETER', message: 'Missing required parameter: chunkHeight', field: 'chunkHeight', details: null } })
+    );
+    const client = new SplitStreamClient({ fetch: fetchMock as any });
+
+    const error = await client.split('https://example.com/a.png').catch((e) => e);
+
+    expect(error).toBeInstanceOf(SplitRequestError);
+    expect(error).toMatchObject({ code: 'MISSING_PARAMETER', field: 'chunkHeight', status: 400 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should time out and abort', async () => {
+    const client = new SplitStreamClient({ fetch: hangingFetch, timeoutMs: 20 });
+    await expect(client.split('https://example.com/a.png', { chunkHeight: 20 })).rejects.toMatchObject({ code: 'TIMEOUT' });
+
+    const controller = new AbortController();
+    const pending = new SplitStreamClient({ fetch: hangingFetch }).split('https://example.com/a.png', { chunkHeight: 20 }, { signal: controller.signal });
+    controller.abort();
+    await expect(pending).rejects.toMatchObject({ code: 'ABORTED' });
+  });
+
+  it('should post a batch and report each item as it finishes', async () => {
+    const lines = [
+      { stage: 'item', index: 0, url: 'https://example.com/a.png', status: 'processing' },
+      { stage: 'item', index: 1, url: 'https://example.com/b.png', status: 'failed', error: { code: 'FETCH_FAILED', message: 'Gone', field: null, details: { status: 404 } } },
+      { stage: 'item', index: 0, url: 'https://example.com/a.png', status: 'completed', result: splitResult },
+      { stage: 'done', result: { itemCount: 2, completed: 1, failed: 1, processingTimeMs: 9 } },
+    ];
+    const fetchMock = vi.fn(async () =>
+      new Response(lines.map((line) => JSON.stringify(line)).join('\n') + '\n', { headers: { 'Content-Type': 'application/x-ndjson' } })
+    );
+    const client = new SplitStreamClient({ fetch: fetchMock as any });
+    const statuses: string[] = [];
+
+    const batch = await client.splitBatch(
+      ['https://example.com/a.png', { url: 'https://example.com/b.png', chunkHeight: 50 }],
+      { chunkHeight: 20, resizeWidth: null },
+      { onItem: (item) => statuses.push(`${item.index}:${item.status}`) }
+    );
+
+    const [url, init] = fetchMock.mock.calls[0] as any[];
+    expect(url).toBe('/api/v1/batch');
+    expect(init.headers.Accept).toBe('application/x-ndjson');
+    expect(JSON.parse(init.body)).toEqual({ chunkHeight: 20, items: ['https://example.com/a.png', { url: 'https://example.com/b.png', chunkHeight: 50 }] });
+    expect(statuses).toEqual(['0:processing', '1:failed', '0:completed']);
+    expect(batch).toMatchObject({ itemCount: 2, completed: 1, failed: 1 });
+    expect(batch.items.map((item) => item.index)).toEqual([0, 1]);
+    expect(batch.items[0].result!.chunks[0].data.toString()).toBe('fake png bytes');
+    expect(batch.items[1].error).toMatchObject({ code: 'FETCH_FAILED' });
+  });
+
+  it('should read structured errors from a progress stream', async () => {
+    const lines = [
+      { stage: 'decode', bytes: 4 },
+      { stage: 'error', error: { code: 'IMAGE_DECODE_FAILED', message: 'Not an image', field: null, details: null } },
+    ];
+    const fetchMock = async () =>
+      new Response(lines.map((line) => JSON.stringify(line)).join('\n') + '\n', { headers: { 'Content-Type': 'application/x-ndjson' } });
+    const client = new SplitStreamClient({ fetch: fetchMock as any });
+    const onProgress = vi.fn();
+
+    await expect(client.split(Buffer.from('nope'), { chunkHeight: 20 }, { onProgress })).rejects.toMatchObject({ code: 'IMAGE_DECODE_FAILED' });
+    expect(onProgress).toHaveBeenCalledWith({ stage: 'decode', completed: 0, total: null, percent: 10 });
+  });
+});
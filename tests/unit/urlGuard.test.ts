@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import http from 'http';
+import dns from 'dns';
+import type { AddressInfo } from 'net';
+import { isBlockedAddress, assertUrlAllowed, safeFetch, __internal } from '../../api/urlGuard.js';
+
+const { checkUrl, guardedLookup } = __internal;
+
+describe('URL Guard - Unit Tests', () => {
+  afterEach(() => {
+    delete process.env.FETCH_HOST_ALLOWLIST;
+    delete process.env.FETCH_HOST_DENYLIST;
+    delete process.env.FETCH_ALLOW_PRIVATE_NETWORKS;
+    vi.restoreAllMocks();
+  });
+
+  describe('Address ranges', () => {
+    it.each([
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.31.255.255',
+      '192.168.0.10',
+      '169.254.169.254',
+      '100.100.100.200',
+      '0.0.0.0',
+      '::1',
+      '::ffff:127.0.0.1',
+      'fd00:ec2::254',
+      'fe80::1',
+      '64:ff9b::a9fe:a9fe',
+      '::127.0.0.1',
+      '::a9fe:a9fe',
+      '2002:7f00:1::',
+      '2002:a9fe:a9fe::1',
+      // Teredo clients 127.0.0.1 and 169.254.169.254
+      '2001:0:4136:e378:8000:63bf:80ff:fffe',
+      '2001::5601:5601',
+      '::',
+    ])('should block %s', (address) => {
+      expect(isBlockedAddress(address)).toBe(true);
+    });
+
+    it.each(['8.8.8.8', '151.101.1.69', '2606:4700:4700::1111', '64:ff9b::808:808', '2002:808:808::1', '2001:0:4136:e378:8000:63bf:f7f7:f7f7'])('should allow %s', (address) => {
+      expect(isBlockedAddress(address)).toBe(false);
+    });
+  });
+
+  describe('Host lists', () => {
+    it('should reject denylisted hosts and subdomains', () => {
+      process.env.FETCH_HOST_DENYLIST = 'evil.test, .internal.example';
+      expect(() => checkUrl('https://evil.test/a.png')).toThrow(/not allowed/);
+      expect(() => checkUrl('https://db.internal.example/a.png')).toThrow(/not allowed/);
+      expect(checkUrl('https://example.com/a.png')).toBe('example.com');
+    });
+
+    it('should only allow allowlisted hosts when an allowlist is set', () => {
+      process.env.FETCH_HOST_ALLOWLIST = '*.cdn.example';
+      expect(checkUrl('https://img.cdn.example/a.png')).toBe('img.cdn.example');
+      expect(() => checkUrl('https://example.com/a.png')).toThrow(/allowlist/);
+    });
+
+    it('should reject non-http protocols', () => {
+      expect(() => checkUrl('file:///etc/passwd')).toThrow(expect.objectContaining({ code: 'URL_BLOCKED' }));
+    });
+  });
+
+  describe('Resolution checks', () => {
+    it('should reject literal private addresses', async () => {
+      await expect(assertUrlAllowed('http://169.254.169.254/latest/meta-data')).rejects.toMatchObject({ code: 'URL_BLOCKED' });
+      await expect(assertUrlAllowed('http://[::1]:3001/')).rejects.toMatchObject({ code: 'URL_BLOCKED' });
+    });
+
+    it('should refuse to connect when a name resolves to a private address', async () => {
+      vi.spyOn(dns, 'lookup').mockImplementation(((hostname: string, options: any, callback: any) =>
+        callback(null, '10.0.0.5', 4)) as any);
+
+      const error = await new Promise((resolve) => guardedLookup('rebind.test', {}, resolve));
+      expect(error).toMatchObject({ code: 'URL_BLOCKED' });
+    });
+  });
+
+  describe('Redirects', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    // Resolves once the body of the /large redirect has been sent in full
+    let largeRedirectSent: Promise<void>;
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        if (req.url === '/image.png') {
+          res.setHeader('Content-Type', 'image/png');
+          return res.end('png');
+        }
+        if (req.url === '/large') {
+          largeRedirectSent = new Promise((resolve) => res.on('finish', resolve));
+          res.statusCode = 302;
+          res.setHeader('Location', '/image.png');
+          // Too large for the socket buffers, so it only finishes if the client reads it
+          return res.end(Buffer.alloc(8 * 1024 * 1024));
+        }
+        res.statusCode = 302;
+        res.setHeader('Location', req.url === '/to-denied' ? 'http://denied.test/secret' : '/image.png');
+        res.end();
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should block the local server unless private networks are allowed', async () => {
+      await expect(safeFetch(`${baseUrl}/image.png`)).rejects.toMatchObject({ code: 'URL_BLOCKED' });
+
+      process.env.FETCH_ALLOW_PRIVATE_NETWORKS = 'true';
+      const response = await safeFetch(`${baseUrl}/image.png`);
+      expect(await response.text()).toBe('png');
+    });
+
+    it('should check every redirect hop', async () => {
+      process.env.FETCH_ALLOW_PRIVATE_NETWORKS = 'true';
+      process.env.FETCH_HOST_DENYLIST = 'denied.test';
+
+      const followed = await safeFetch(`${baseUrl}/relative`);
+      expect(followed.status).toBe(200);
+      await expect(safeFetch(`${baseUrl}/to-denied`)).rejects.toMatchObject({ code: 'URL_BLOCKED' });
+    });
+
+    it('should drain the body of a redirect before following it', async () => {
+      process.env.FETCH_ALLOW_PRIVATE_NETWORKS = 'true';
+
+      const followed = await safeFetch(`${baseUrl}/large`);
+      expect(await followed.text()).toBe('png');
+      await largeRedirectSent;
+    });
+  });
+});
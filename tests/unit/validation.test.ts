@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { PROCESS_REQUEST_SCHEMA, validateProcessRequest } from '../../api/validation.js';
+
+const validate = (body: Record<string, unknown>, uploadedImage?: { buffer: Buffer; fileName: string }) =>
+  validateProcessRequest({ body, query: {}, uploadedImage });
+
+describe('Request Validation - Unit Tests', () => {
+  it('should describe every parameter with a known type', () => {
+    for (const [name, spec] of Object.entries(PROCESS_REQUEST_SCHEMA) as Array<[string, any]>) {
+      expect(['url', 'integer', 'enum', 'aspectRatio', 'cuts', 'boolean'], name).toContain(spec.type);
+      expect(spec.description, name).toBeTruthy();
+    }
+  });
+
+  it('should resolve with values ready for splitImageApi', async () => {
+    const request = await validate({
+      url: 'https://example.com/a.png',
+      chunkHeight: '800',
+      resizeWidth: 1280,
+      outputFormat: 'jpg',
+      noCache: '1',
+    });
+
+    expect(request).toEqual({
+      source: 'https://example.com/a.png',
+      height: 800,
+      width: 1280,
+      options: { splitBy: 'height', splitMode: 'fixed', outputFormat: 'jpeg', fileName: undefined },
+      callbackUrl: null,
+      noCache: true,
+    });
+  });
+
+  it('should take the upload instead of a url and ignore chunkHeight when splitting by count', async () => {
+    const buffer = Buffer.from('image bytes');
+    const request = await validate({ url: 'not even a url', splitBy: 'count', count: 3, chunkHeight: 'x' }, { buffer, fileName: 'a.png' });
+
+    expect(request).toMatchObject({ source: buffer, height: null, options: { count: 3, fileName: 'a.png' } });
+  });
+
+  it('should take explicit cuts from a list or a form field instead of a chunk height', async () => {
+    const fromJson = await validate({ url: 'https://example.com/a.png', cuts: [1600, 800, 800] });
+    expect(fromJson).toMatchObject({ height: null, options: { cuts: [800, 1600] } });
+
+    const fromForm = await validate({ url: 'https://example.com/a.png', splitBy: 'count', cuts: '300, 900' });
+    expect(fromForm.options).toMatchObject({ splitBy: 'count', cuts: [300, 900] });
+    expect(fromForm.options.count).toBeUndefined();
+
+    // No cuts at all is one chunk, whether sent as JSON or as an empty form field
+    const emptyJson = await validate({ url: 'https://example.com/a.png', cuts: [] });
+    const emptyForm = await validate({ url: 'https://example.com/a.png', cuts: '' });
+    expect(emptyJson).toMatchObject({ height: null, options: { cuts: [] } });
+    expect(emptyForm).toMatchObject({ height: null, options: { cuts: [] } });
+
+    await expect(validate({ url: 'https://example.com/a.png', cuts: '800,abc' })).rejects.toMatchObject({ field: 'cuts', details: { min: 1 } });
+    await expect(validate({ url: 'https://example.com/a.png', cuts: Array.from({ length: 500 }, (_, i) => i + 1) }))
+      .rejects.toMatchObject({ field: 'cuts', details: { maxItems: 499 } });
+  });
+
+  it('should take trim options, with a default tolerance only for auto trimming', async () => {
+    const auto = await validate({ url: 'https://example.com/a.png', chunkHeight: 800, trim: 'auto', trimTop: '120' });
+    expect(auto.options).toMatchObject({ trim: 'auto', trimTolerance: 16, trimTop: 120 });
+
+    const insets = await validate({ url: 'https://example.com/a.png', chunkHeight: 800, trimBottom: 40, trimTolerance: 300 });
+    expect(insets.options).toMatchObject({ trimBottom: 40 });
+    expect(insets.options).not.toHaveProperty('trimTolerance');
+
+    await expect(validate({ url: 'https://example.com/a.png', chunkHeight: 800, trim: 'auto', trimTolerance: 256 }))
+      .rejects.toMatchObject({ field: 'trimTolerance', details: { min: 0, max: 255 } });
+    await expect(validate({ url: 'https://example.com/a.png', chunkHeight: 800, trimLeft: -1 })).rejects.toMatchObject({ field: 'trimLeft' });
+  });
+
+  it.each([
+    [{ chunkHeight: 100 }, { code: 'MISSING_PARAMETER', field: 'url' }],
+    [{ url: 'https://example.com/a.png' }, { code: 'MISSING_PARAMETER', field: 'chunkHeight' }],
+    [{ url: 'https://example.com/a.png', chunkHeight: 0 }, { code: 'INVALID_PARAMETER', field: 'chunkHeight', details: { min: 1, max: 10000 } }],
+    [{ url: 'nope', chunkHeight: 100 }, { code: 'INVALID_PARAMETER', field: 'url' }],
+    [{ url: 'https://example.com/a.png', chunkHeight: 100, splitBy: 'diagonal' }, { code: 'INVALID_PARAMETER', field: 'splitBy' }],
+    [{ url: 'https://example.com/a.png', chunkHeight: 100, noCache: 'maybe' }, { code: 'INVALID_PARAMETER', field: 'noCache' }],
+  ])('should reject %j', async (body, expected) => {
+    await expect(validate(body)).rejects.toMatchObject({ statusCode: 400, ...expected });
+  });
+});
@@ -1,21 +1,217 @@
-export interface ProcessedChunk {
+/** Where a chunk sits in the split, as reported by the API */
+export interface ChunkMetadata {
   id: number;
-  blob: Blob;
-  dataUrl: string;
+  width: number;
   height: number;
+  xOffset: number;
   yOffset: number;
+  nominalXOffset: number;
+  nominalYOffset: number;
+  /** Grid position; strips always sit in column 0 */
+  row: number;
+  column: number;
+  mimeType: string;
+}
+
+export interface ProcessedChunk extends ChunkMetadata {
+  blob: Blob;
+  dataUrl: string;
   sizeBytes: number;
 }
 
-export interface ProcessingResult {
-  originalUrl: string;
+/** Everything about a split except the chunks themselves */
+export interface ResultSummary {
+  originalUrl: string | null;
+  originalFileName?: string | null;
+  /** What was trimmed off the source before resizing; null when trimming wasn't asked for */
+  trimmed?: TrimInsets | null;
   totalWidth: number;
   totalHeight: number;
-  chunkHeight: number;
+  /** null when explicit cuts were given */
+  chunkHeight: number | null;
+  splitBy?: SplitBy;
+  aspectRatio?: number | null;
+  /** Print settings of a page split; null for every other split */
+  paperSize?: PaperSize | null;
+  dpi?: number | null;
+  pageMargin?: number | null;
+  /** The explicit cuts the split used, if any */
+  cuts?: number[] | null;
+  rows?: number;
+  columns?: number;
   resizeWidth?: number | null;
+  splitMode?: SplitMode;
+  smartTolerance?: number | null;
+  outputFormat?: OutputFormat;
+  quality?: number | null;
+  overlap?: number;
   chunkCount: number;
+  processingTimeMs: number;
+}
+
+export interface ProcessingResult extends ResultSummary {
   chunks: ProcessedChunk[];
+}
+
+/** A chunk as decoded by the SDK client: a Buffer in Node, a Blob in the browser */
+export interface SplitChunk extends ChunkMetadata {
+  data: Buffer | Blob;
+  sizeBytes: number;
+}
+
+export interface SplitResult extends ResultSummary {
+  chunks: SplitChunk[];
+}
+
+/** A chunk of a plan: where it would be cut and roughly how big it would be once encoded */
+export interface PlannedChunk extends ChunkMetadata {
+  estimatedBytes: number;
+}
+
+/** A dry run of a split: the chunk boundaries without any chunk being encoded */
+export interface SplitPlan extends ResultSummary {
+  chunks: PlannedChunk[];
+  estimatedTotalBytes: number;
+  /** Thumbnail of the (resized) image as a JPEG data URI */
+  preview: { base64: string; mimeType: string; width: number; height: number };
+}
+
+export type SplitBy = 'height' | 'count' | 'aspectRatio' | 'grid' | 'page';
+
+export type PaperSize = 'a4' | 'letter';
+
+export type TrimMode = 'none' | 'auto';
+
+/** Pixels cropped off each side of the source image */
+export interface TrimInsets {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+export type SplitMode = 'fixed' | 'smart';
+
+export type OutputFormat = 'png' | 'jpeg' | 'webp';
+
+export interface SplitOptions {
+  /** 'auto' crops uniform borders off the source before it is resized and split */
+  trim?: TrimMode;
+  /** Per-channel difference a border pixel may have from the border colour (trim 'auto') */
+  trimTolerance?: number;
+  /** Pixels cropped off each side of the source before anything else */
+  trimTop?: number;
+  trimBottom?: number;
+  trimLeft?: number;
+  trimRight?: number;
+  splitBy?: SplitBy;
+  /** Number of equal parts when splitBy is 'count' */
+  count?: number;
+  /** Target slide shape when splitBy is 'aspectRatio', e.g. "4:5" */
+  aspectRatio?: string;
+  /** Grid tiling (splitBy 'grid'): a tile size or a number of divisions per axis */
+  tileWidth?: number;
+  tileHeight?: number;
+  rows?: number;
+  columns?: number;
+  /** Print mode (splitBy 'page'): chunks fill a sheet's printable area at this DPI, margins in mm */
+  paperSize?: PaperSize;
+  dpi?: number;
+  pageMargin?: number;
+  /** Exact cut positions in the (trimmed and resized) image, replacing the planned rows */
+  cuts?: number[];
+  splitMode?: SplitMode;
+  smartTolerance?: number;
+  outputFormat?: OutputFormat;
+  quality?: number;
+  overlap?: number;
+}
+
+/** Every parameter of a process request besides the image itself */
+export interface SplitParams extends SplitOptions {
+  chunkHeight?: number | null;
+  resizeWidth?: number | null;
+  /** Split again instead of serving a cached result */
+  noCache?: boolean;
+}
+
+/** One image of a batch request: a URL, or a URL with parameters of its own */
+export type BatchInput = string | ({ url: string } & SplitParams);
+
+/** The outcome of one batch item as reported by the API; 'processing' only while streaming */
+export interface SplitBatchItem {
+  index: number;
+  url: string | null;
+  status: 'processing' | 'completed' | 'failed';
+  cacheStatus?: 'HIT' | 'MISS' | 'BYPASS';
+  result?: SplitResult;
+  error?: ApiErrorBody;
+}
+
+export interface SplitBatchResult {
+  itemCount: number;
+  completed: number;
+  failed: number;
   processingTimeMs: number;
+  items: SplitBatchItem[];
+}
+
+export type BatchItemStatus = 'queued' | 'processing' | 'completed' | 'failed';
+
+/** A row of a batch in the web UI */
+export interface BatchItem {
+  index: number;
+  url: string;
+  status: BatchItemStatus;
+  result?: ProcessingResult;
+  error?: ApiErrorBody;
+}
+
+/** Where the image to split comes from: a remote URL or a local file */
+export type ImageSource = string | File;
+
+export type SplitStage = 'fetch' | 'decode' | 'resize' | 'plan' | 'chunk';
+
+/** Server-reported progress of a split while it streams in */
+export interface SplitProgress {
+  stage: SplitStage;
+  /** Chunks received so far, and how many to expect once the cuts are planned */
+  completed: number;
+  total: number | null;
+  percent: number;
+}
+
+/** The caller's processing quota, from /api/v1/usage or the X-RateLimit-* headers */
+export interface QuotaStatus {
+  limit: number;
+  remaining: number;
+  /** Unix time in seconds when the quota next grows; null when none of it is used */
+  reset: number | null;
+}
+
+/** The `error` object of a failed API response or an NDJSON error event */
+export interface ApiErrorBody {
+  /** Stable machine-readable code, e.g. FETCH_FAILED or MISSING_PARAMETER */
+  code: string;
+  message: string;
+  /** The request parameter at fault, if any */
+  field: string | null;
+  details: Record<string, unknown> | null;
+}
+
+/** GET /api/v1/usage */
+export interface UsageReport extends QuotaStatus {
+  scope: 'key' | 'ip';
+  used: number;
+  strategy: string;
+}
+
+export interface SplitHandlers {
+  onProgress?: (progress: SplitProgress) => void;
+  /** Called with the result so far each time a chunk arrives */
+  onPartialResult?: (result: ProcessingResult) => void;
+  /** Called with the quota left after the request, including when it was refused */
+  onQuota?: (quota: QuotaStatus) => void;
 }
 
 export enum ProcessStatus {